@@ -15,7 +15,6 @@ module crosschain_escrow_factory::escrow_factory {
     use crosschain_escrow_factory::timelock::{Self, Timelocks};
     use crosschain_escrow_factory::create2;
     use crosschain_escrow_factory::dutch_auction::{Self, AuctionConfig};
-    use aptos_std::from_bcs;
     use crosschain_escrow_factory::merkle_validator::{Self, MultipleFillConfig, TakerData};
     use crosschain_escrow_factory::fee_bank::{Self, FeeConfig, ResolverWhitelist};
 
@@ -160,7 +159,7 @@ module crosschain_escrow_factory::escrow_factory {
 
         // Determine hashlock based on whether multiple fills are allowed
         let hashlock = if (is_multiple_fills_order(&args)) {
-            handle_multiple_fills(&args, &order.hash, making_amount, remaining_making_amount, order.making_amount)
+            handle_multiple_fills(&args, &order.hash, taker, making_amount, remaining_making_amount, order.making_amount)
         } else {
             args.hashlock_info
         };
@@ -237,7 +236,7 @@ module crosschain_escrow_factory::escrow_factory {
 
         // Determine hashlock based on whether multiple fills are allowed
         let hashlock = if (is_multiple_fills_order(&args)) {
-            handle_multiple_fills(&args, &order.hash, making_amount, remaining_making_amount, order.making_amount)
+            handle_multiple_fills(&args, &order.hash, taker, making_amount, remaining_making_amount, order.making_amount)
         } else {
             args.hashlock_info
         };
@@ -423,11 +422,12 @@ module crosschain_escrow_factory::escrow_factory {
     fun handle_multiple_fills(
         args: &SrcEscrowArgs,
         order_hash: &vector<u8>,
+        taker: address,
         making_amount: u64,
         remaining_making_amount: u64,
         order_making_amount: u64
     ): vector<u8> {
-        // Extract parts amount from hashlock_info (first 2 bytes represent parts count)
+        // Extract parts amount from hashlock_info (last 2 bytes represent parts count)
         let parts_amount = extract_parts_amount(&args.hashlock_info);
         assert!(parts_amount >= 2, error::invalid_argument(E_INVALID_SECRETS_AMOUNT));
 
@@ -437,10 +437,9 @@ module crosschain_escrow_factory::escrow_factory {
             parts_amount
         );
 
-        // Validate Merkle proof (this would be called by the limit order protocol)
-        // For now, we'll assume validation has occurred and get the validated data
+        // The taker validated its Merkle proof with merkle_validator::validate_fill_proof
         let (validated_index, secret_hash) = merkle_validator::get_last_validated(
-            @crosschain_escrow_factory, // Assuming validator is at this address
+            taker,
             order_hash,
             &merkle_validator::get_root_shortened(&config)
         );
@@ -466,19 +465,11 @@ module crosschain_escrow_factory::escrow_factory {
             return 1 // Single fill
         };
 
-        // In the original Solidity, parts_amount is encoded in the first 2 bytes
-        // For simplicity, we'll extract from the last 8 bytes as u64
-        let parts_bytes = vector::empty<u8>();
-        let start_idx = vector::length(hashlock_info) - 8;
-        let i = start_idx;
-        
-        while (i < vector::length(hashlock_info)) {
-            vector::push_back(&mut parts_bytes, *vector::borrow(hashlock_info, i));
-            i = i + 1;
-        };
-
-        // Convert bytes to u64 using aptos_std::from_bcs
-        from_bcs::to_u64(parts_bytes)
+        // In the original Solidity, parts_amount is encoded in the top 16 bits.
+        // The root is shortened to its first 30 bytes here, so it is encoded
+        // big-endian in the last 2 bytes
+        let len = vector::length(hashlock_info);
+        ((*vector::borrow(hashlock_info, len - 2) as u64) << 8) | (*vector::borrow(hashlock_info, len - 1) as u64)
     }
 
     /// Computes deterministic address for source escrow
@@ -159,6 +159,22 @@ module crosschain_escrow_factory::merkle_validator {
         });
     }
 
+    /// Validates the proof of the secret a taker fills an order with, so that
+    /// escrow_factory can read it under the taker address
+    public entry fun validate_fill_proof(
+        taker: &signer,
+        order_hash: vector<u8>,
+        root_hash: vector<u8>,
+        parts_amount: u64,
+        proof: vector<vector<u8>>,
+        idx: u64,
+        secret_hash: vector<u8>,
+    ) acquires MerkleStorage {
+        let config = new_multiple_fill_config(root_hash, parts_amount);
+        let taker_data = new_taker_data(proof, idx, secret_hash);
+        validate_and_store_proof(taker, order_hash, &config, &taker_data);
+    }
+
     /// Processes a Merkle proof to calculate root
     public fun process_proof(proof: &vector<vector<u8>>, leaf: vector<u8>): vector<u8> {
         let computed_hash = leaf;
@@ -170,101 +170,191 @@ module resolver_addr::resolver {
         idx: u64,
         secret_hash: vector<u8>,
     ) acquires ResolverConfig {
-        let caller_addr = signer::address_of(caller);
-        let config = borrow_global<ResolverConfig>(resolver_addr);
-        
-        // Only owner can call this function
-        assert!(caller_addr == config.owner, E_UNAUTHORIZED);
-
-        // Step 1: Create timelocks first (needed for immutables)
-        let timelocks = timelock::new(
+        deploy_src_escrow_partial<TokenType, FeeTokenType, AccessTokenType>(
+            caller,
+            resolver_addr,
+            order_hash,
+            maker,
+            receiver,
+            maker_asset,
+            taker_asset,
+            making_amount,
+            taking_amount,
+            making_amount,
+            taking_amount,
+            making_amount,
+            hashlock_info,
+            dst_chain_id,
+            dst_token,
+            deposits,
             src_withdrawal_delay,
             src_public_withdrawal_delay,
             src_cancellation_delay,
             src_public_cancellation_delay,
             dst_withdrawal_delay,
             dst_public_withdrawal_delay,
-            dst_cancellation_delay
+            dst_cancellation_delay,
+            gas_bump_estimate,
+            gas_price_estimate,
+            start_time,
+            duration,
+            initial_rate_bump,
+            proof,
+            idx,
+            secret_hash
         );
+    }
 
-        // Step 2: Extract safety deposits and withdraw tokens from caller's account
-        let src_safety_deposit = ((deposits >> 64) as u64);
-        let tokens_for_escrow = coin::withdraw<TokenType>(caller, making_amount);
-        let safety_deposit_coins = coin::withdraw<AptosCoin>(caller, src_safety_deposit);
+    /// Creates a source escrow for one fill of an order via the factory.
+    /// For an order allowing multiple fills the caller must have validated the proof of
+    /// its secret with merkle_validator::validate_fill_proof first.
+    /// remaining_making_amount is not tracked on chain, the caller asserts it
+    public entry fun deploy_src_escrow_partial<TokenType, FeeTokenType, AccessTokenType>(
+        caller: &signer,
+        resolver_addr: address,
+        // Order data components
+        order_hash: vector<u8>,
+        maker: address,
+        receiver: address,
+        maker_asset: String,
+        taker_asset: String,
+        making_amount: u64,
+        taking_amount: u64,
+        // Fill components
+        fill_making_amount: u64,
+        fill_taking_amount: u64,
+        remaining_making_amount: u64,
+        // Escrow args components
+        hashlock_info: vector<u8>,
+        dst_chain_id: u64,
+        dst_token: String,
+        deposits: u128,
+        // Timelocks components
+        src_withdrawal_delay: u32,
+        src_public_withdrawal_delay: u32,
+        src_cancellation_delay: u32,
+        src_public_cancellation_delay: u32,
+        dst_withdrawal_delay: u32,
+        dst_public_withdrawal_delay: u32,
+        dst_cancellation_delay: u32,
+        // Auction config components
+        gas_bump_estimate: u32,
+        gas_price_estimate: u32,
+        start_time: u32,
+        duration: u32,
+        initial_rate_bump: u32,
+        // Taker data components (for Merkle proofs)
+        proof: vector<vector<u8>>,
+        idx: u64,
+        secret_hash: vector<u8>,
+    ) acquires ResolverConfig {
+        let tokens_for_escrow = coin::withdraw<TokenType>(caller, fill_making_amount);
 
-        // Create order data
-        let order = escrow_factory::new_order_data(
+        deploy_src_escrow_with_tokens<TokenType, FeeTokenType, AccessTokenType>(
+            caller,
+            resolver_addr,
+            tokens_for_escrow,
             order_hash,
             maker,
             receiver,
             maker_asset,
             taker_asset,
             making_amount,
-            taking_amount
-        );
-
-        // Use the timelocks created earlier for address computation
-
-        // Create auction config
-        let auction_config = dutch_auction::new_auction_config(
+            taking_amount,
+            fill_making_amount,
+            fill_taking_amount,
+            remaining_making_amount,
+            hashlock_info,
+            dst_chain_id,
+            dst_token,
+            deposits,
+            src_withdrawal_delay,
+            src_public_withdrawal_delay,
+            src_cancellation_delay,
+            src_public_cancellation_delay,
+            dst_withdrawal_delay,
+            dst_public_withdrawal_delay,
+            dst_cancellation_delay,
             gas_bump_estimate,
             gas_price_estimate,
             start_time,
             duration,
             initial_rate_bump,
-            vector[] // empty points vector for simple case
-        );
-
-        // Create fee config (simple case - no fees)
-        let fee_config = fee_bank::new_fee_config(
-            false, // resolver_fee_enabled
-            0,     // base_resolver_fee
-            0      // fee_rate
-        );
-
-        // Create resolver whitelist (allow this resolver)
-        let whitelisted_resolver = fee_bank::new_whitelisted_resolver(
-            resolver_addr,
-            0 // allowed_from_time
-        );
-        let whitelist = fee_bank::new_resolver_whitelist(
-            0, // allowed_time
-            vector[whitelisted_resolver]
-        );
-
-        // Create taker data
-        let taker_data = merkle_validator::new_taker_data(
             proof,
             idx,
             secret_hash
         );
+    }
 
-        // Create source escrow args
-        let args = escrow_factory::new_src_escrow_args(
-            order_hash,
-            hashlock_info,
-            dst_chain_id,
-            dst_token,
-            deposits,
-            timelocks,
-            auction_config,
-            fee_config,
-            whitelist,
-            taker_data
-        );
+    /// Creates the source escrow of a single fill order funded by its maker: the maker
+    /// sends the transaction and the resolver owner co-signs it, so the making amount
+    /// only leaves the maker account into the escrow
+    public entry fun deploy_src_escrow_from_maker<TokenType, FeeTokenType, AccessTokenType>(
+        maker: &signer,
+        caller: &signer,
+        resolver_addr: address,
+        // Order data components
+        order_hash: vector<u8>,
+        receiver: address,
+        maker_asset: String,
+        taker_asset: String,
+        making_amount: u64,
+        taking_amount: u64,
+        // Escrow args components
+        hashlock_info: vector<u8>,
+        dst_chain_id: u64,
+        dst_token: String,
+        deposits: u128,
+        // Timelocks components
+        src_withdrawal_delay: u32,
+        src_public_withdrawal_delay: u32,
+        src_cancellation_delay: u32,
+        src_public_cancellation_delay: u32,
+        dst_withdrawal_delay: u32,
+        dst_public_withdrawal_delay: u32,
+        dst_cancellation_delay: u32,
+        // Auction config components
+        gas_bump_estimate: u32,
+        gas_price_estimate: u32,
+        start_time: u32,
+        duration: u32,
+        initial_rate_bump: u32,
+    ) acquires ResolverConfig {
+        let tokens_for_escrow = coin::withdraw<TokenType>(maker, making_amount);
 
-        // Create the source escrow with tokens
-        let _escrow_address = escrow_factory::create_src_escrow_with_tokens<TokenType, FeeTokenType, AccessTokenType>(
+        deploy_src_escrow_with_tokens<TokenType, FeeTokenType, AccessTokenType>(
             caller,
-            config.factory_address,
+            resolver_addr,
             tokens_for_escrow,
-            safety_deposit_coins,
-            &order,
-            caller_addr, // taker
+            order_hash,
+            signer::address_of(maker),
+            receiver,
+            maker_asset,
+            taker_asset,
             making_amount,
             taking_amount,
-            making_amount, // remaining_making_amount
-            args
+            making_amount,
+            taking_amount,
+            making_amount,
+            hashlock_info,
+            dst_chain_id,
+            dst_token,
+            deposits,
+            src_withdrawal_delay,
+            src_public_withdrawal_delay,
+            src_cancellation_delay,
+            src_public_cancellation_delay,
+            dst_withdrawal_delay,
+            dst_public_withdrawal_delay,
+            dst_cancellation_delay,
+            gas_bump_estimate,
+            gas_price_estimate,
+            start_time,
+            duration,
+            initial_rate_bump,
+            vector[],
+            0,
+            hashlock_info
         );
     }
 
@@ -380,6 +470,144 @@ module resolver_addr::resolver {
         );
     }
 
+    // Locks tokens_for_escrow, the fill making amount, in a new source escrow
+    fun deploy_src_escrow_with_tokens<TokenType, FeeTokenType, AccessTokenType>(
+        caller: &signer,
+        resolver_addr: address,
+        tokens_for_escrow: Coin<TokenType>,
+        // Order data components
+        order_hash: vector<u8>,
+        maker: address,
+        receiver: address,
+        maker_asset: String,
+        taker_asset: String,
+        making_amount: u64,
+        taking_amount: u64,
+        // Fill components
+        fill_making_amount: u64,
+        fill_taking_amount: u64,
+        remaining_making_amount: u64,
+        // Escrow args components
+        hashlock_info: vector<u8>,
+        dst_chain_id: u64,
+        dst_token: String,
+        deposits: u128,
+        // Timelocks components
+        src_withdrawal_delay: u32,
+        src_public_withdrawal_delay: u32,
+        src_cancellation_delay: u32,
+        src_public_cancellation_delay: u32,
+        dst_withdrawal_delay: u32,
+        dst_public_withdrawal_delay: u32,
+        dst_cancellation_delay: u32,
+        // Auction config components
+        gas_bump_estimate: u32,
+        gas_price_estimate: u32,
+        start_time: u32,
+        duration: u32,
+        initial_rate_bump: u32,
+        // Taker data components (for Merkle proofs)
+        proof: vector<vector<u8>>,
+        idx: u64,
+        secret_hash: vector<u8>,
+    ) acquires ResolverConfig {
+        let caller_addr = signer::address_of(caller);
+        let config = borrow_global<ResolverConfig>(resolver_addr);
+        
+        // Only owner can call this function
+        assert!(caller_addr == config.owner, E_UNAUTHORIZED);
+
+        // Step 1: Create timelocks first (needed for immutables)
+        let timelocks = timelock::new(
+            src_withdrawal_delay,
+            src_public_withdrawal_delay,
+            src_cancellation_delay,
+            src_public_cancellation_delay,
+            dst_withdrawal_delay,
+            dst_public_withdrawal_delay,
+            dst_cancellation_delay
+        );
+
+        // Step 2: Extract safety deposits and withdraw them from caller's account
+        let src_safety_deposit = ((deposits >> 64) as u64);
+        let safety_deposit_coins = coin::withdraw<AptosCoin>(caller, src_safety_deposit);
+
+        // Create order data
+        let order = escrow_factory::new_order_data(
+            order_hash,
+            maker,
+            receiver,
+            maker_asset,
+            taker_asset,
+            making_amount,
+            taking_amount
+        );
+
+        // Use the timelocks created earlier for address computation
+
+        // Create auction config
+        let auction_config = dutch_auction::new_auction_config(
+            gas_bump_estimate,
+            gas_price_estimate,
+            start_time,
+            duration,
+            initial_rate_bump,
+            vector[] // empty points vector for simple case
+        );
+
+        // Create fee config (simple case - no fees)
+        let fee_config = fee_bank::new_fee_config(
+            false, // resolver_fee_enabled
+            0,     // base_resolver_fee
+            0      // fee_rate
+        );
+
+        // Create resolver whitelist (allow this resolver)
+        let whitelisted_resolver = fee_bank::new_whitelisted_resolver(
+            resolver_addr,
+            0 // allowed_from_time
+        );
+        let whitelist = fee_bank::new_resolver_whitelist(
+            0, // allowed_time
+            vector[whitelisted_resolver]
+        );
+
+        // Create taker data
+        let taker_data = merkle_validator::new_taker_data(
+            proof,
+            idx,
+            secret_hash
+        );
+
+        // Create source escrow args
+        let args = escrow_factory::new_src_escrow_args(
+            order_hash,
+            hashlock_info,
+            dst_chain_id,
+            dst_token,
+            deposits,
+            timelocks,
+            auction_config,
+            fee_config,
+            whitelist,
+            taker_data
+        );
+
+        // Create the source escrow with tokens
+        let _escrow_address = escrow_factory::create_src_escrow_with_tokens<TokenType, FeeTokenType, AccessTokenType>(
+            caller,
+            config.factory_address,
+            tokens_for_escrow,
+            safety_deposit_coins,
+            &order,
+            caller_addr, // taker
+            fill_making_amount,
+            fill_taking_amount,
+            remaining_making_amount,
+            args
+        );
+    }
+
     // View functions
     public fun get_owner(resolver_addr: address): address acquires ResolverConfig {
         borrow_global<ResolverConfig>(resolver_addr).owner
@@ -0,0 +1,136 @@
+#[test_only]
+module crosschain_escrow_factory::partial_fill_test {
+    use std::bcs;
+    use std::hash;
+    use std::signer;
+    use std::string;
+    use std::vector;
+    use aptos_framework::account;
+    use aptos_framework::aptos_coin::{Self, AptosCoin};
+    use aptos_framework::coin;
+    use aptos_framework::timestamp;
+    use token_addr::my_token::{Self, SimpleToken};
+    use crosschain_escrow_factory::escrow_factory;
+    use crosschain_escrow_factory::escrow_core;
+    use crosschain_escrow_factory::merkle_validator;
+    use resolver_addr::resolver;
+
+    const ORDER_HASH: vector<u8> = x"0101010101010101010101010101010101010101010101010101010101010101";
+    const ORDER_MAKING_AMOUNT: u64 = 100;
+    const PARTS_AMOUNT: u64 = 2;
+
+    fun setup(framework: &signer, admin: &signer) {
+        let admin_addr = signer::address_of(admin);
+
+        timestamp::set_time_has_started_for_testing(framework);
+        timestamp::update_global_time_for_test_secs(1700000000);
+        account::create_account_for_test(admin_addr);
+
+        let (burn_cap, mint_cap) = aptos_coin::initialize_for_test(framework);
+        coin::destroy_burn_cap(burn_cap);
+        coin::destroy_mint_cap(mint_cap);
+
+        my_token::initialize(admin, string::utf8(b"Simple Token"), string::utf8(b"SIM"), 8, true);
+        my_token::register(admin);
+        my_token::mint(admin, admin_addr, ORDER_MAKING_AMOUNT);
+
+        escrow_factory::initialize<AptosCoin, SimpleToken>(admin, 3600, 7200, admin_addr, admin_addr);
+        resolver::initialize(admin, admin_addr);
+    }
+
+    fun secret_hash(idx: u64): vector<u8> {
+        hash::sha3_256(bcs::to_bytes(&idx))
+    }
+
+    /// Same as merkle_validator::calculate_leaf
+    fun leaf(idx: u64): vector<u8> {
+        let data = bcs::to_bytes(&idx);
+        vector::append(&mut data, secret_hash(idx));
+        hash::sha3_256(data)
+    }
+
+    /// Tree of the PARTS_AMOUNT + 1 secrets: (leaf 0, leaf 1), leaf 2
+    fun proof(idx: u64): vector<vector<u8>> {
+        if (idx == 0) {
+            vector[leaf(1), leaf(2)]
+        } else {
+            vector[merkle_validator::process_proof(&vector[leaf(1)], leaf(0))]
+        }
+    }
+
+    fun root(): vector<u8> {
+        merkle_validator::process_proof(&proof(0), leaf(0))
+    }
+
+    /// First 30 bytes of the root followed by the big-endian u16 parts amount
+    fun hashlock_info(): vector<u8> {
+        let info = vector::slice(&root(), 0, 30);
+        vector::push_back(&mut info, 0);
+        vector::push_back(&mut info, (PARTS_AMOUNT as u8));
+        info
+    }
+
+    fun fill(admin: &signer, making_amount: u64, remaining_making_amount: u64, idx: u64): address {
+        merkle_validator::validate_fill_proof(admin, ORDER_HASH, root(), PARTS_AMOUNT, proof(idx), idx, secret_hash(idx));
+
+        resolver::deploy_src_escrow_partial<SimpleToken, AptosCoin, SimpleToken>(
+            admin,
+            signer::address_of(admin),
+            ORDER_HASH,
+            @0x123,
+            @0x0,
+            string::utf8(b"SimpleToken"),
+            string::utf8(b"USDC"),
+            ORDER_MAKING_AMOUNT,
+            ORDER_MAKING_AMOUNT,
+            making_amount,
+            making_amount,
+            remaining_making_amount,
+            hashlock_info(),
+            1,
+            string::utf8(b"USDC"),
+            0,
+            10, 120, 121, 122, 10, 100, 101,
+            0, 0, 1700000000, 120, 0,
+            proof(idx),
+            idx,
+            secret_hash(idx)
+        );
+
+        let escrows = escrow_core::get_all_escrows(signer::address_of(admin));
+        *vector::borrow(&escrows, vector::length(&escrows) - 1)
+    }
+
+    #[test(framework = @aptos_framework, admin = @crosschain_escrow_factory)]
+    fun test_fill_in_two_parts(framework: &signer, admin: &signer) {
+        setup(framework, admin);
+
+        let first = fill(admin, 50, ORDER_MAKING_AMOUNT, 0);
+        let last = fill(admin, 50, 50, 2);
+
+        let first_immutables = escrow_core::get_escrow_immutables<SimpleToken>(first);
+        let last_immutables = escrow_core::get_escrow_immutables<SimpleToken>(last);
+
+        assert!(escrow_core::get_hashlock(&first_immutables) == secret_hash(0), 1);
+        assert!(escrow_core::get_amount(&first_immutables) == 50, 2);
+        assert!(escrow_core::get_hashlock(&last_immutables) == secret_hash(2), 3);
+        assert!(escrow_core::get_amount(&last_immutables) == 50, 4);
+        assert!(my_token::balance(signer::address_of(admin)) == 0, 5);
+    }
+
+    #[test(framework = @aptos_framework, admin = @crosschain_escrow_factory)]
+    #[expected_failure(abort_code = 0x10003, location = crosschain_escrow_factory::escrow_factory)]
+    fun test_reject_secret_of_another_part(framework: &signer, admin: &signer) {
+        setup(framework, admin);
+
+        fill(admin, 50, ORDER_MAKING_AMOUNT, 2);
+    }
+
+    #[test(framework = @aptos_framework, admin = @crosschain_escrow_factory)]
+    #[expected_failure(abort_code = 0x10001, location = crosschain_escrow_factory::merkle_validator)]
+    fun test_reject_proof_of_another_root(framework: &signer, admin: &signer) {
+        setup(framework, admin);
+
+        merkle_validator::validate_fill_proof(admin, ORDER_HASH, root(), PARTS_AMOUNT, proof(0), 0, secret_hash(1));
+    }
+}
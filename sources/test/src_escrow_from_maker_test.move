@@ -0,0 +1,87 @@
+#[test_only]
+module crosschain_escrow_factory::src_escrow_from_maker_test {
+    use std::signer;
+    use std::string;
+    use std::vector;
+    use aptos_framework::account;
+    use aptos_framework::aptos_coin::{Self, AptosCoin};
+    use aptos_framework::coin;
+    use aptos_framework::timestamp;
+    use token_addr::my_token::{Self, SimpleToken};
+    use crosschain_escrow_factory::escrow_factory;
+    use crosschain_escrow_factory::escrow_core;
+    use resolver_addr::resolver;
+
+    const HASHLOCK: vector<u8> = x"abababababababababababababababababababababababababababababababab";
+    const MAKING_AMOUNT: u64 = 100;
+
+    fun setup(framework: &signer, admin: &signer, maker: &signer) {
+        let admin_addr = signer::address_of(admin);
+
+        timestamp::set_time_has_started_for_testing(framework);
+        timestamp::update_global_time_for_test_secs(1700000000);
+        account::create_account_for_test(admin_addr);
+        account::create_account_for_test(signer::address_of(maker));
+
+        let (burn_cap, mint_cap) = aptos_coin::initialize_for_test(framework);
+        coin::destroy_burn_cap(burn_cap);
+        coin::destroy_mint_cap(mint_cap);
+
+        my_token::initialize(admin, string::utf8(b"Simple Token"), string::utf8(b"SIM"), 8, true);
+        my_token::register(maker);
+        my_token::mint(admin, signer::address_of(maker), MAKING_AMOUNT);
+
+        escrow_factory::initialize<AptosCoin, SimpleToken>(admin, 3600, 7200, admin_addr, admin_addr);
+        resolver::initialize(admin, admin_addr);
+    }
+
+    fun deploy(maker: &signer, caller: &signer, resolver_addr: address) {
+        resolver::deploy_src_escrow_from_maker<SimpleToken, AptosCoin, SimpleToken>(
+            maker,
+            caller,
+            resolver_addr,
+            x"0101010101010101010101010101010101010101010101010101010101010101",
+            @0x0,
+            string::utf8(b"SimpleToken"),
+            string::utf8(b"USDC"),
+            MAKING_AMOUNT,
+            MAKING_AMOUNT,
+            HASHLOCK,
+            1,
+            string::utf8(b"USDC"),
+            0,
+            10, 120, 121, 122, 10, 100, 101,
+            0, 0, 1700000000, 120, 0
+        );
+    }
+
+    #[test(framework = @aptos_framework, admin = @crosschain_escrow_factory, maker = @0x123)]
+    fun test_fund_escrow_from_maker(framework: &signer, admin: &signer, maker: &signer) {
+        setup(framework, admin, maker);
+
+        deploy(maker, admin, signer::address_of(admin));
+
+        let escrows = escrow_core::get_all_escrows(signer::address_of(admin));
+        let immutables = escrow_core::get_escrow_immutables<SimpleToken>(*vector::borrow(&escrows, 0));
+
+        assert!(escrow_core::get_maker(&immutables) == @0x123, 1);
+        assert!(escrow_core::get_taker(&immutables) == signer::address_of(admin), 2);
+        assert!(escrow_core::get_hashlock(&immutables) == HASHLOCK, 3);
+        assert!(escrow_core::get_amount(&immutables) == MAKING_AMOUNT, 4);
+        assert!(my_token::balance(@0x123) == 0, 5);
+    }
+
+    #[test(framework = @aptos_framework, admin = @crosschain_escrow_factory, maker = @0x123, other = @0x456)]
+    #[expected_failure(abort_code = 1, location = resolver_addr::resolver)]
+    fun test_reject_co_signer_other_than_resolver_owner(
+        framework: &signer,
+        admin: &signer,
+        maker: &signer,
+        other: &signer
+    ) {
+        setup(framework, admin, maker);
+        account::create_account_for_test(signer::address_of(other));
+
+        deploy(maker, other, signer::address_of(admin));
+    }
+}
@@ -0,0 +1,162 @@
+import {expect} from '@jest/globals'
+import {AccountAddress, createResourceAddress as sdkCreateResourceAddress} from '@aptos-labs/ts-sdk'
+import sha3 from 'js-sha3'
+import {uint8ArrayToHex} from '@1inch/byte-utils'
+import {
+    computeAddress,
+    computeDstAddress,
+    computeSrcAddress,
+    createResourceAddress,
+    getEscrowAddress,
+    hashImmutables,
+    IMPLEMENTATION_DST,
+    IMPLEMENTATION_SRC,
+    resourceAccountAddress,
+    validateAddress,
+    verifyAddressGeneration
+} from './aptos-create2'
+import {EscrowImmutables} from './aptos-types'
+
+// Addresses from exclude/create2_test.move
+const TEST_FACTORY_ADDRESS = '0x1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef'
+const ANOTHER_FACTORY_ADDRESS = '0xfedcba0987654321fedcba0987654321fedcba0987654321fedcba0987654321'
+
+// Move byte string literal b"..."
+const b = (s: string): Uint8Array => new TextEncoder().encode(s)
+
+describe('Aptos create2', () => {
+    it('should hash bcs(factory) || salt || bcs(u8 implementation type)', () => {
+        const preimage = TEST_FACTORY_ADDRESS + uint8ArrayToHex(b('bcs_test')).slice(2) + '01'
+
+        expect(computeAddress(TEST_FACTORY_ADDRESS, b('bcs_test'), IMPLEMENTATION_DST).toStringLong()).toBe(
+            '0x' + sha3.sha3_256(Buffer.from(preimage.slice(2), 'hex'))
+        )
+    })
+
+    it('should derive resource accounts like account::create_resource_address', () => {
+        for (const seed of [b(''), b('resource_test'), new Uint8Array(32).fill(7)]) {
+            expect(resourceAccountAddress(TEST_FACTORY_ADDRESS, seed)).toEqual(
+                sdkCreateResourceAddress(AccountAddress.from(TEST_FACTORY_ADDRESS), seed)
+            )
+        }
+    })
+
+    it('should be deterministic and depend on the implementation type', () => {
+        const salt = b('deterministic_test')
+
+        expect(computeSrcAddress(TEST_FACTORY_ADDRESS, salt)).toEqual(computeSrcAddress(TEST_FACTORY_ADDRESS, salt))
+        expect(computeSrcAddress(TEST_FACTORY_ADDRESS, salt)).not.toEqual(computeDstAddress(TEST_FACTORY_ADDRESS, salt))
+    })
+
+    it('should produce different addresses for different factories and salts', () => {
+        expect(computeSrcAddress(TEST_FACTORY_ADDRESS, b('factory_test'))).not.toEqual(
+            computeSrcAddress(ANOTHER_FACTORY_ADDRESS, b('factory_test'))
+        )
+        expect(computeSrcAddress(TEST_FACTORY_ADDRESS, b('collision_test_1'))).not.toEqual(
+            computeSrcAddress(TEST_FACTORY_ADDRESS, b('collision_test_2'))
+        )
+        expect(computeSrcAddress(TEST_FACTORY_ADDRESS, b(''))).not.toEqual(
+            computeSrcAddress(TEST_FACTORY_ADDRESS, b('non_empty'))
+        )
+    })
+
+    it('should validate addresses', () => {
+        const salt = b('validation_test')
+        const computed = computeAddress(TEST_FACTORY_ADDRESS, salt, IMPLEMENTATION_SRC)
+
+        expect(validateAddress(computed, TEST_FACTORY_ADDRESS, salt, IMPLEMENTATION_SRC)).toBe(true)
+        expect(validateAddress(computed, TEST_FACTORY_ADDRESS, salt, IMPLEMENTATION_DST)).toBe(false)
+        expect(validateAddress(computed, ANOTHER_FACTORY_ADDRESS, salt, IMPLEMENTATION_SRC)).toBe(false)
+        expect(validateAddress(computed, TEST_FACTORY_ADDRESS, b('wrong_salt'), IMPLEMENTATION_SRC)).toBe(false)
+
+        const immutablesHash = b('verify_test_hash_32_bytes_long!')
+        const fromHash = computeAddress(TEST_FACTORY_ADDRESS, immutablesHash, IMPLEMENTATION_SRC)
+
+        expect(verifyAddressGeneration(fromHash, TEST_FACTORY_ADDRESS, immutablesHash, IMPLEMENTATION_SRC)).toBe(true)
+        expect(verifyAddressGeneration(fromHash, TEST_FACTORY_ADDRESS, immutablesHash, IMPLEMENTATION_DST)).toBe(false)
+
+        // validate_address checks against compute_address, so not the addresses compute_src_address returns
+        expect(
+            validateAddress(
+                computeSrcAddress(TEST_FACTORY_ADDRESS, salt),
+                TEST_FACTORY_ADDRESS,
+                salt,
+                IMPLEMENTATION_SRC
+            )
+        ).toBe(false)
+    })
+
+    it('should compute src and dst addresses as resource accounts, not compute_address hashes', () => {
+        const salt = b('compute_vs_create')
+        const src = createResourceAddress(TEST_FACTORY_ADDRESS, salt, IMPLEMENTATION_SRC)
+        const seed = Buffer.from(TEST_FACTORY_ADDRESS.slice(2) + uint8ArrayToHex(salt).slice(2) + '00', 'hex')
+
+        expect(computeSrcAddress(TEST_FACTORY_ADDRESS, salt)).toEqual(src)
+        expect(src).toEqual(sdkCreateResourceAddress(AccountAddress.from(TEST_FACTORY_ADDRESS), seed))
+        expect(computeDstAddress(TEST_FACTORY_ADDRESS, salt)).toEqual(
+            createResourceAddress(TEST_FACTORY_ADDRESS, salt, IMPLEMENTATION_DST)
+        )
+        expect(src).not.toEqual(computeAddress(TEST_FACTORY_ADDRESS, salt, IMPLEMENTATION_SRC))
+        expect(src).not.toEqual(computeDstAddress(TEST_FACTORY_ADDRESS, salt))
+    })
+
+    describe('hashImmutables', () => {
+        const immutables: EscrowImmutables = {
+            orderHash: '0x0102',
+            hashlock: '0x0304',
+            maker: '0x1',
+            taker: TEST_FACTORY_ADDRESS,
+            tokenType: '0x1::aptos_coin::AptosCoin',
+            amount: 1000n,
+            safetyDeposit: 10n,
+            timelocks: {
+                deployedAt: 1_700_000_000n,
+                srcWithdrawalDelay: 10,
+                srcPublicWithdrawalDelay: 120,
+                srcCancellationDelay: 121,
+                srcPublicCancellationDelay: 122,
+                dstWithdrawalDelay: 10,
+                dstPublicWithdrawalDelay: 100,
+                dstCancellationDelay: 101
+            }
+        }
+
+        it('should hash the bcs layout of escrow_core::hash_immutables', () => {
+            const preimage = [
+                '0102', // order_hash, raw
+                '0304', // hashlock, raw
+                '00'.repeat(31) + '01', // maker
+                TEST_FACTORY_ADDRESS.slice(2), // taker
+                '1a' + Buffer.from('0x1::aptos_coin::AptosCoin').toString('hex'), // token_type
+                'e803000000000000', // amount
+                '0a00000000000000', // safety_deposit
+                '00f1536500000000', // deployed_at
+                '0a000000',
+                '78000000',
+                '79000000',
+                '7a000000',
+                '0a000000',
+                '64000000',
+                '65000000'
+            ].join('')
+
+            expect(uint8ArrayToHex(hashImmutables(immutables))).toBe('0x' + sha3.sha3_256(Buffer.from(preimage, 'hex')))
+        })
+
+        it('should change with every field', () => {
+            const base = uint8ArrayToHex(hashImmutables(immutables))
+
+            expect(uint8ArrayToHex(hashImmutables({...immutables, amount: 1001n}))).not.toBe(base)
+            expect(uint8ArrayToHex(hashImmutables({...immutables, tokenType: '0x1::coin::Other'}))).not.toBe(base)
+            expect(
+                uint8ArrayToHex(hashImmutables({...immutables, timelocks: {...immutables.timelocks, deployedAt: 1n}}))
+            ).not.toBe(base)
+        })
+
+        it('should predict the escrow resource account', () => {
+            expect(getEscrowAddress(TEST_FACTORY_ADDRESS, immutables)).toEqual(
+                sdkCreateResourceAddress(AccountAddress.from(TEST_FACTORY_ADDRESS), hashImmutables(immutables))
+            )
+        })
+    })
+})
@@ -0,0 +1,135 @@
+import {AccountAddress, AccountAddressInput, Hex, HexInput, Serializer} from '@aptos-labs/ts-sdk'
+import sha3 from 'js-sha3'
+import {EscrowImmutables} from './aptos-types'
+
+// Port of create2.move and escrow_core::hash_immutables
+
+export const IMPLEMENTATION_SRC = 0
+
+export const IMPLEMENTATION_DST = 1
+
+// Scheme byte account::create_resource_address appends to the seed
+const DERIVE_RESOURCE_ACCOUNT_SCHEME = 0xff
+
+/**
+ * create2::compute_address: sha3_256(bcs(factory) || salt || bcs(implementation_type))
+ */
+export function computeAddress(
+    factoryAddress: AccountAddressInput,
+    salt: HexInput,
+    implementationType: number
+): AccountAddress {
+    return new AccountAddress(sha3256(seedBytes(factoryAddress, salt, implementationType)))
+}
+
+/**
+ * create2::compute_src_address: the resource account, not the compute_address hash
+ */
+export function computeSrcAddress(factoryAddress: AccountAddressInput, salt: HexInput): AccountAddress {
+    return createResourceAddress(factoryAddress, salt, IMPLEMENTATION_SRC)
+}
+
+/**
+ * create2::compute_dst_address: the resource account, not the compute_address hash
+ */
+export function computeDstAddress(factoryAddress: AccountAddressInput, salt: HexInput): AccountAddress {
+    return createResourceAddress(factoryAddress, salt, IMPLEMENTATION_DST)
+}
+
+/**
+ * create2::create_resource_address: resource account of `factoryAddress`
+ * seeded with bcs(factory) || salt || bcs(implementation_type)
+ */
+export function createResourceAddress(
+    factoryAddress: AccountAddressInput,
+    salt: HexInput,
+    implementationType: number
+): AccountAddress {
+    return resourceAccountAddress(factoryAddress, seedBytes(factoryAddress, salt, implementationType))
+}
+
+/**
+ * account::create_resource_address: sha3_256(bcs(source) || seed || 0xFF)
+ */
+export function resourceAccountAddress(source: AccountAddressInput, seed: HexInput): AccountAddress {
+    const serializer = new Serializer()
+    serializer.serialize(AccountAddress.from(source))
+    serializer.serializeFixedBytes(Hex.fromHexInput(seed).toUint8Array())
+    serializer.serializeU8(DERIVE_RESOURCE_ACCOUNT_SCHEME)
+
+    return new AccountAddress(sha3256(serializer.toUint8Array()))
+}
+
+/**
+ * create2::validate_address
+ */
+export function validateAddress(
+    addressToValidate: AccountAddressInput,
+    factoryAddress: AccountAddressInput,
+    salt: HexInput,
+    implementationType: number
+): boolean {
+    return computeAddress(factoryAddress, salt, implementationType).equals(AccountAddress.from(addressToValidate))
+}
+
+/**
+ * create2::verify_address_generation, the salt is the immutables hash itself
+ */
+export function verifyAddressGeneration(
+    addressToVerify: AccountAddressInput,
+    factoryAddress: AccountAddressInput,
+    immutablesHash: HexInput,
+    implementationType: number
+): boolean {
+    return validateAddress(addressToVerify, factoryAddress, immutablesHash, implementationType)
+}
+
+/**
+ * escrow_core::hash_immutables. order_hash and hashlock are appended raw, without a length prefix
+ */
+export function hashImmutables(immutables: EscrowImmutables): Uint8Array {
+    const {timelocks} = immutables
+    const serializer = new Serializer()
+
+    serializer.serializeFixedBytes(Hex.fromHexInput(immutables.orderHash).toUint8Array())
+    serializer.serializeFixedBytes(Hex.fromHexInput(immutables.hashlock).toUint8Array())
+    serializer.serialize(AccountAddress.from(immutables.maker))
+    serializer.serialize(AccountAddress.from(immutables.taker))
+    serializer.serializeStr(immutables.tokenType)
+    serializer.serializeU64(immutables.amount)
+    serializer.serializeU64(immutables.safetyDeposit)
+    serializer.serializeU64(timelocks.deployedAt)
+    serializer.serializeU32(timelocks.srcWithdrawalDelay)
+    serializer.serializeU32(timelocks.srcPublicWithdrawalDelay)
+    serializer.serializeU32(timelocks.srcCancellationDelay)
+    serializer.serializeU32(timelocks.srcPublicCancellationDelay)
+    serializer.serializeU32(timelocks.dstWithdrawalDelay)
+    serializer.serializeU32(timelocks.dstPublicWithdrawalDelay)
+    serializer.serializeU32(timelocks.dstCancellationDelay)
+
+    return sha3256(serializer.toUint8Array())
+}
+
+/**
+ * Address escrow_core::create_escrow deploys the escrow to: the resource account of the calling
+ * resolver seeded with the immutables hash. The create2 address it computes alongside is not used.
+ *
+ * @param deployer account that submitted deploy_src_escrow/deploy_dst_escrow
+ * @param immutables with `timelocks.deployedAt` set to the timestamp of the deploying block
+ */
+export function getEscrowAddress(deployer: AccountAddressInput, immutables: EscrowImmutables): AccountAddress {
+    return resourceAccountAddress(deployer, hashImmutables(immutables))
+}
+
+function seedBytes(factoryAddress: AccountAddressInput, salt: HexInput, implementationType: number): Uint8Array {
+    const serializer = new Serializer()
+    serializer.serialize(AccountAddress.from(factoryAddress))
+    serializer.serializeFixedBytes(Hex.fromHexInput(salt).toUint8Array())
+    serializer.serializeU8(implementationType)
+
+    return serializer.toUint8Array()
+}
+
+function sha3256(data: Uint8Array): Uint8Array {
+    return new Uint8Array(sha3.sha3_256.arrayBuffer(data))
+}
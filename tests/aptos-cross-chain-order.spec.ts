@@ -0,0 +1,128 @@
+import {expect} from '@jest/globals'
+import {Account} from '@aptos-labs/ts-sdk'
+import {AptosCrossChainOrder, validateEscrowOrder} from './aptos-cross-chain-order'
+import {signAptosOrder, verifyAptosOrderSignature} from './aptos-order-signing'
+
+const PACKAGE = '0xdef391b1c8951bf801f67a005f9eba70a5aae6d02eba6bb4889a88288ea806a2'
+const RESOLVER = '0x' + '12'.repeat(32)
+
+describe('AptosCrossChainOrder', () => {
+    const maker = Account.generate()
+    const order = AptosCrossChainOrder.new(
+        PACKAGE,
+        {
+            maker: maker.accountAddress.toString(),
+            receiver: '0x000000000000000000000000f39fd6e51aad88f6f4ce6ab8827279cfffb92266',
+            makerAsset: '0x1::aptos_coin::AptosCoin',
+            takerAsset: '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48',
+            makingAmount: 100_000_000n,
+            takingAmount: 99_000_000n,
+            salt: 7n
+        },
+        {
+            hashLock: '0x' + 'ab'.repeat(32),
+            dstChainId: 1n,
+            srcSafetyDeposit: 1000n,
+            dstSafetyDeposit: 2000n,
+            timeLocks: {
+                srcWithdrawalDelay: 10,
+                srcPublicWithdrawalDelay: 120,
+                srcCancellationDelay: 121,
+                srcPublicCancellationDelay: 122,
+                dstWithdrawalDelay: 10,
+                dstPublicWithdrawalDelay: 100,
+                dstCancellationDelay: 101
+            }
+        },
+        {
+            auction: {
+                gasBumpEstimate: 0,
+                gasPriceEstimate: 0,
+                startTime: 1_700_000_000,
+                duration: 120,
+                initialRateBump: 0,
+                auctionPoints: []
+            },
+            whitelist: [{address: RESOLVER, allowFrom: 1_700_000_010n}]
+        },
+        {nonce: 3n}
+    )
+
+    it('should hash and sign the built order', () => {
+        const signature = signAptosOrder(maker, order.build(), order.getDomain(2))
+        const restored = AptosCrossChainOrder.fromData(order.build(), PACKAGE)
+
+        expect(restored.getOrderHash(2)).toBe(order.getOrderHash(2))
+        expect(order.getOrderHash(1)).not.toBe(order.getOrderHash(2))
+        expect(verifyAptosOrderSignature(restored.build(), restored.getDomain(2), signature)).toBe(true)
+    })
+
+    it('should round trip through JSON', () => {
+        const json = JSON.parse(JSON.stringify(order))
+
+        expect(json.whitelist).toEqual([{address: RESOLVER, allowFrom: '1700000010'}])
+        expect(AptosCrossChainOrder.fromJSON(json, PACKAGE).build()).toEqual(order.build())
+    })
+
+    it('should expose the escrow parameters as the Sdk order does', () => {
+        expect(order.escrowExtension).toMatchObject({
+            srcSafetyDeposit: 1000n,
+            dstSafetyDeposit: 2000n,
+            dstChainId: 1n,
+            dstToken: order.takerAsset
+        })
+        expect(order.deadline).toBe(1_700_000_132n)
+        expect(order.isExpiredAt(1_700_000_132n)).toBe(false)
+        expect(order.isExpiredAt(1_700_000_133n)).toBe(true)
+        expect(order.canExecuteAt(RESOLVER, 1_700_000_009n)).toBe(false)
+        expect(order.canExecuteAt(RESOLVER, 1_700_000_010n)).toBe(true)
+        expect(order.canExecuteAt(maker.accountAddress.toString(), 1_700_000_010n)).toBe(false)
+    })
+
+    it('should build the immutables and arguments of the source escrow', () => {
+        const immutables = order.toSrcImmutables(2, RESOLVER, order.makingAmount)
+
+        expect(immutables).toMatchObject({
+            orderHash: order.getOrderHash(2),
+            hashlock: order.escrowExtension.hashLockInfo,
+            maker: order.maker,
+            taker: RESOLVER,
+            tokenType: order.makerAsset,
+            amount: order.makingAmount,
+            safetyDeposit: 1000n
+        })
+        expect(immutables.timelocks.deployedAt).toBe(0n)
+        expect(order.toOrderData(2).orderHash).toBe(order.getOrderHash(2))
+        expect(order.toSrcEscrowArgs({proof: [], idx: 0n, secretHash: '0x01'}).deposits).toBe((1000n << 64n) | 2000n)
+
+        expect(() => order.toSrcImmutables(2, RESOLVER, 1n)).toThrow('for partial fill')
+        expect(() => order.getMultipleFillIdx(1n)).toThrow('Multiple fills disabled')
+    })
+
+    it('should only take orders resolver::deploy_src_escrow can fill', () => {
+        const data = order.build()
+        const points = {...data.auctionConfig, auctionPoints: [{rateBump: 500, timeDelta: 60}]}
+
+        expect(() => validateEscrowOrder({...data, takingAmount: (1n << 64n) - 1n})).not.toThrow()
+        expect(() => validateEscrowOrder({...data, takingAmount: 1n << 64n})).toThrow('does not fit the u64')
+        expect(() => validateEscrowOrder({...data, auctionConfig: points})).toThrow('does not accept auction points')
+
+        const newOrder = (takingAmount: bigint, auction = data.auctionConfig): AptosCrossChainOrder =>
+            AptosCrossChainOrder.new(
+                PACKAGE,
+                {...order.toOrderData(2), takingAmount},
+                {
+                    hashLock: data.hashlockInfo,
+                    dstChainId: data.dstChainId,
+                    srcSafetyDeposit: 1000n,
+                    dstSafetyDeposit: 2000n,
+                    timeLocks: data.timelocks
+                },
+                {auction, whitelist: data.whitelist}
+            )
+
+        expect(newOrder(99_000_000n).takingAmount).toBe(99_000_000n)
+        expect(() => newOrder(1n << 64n)).toThrow('does not fit the u64')
+        expect(() => newOrder(99_000_000n, points)).toThrow('does not accept auction points')
+    })
+})
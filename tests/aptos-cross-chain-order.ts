@@ -0,0 +1,433 @@
+import {AccountAddress} from '@aptos-labs/ts-sdk'
+import {calculateRateBump, calculateTakingAmount, getAuctionFinishTime} from './aptos-dutch-auction'
+import {AptosMultiFillHashLock, getSecretIndex} from './aptos-multi-fill-hash-lock'
+import {
+    AptosCrossChainOrderData,
+    AptosOrderDomain,
+    getAptosOrderHash,
+    getAptosOrderMessage
+} from './aptos-order-signing'
+import {validateTimelocks} from './aptos-timelocks'
+import {AuctionConfig, EscrowImmutables, OrderData, SrcEscrowArgs, TakerData, TimelockDelays} from './aptos-types'
+import {SafetyDeposits} from './safety-deposits'
+
+// Default of Sdk.CrossChainOrder: the order expires 12s after its auction ends
+const DEFAULT_ORDER_EXPIRATION_DELAY = 12n
+
+const UINT_64_MAX = (1n << 64n) - 1n
+
+export type AptosCrossChainOrderInfo = {
+    /**
+     * Source chain coin type
+     */
+    makerAsset: string
+    /**
+     * Destination chain asset
+     */
+    takerAsset: string
+    /**
+     * Source chain amount
+     */
+    makingAmount: bigint
+    /**
+     * Destination chain min amount
+     */
+    takingAmount: bigint
+    maker: string
+    salt?: bigint
+    /**
+     * Destination chain receiver address, an EVM address is left-padded to 32 bytes
+     *
+     * If not set, then `maker` used
+     */
+    receiver?: string
+}
+
+export type AptosEscrowParams = {
+    /**
+     * Secret hash, or AptosMultiFillHashLock.hashlockInfo for multiple fills
+     */
+    hashLock: string
+    dstChainId: bigint
+    srcSafetyDeposit: bigint
+    dstSafetyDeposit: bigint
+    timeLocks: TimelockDelays
+}
+
+export type AptosOrderDetails = {
+    auction: AuctionConfig
+    whitelist: AptosCrossChainOrderData['whitelist']
+}
+
+export type AptosOrderExtra = {
+    nonce?: bigint
+    /**
+     * Order will expire in `orderExpirationDelay` after auction ends
+     * Default 12s
+     */
+    orderExpirationDelay?: bigint
+    allowPartialFills?: boolean
+    allowMultipleFills?: boolean
+}
+
+/**
+ * Escrow parameters of the order, as Sdk.CrossChainOrder.escrowExtension has them
+ */
+export type AptosEscrowExtension = {
+    hashLockInfo: string
+    dstChainId: bigint
+    dstToken: string
+    srcSafetyDeposit: bigint
+    dstSafetyDeposit: bigint
+    timeLocks: TimelockDelays
+}
+
+/**
+ * AptosCrossChainOrderData as plain JSON, integers above u32 as decimal strings
+ */
+export type AptosCrossChainOrderJSON = Omit<
+    AptosCrossChainOrderData,
+    'salt' | 'makingAmount' | 'takingAmount' | 'dstChainId' | 'deposits' | 'whitelist' | 'nonce' | 'expiry'
+> & {
+    salt: string
+    makingAmount: string
+    takingAmount: string
+    dstChainId: string
+    deposits: string
+    whitelist: {address: string; allowFrom: string}[]
+    nonce: string
+    expiry: string
+}
+
+/**
+ * Cross-chain order of an Aptos maker, with the API of Sdk.CrossChainOrder where the two chains allow it. The
+ * escrow parameters are fields of the signed order instead of an extension, see aptos-order-signing for its layout.
+ * Unlike the Sdk, partial and multiple fills are disabled unless allowed in `extra`
+ */
+export class AptosCrossChainOrder {
+    private constructor(
+        private readonly inner: AptosCrossChainOrderData,
+        /**
+         * Package of the escrow modules, part of the signed domain as the escrow factory is on EVM
+         */
+        public readonly verifyingPackage: string
+    ) {}
+
+    get dstChainId(): bigint {
+        return this.inner.dstChainId
+    }
+
+    get escrowExtension(): AptosEscrowExtension {
+        const {hashlockInfo, dstChainId, takerAsset, deposits, timelocks} = this.inner
+        const {src, dst} = SafetyDeposits.unpack(deposits)
+
+        return {
+            hashLockInfo: hashlockInfo,
+            dstChainId,
+            dstToken: takerAsset,
+            srcSafetyDeposit: src,
+            dstSafetyDeposit: dst,
+            timeLocks: timelocks
+        }
+    }
+
+    get maker(): string {
+        return this.inner.maker
+    }
+
+    get takerAsset(): string {
+        return this.inner.takerAsset
+    }
+
+    get makerAsset(): string {
+        return this.inner.makerAsset
+    }
+
+    get takingAmount(): bigint {
+        return this.inner.takingAmount
+    }
+
+    get makingAmount(): bigint {
+        return this.inner.makingAmount
+    }
+
+    get salt(): bigint {
+        return this.inner.salt
+    }
+
+    get receiver(): string {
+        return this.inner.receiver
+    }
+
+    /**
+     * Timestamp in sec
+     */
+    get deadline(): bigint {
+        return this.inner.expiry
+    }
+
+    /**
+     * Timestamp in sec
+     */
+    get auctionStartTime(): bigint {
+        return BigInt(this.inner.auctionConfig.startTime)
+    }
+
+    /**
+     * Timestamp in sec
+     */
+    get auctionEndTime(): bigint {
+        return getAuctionFinishTime(this.inner.auctionConfig)
+    }
+
+    get auctionConfig(): AuctionConfig {
+        return this.inner.auctionConfig
+    }
+
+    get nonce(): bigint {
+        return this.inner.nonce
+    }
+
+    get partialFillAllowed(): boolean {
+        return this.inner.allowPartialFills
+    }
+
+    get multipleFillsAllowed(): boolean {
+        return this.inner.allowMultipleFills
+    }
+
+    /**
+     * Create new AptosCrossChainOrder
+     *
+     * @throws if the timelocks are out of order, a safety deposit or the taking amount does not fit u64, or the
+     * auction has points, see validateEscrowOrder
+     */
+    static new(
+        verifyingPackage: string,
+        orderInfo: AptosCrossChainOrderInfo,
+        escrowParams: AptosEscrowParams,
+        details: AptosOrderDetails,
+        extra: AptosOrderExtra = {}
+    ): AptosCrossChainOrder {
+        validateTimelocks(escrowParams.timeLocks)
+        validateEscrowOrder({takingAmount: orderInfo.takingAmount, auctionConfig: details.auction})
+
+        const deposits = SafetyDeposits.new(escrowParams.srcSafetyDeposit, escrowParams.dstSafetyDeposit)
+        const expirationDelay = extra.orderExpirationDelay ?? DEFAULT_ORDER_EXPIRATION_DELAY
+
+        return new AptosCrossChainOrder(
+            {
+                salt: orderInfo.salt ?? randomU64(),
+                maker: orderInfo.maker,
+                receiver: orderInfo.receiver ?? orderInfo.maker,
+                makerAsset: orderInfo.makerAsset,
+                takerAsset: orderInfo.takerAsset,
+                makingAmount: orderInfo.makingAmount,
+                takingAmount: orderInfo.takingAmount,
+                hashlockInfo: escrowParams.hashLock,
+                dstChainId: escrowParams.dstChainId,
+                deposits: deposits.pack(),
+                timelocks: escrowParams.timeLocks,
+                auctionConfig: details.auction,
+                whitelist: details.whitelist,
+                nonce: extra.nonce ?? 0n,
+                expiry: getAuctionFinishTime(details.auction) + expirationDelay,
+                allowPartialFills: extra.allowPartialFills ?? false,
+                allowMultipleFills: extra.allowMultipleFills ?? false
+            },
+            verifyingPackage
+        )
+    }
+
+    /**
+     * Create AptosCrossChainOrder from the signed order data
+     */
+    static fromData(data: AptosCrossChainOrderData, verifyingPackage: string): AptosCrossChainOrder {
+        return new AptosCrossChainOrder(data, verifyingPackage)
+    }
+
+    static fromJSON(json: AptosCrossChainOrderJSON, verifyingPackage: string): AptosCrossChainOrder {
+        return new AptosCrossChainOrder(
+            {
+                ...json,
+                salt: BigInt(json.salt),
+                makingAmount: BigInt(json.makingAmount),
+                takingAmount: BigInt(json.takingAmount),
+                dstChainId: BigInt(json.dstChainId),
+                deposits: BigInt(json.deposits),
+                whitelist: json.whitelist.map((w) => ({address: w.address, allowFrom: BigInt(w.allowFrom)})),
+                nonce: BigInt(json.nonce),
+                expiry: BigInt(json.expiry)
+            },
+            verifyingPackage
+        )
+    }
+
+    public build(): AptosCrossChainOrderData {
+        return this.inner
+    }
+
+    public toJSON(): AptosCrossChainOrderJSON {
+        const {salt, makingAmount, takingAmount, dstChainId, deposits, whitelist, nonce, expiry} = this.inner
+
+        return {
+            ...this.inner,
+            salt: salt.toString(),
+            makingAmount: makingAmount.toString(),
+            takingAmount: takingAmount.toString(),
+            dstChainId: dstChainId.toString(),
+            deposits: deposits.toString(),
+            whitelist: whitelist.map((w) => ({address: w.address, allowFrom: w.allowFrom.toString()})),
+            nonce: nonce.toString(),
+            expiry: expiry.toString()
+        }
+    }
+
+    public getDomain(srcChainId: number): AptosOrderDomain {
+        return {chainId: srcChainId, verifyingPackage: this.verifyingPackage}
+    }
+
+    public getOrderHash(srcChainId: number): string {
+        return getAptosOrderHash(this.inner, this.getDomain(srcChainId))
+    }
+
+    /**
+     * Bytes the maker signs, the counterpart of Sdk.CrossChainOrder.getTypedData
+     */
+    public getOrderMessage(srcChainId: number): Uint8Array {
+        return getAptosOrderMessage(this.inner, this.getDomain(srcChainId))
+    }
+
+    /**
+     * Calculates required taking amount for passed `makingAmount` at time `time`
+     *
+     * @param makingAmount maker swap amount
+     * @param time execution time in sec
+     * @param gasPrice gas price on the destination chain, in the units of the auction gasPriceEstimate
+     */
+    public calcTakingAmount(makingAmount: bigint, time: bigint, gasPrice = 0n): bigint {
+        const rateBump = calculateRateBump(this.inner.auctionConfig, gasPrice, time)
+
+        return calculateTakingAmount(this.makingAmount, this.takingAmount, makingAmount, rateBump)
+    }
+
+    /**
+     * Check whether address allowed to execute order at the given time
+     *
+     * @param executor address of executor
+     * @param executionTime timestamp in sec at which order planning to execute
+     */
+    public canExecuteAt(executor: string, executionTime: bigint): boolean {
+        const {whitelist} = this.inner
+
+        if (whitelist.length === 0) {
+            return true
+        }
+
+        const address = AccountAddress.from(executor)
+
+        return whitelist.some((w) => AccountAddress.from(w.address).equals(address) && executionTime >= w.allowFrom)
+    }
+
+    /**
+     * Check is order expired at a given time
+     *
+     * @param time timestamp in seconds
+     */
+    public isExpiredAt(time: bigint): boolean {
+        return time > this.deadline
+    }
+
+    /**
+     * Immutables of the source escrow, `timelocks.deployedAt` is set on chain when it is created
+     *
+     * @param srcChainId
+     * @param taker account deploying the escrow
+     * @param amount making amount of the fill
+     * @param hashLock secret hash of the fill for multiple fills
+     */
+    public toSrcImmutables(
+        srcChainId: number,
+        taker: string,
+        amount: bigint,
+        hashLock = this.inner.hashlockInfo
+    ): EscrowImmutables {
+        const isPartialFill = amount !== this.makingAmount
+        const isLeafHashLock = hashLock !== this.inner.hashlockInfo
+
+        if (isPartialFill && !isLeafHashLock) {
+            throw new Error('Provide secret hash of the fill as HashLock for partial fill')
+        }
+
+        return {
+            orderHash: this.getOrderHash(srcChainId),
+            hashlock: hashLock,
+            maker: this.maker,
+            taker,
+            tokenType: this.makerAsset,
+            amount,
+            safetyDeposit: this.escrowExtension.srcSafetyDeposit,
+            timelocks: {...this.inner.timelocks, deployedAt: 0n}
+        }
+    }
+
+    public getMultipleFillIdx(fillAmount: bigint, remainingAmount = this.makingAmount): number {
+        if (!this.multipleFillsAllowed) {
+            throw new Error('Multiple fills disabled for order')
+        }
+
+        const partsCount = AptosMultiFillHashLock.getPartsCount(this.inner.hashlockInfo)
+
+        return getSecretIndex(fillAmount, remainingAmount, this.makingAmount, partsCount)
+    }
+
+    /**
+     * Order as resolver::deploy_src_escrow takes it
+     */
+    public toOrderData(srcChainId: number): OrderData {
+        const {maker, receiver, makerAsset, takerAsset, makingAmount, takingAmount} = this.inner
+
+        return {
+            orderHash: this.getOrderHash(srcChainId),
+            maker,
+            receiver,
+            makerAsset,
+            takerAsset,
+            makingAmount,
+            takingAmount
+        }
+    }
+
+    /**
+     * Escrow arguments of resolver::deploy_src_escrow
+     *
+     * @param takerData proof of the secret of the fill, or the secret hash with an empty proof for a single fill
+     */
+    public toSrcEscrowArgs(takerData: TakerData): SrcEscrowArgs {
+        const {hashlockInfo, dstChainId, takerAsset, deposits, timelocks, auctionConfig} = this.inner
+
+        return {hashlockInfo, dstChainId, dstToken: takerAsset, deposits, timelocks, auctionConfig, takerData}
+    }
+}
+
+/**
+ * The signed order holds a u256 taking amount and a piecewise auction, as Sdk.CrossChainOrder does, but
+ * resolver::deploy_src_escrow takes a u64 taking amount and a linear auction only
+ *
+ * @throws if the order can not be filled into an Aptos source escrow
+ */
+export function validateEscrowOrder(order: Pick<AptosCrossChainOrderData, 'takingAmount' | 'auctionConfig'>): void {
+    if (order.takingAmount < 0n || order.takingAmount > UINT_64_MAX) {
+        throw new Error(`Taking amount ${order.takingAmount} does not fit the u64 of resolver::deploy_src_escrow`)
+    }
+
+    if (order.auctionConfig.auctionPoints.length) {
+        throw new Error('resolver::deploy_src_escrow does not accept auction points')
+    }
+}
+
+function randomU64(): bigint {
+    const bytes = crypto.getRandomValues(new Uint8Array(8))
+
+    return new DataView(bytes.buffer).getBigUint64(0)
+}
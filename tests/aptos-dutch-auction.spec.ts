@@ -0,0 +1,152 @@
+import {expect} from '@jest/globals'
+import Sdk from '@1inch/cross-chain-sdk'
+import {
+    AUCTION_ACTIVE,
+    AUCTION_FINISHED,
+    AUCTION_NOT_STARTED,
+    calculateGasBump,
+    calculateMakingAmount,
+    calculateRateBump,
+    calculateTakingAmount,
+    fromSdkAuctionDetails,
+    getAuctionFinishTime,
+    getAuctionPhase,
+    getAuctionProgress,
+    getPriceCurve,
+    validateAuctionPoints
+} from './aptos-dutch-auction'
+import {AuctionConfig, AuctionPoint} from './aptos-types'
+
+// Vectors from exclude/dutch_auction_test.move
+const TEST_BASE_TIME = 1000000n
+
+const config = (
+    gasBumpEstimate: number,
+    gasPriceEstimate: number,
+    duration: number,
+    initialRateBump: number,
+    auctionPoints: AuctionPoint[] = [],
+    startTime = Number(TEST_BASE_TIME)
+): AuctionConfig => ({gasBumpEstimate, gasPriceEstimate, startTime, duration, initialRateBump, auctionPoints})
+
+describe('Aptos dutch auction', () => {
+    it('should subtract the gas bump from the initial rate bump before the auction starts', () => {
+        const auction = config(2000000, 1000000, 300, 5000)
+
+        expect(calculateGasBump(auction, 2000000n)).toBe(4n)
+        expect(calculateRateBump(auction, 2000000n, TEST_BASE_TIME - 100n)).toBe(4996n)
+    })
+
+    it('should ignore gas when an estimate is zero', () => {
+        expect(calculateRateBump(config(0, 0, 300, 5000), 2000000n, TEST_BASE_TIME)).toBe(5000n)
+        expect(calculateRateBump(config(100000, 2000000, 300, 5000), 2000000n, TEST_BASE_TIME)).toBe(5000n)
+    })
+
+    it('should interpolate between auction points', () => {
+        const auction = config(0, 1000000, 240, 10000, [
+            {rateBump: 8000, timeDelta: 60},
+            {rateBump: 5000, timeDelta: 60},
+            {rateBump: 2000, timeDelta: 60}
+        ])
+
+        expect(calculateRateBump(auction, 1000000n, TEST_BASE_TIME)).toBe(10000n)
+        expect(calculateRateBump(auction, 1000000n, TEST_BASE_TIME + 30n)).toBe(9000n)
+        expect(calculateRateBump(auction, 1000000n, TEST_BASE_TIME + 90n)).toBe(6500n)
+        expect(calculateRateBump(auction, 1000000n, TEST_BASE_TIME + 300n)).toBe(0n)
+    })
+
+    it('should follow a complex piecewise curve', () => {
+        const auction = config(0, 1000000, 360, 15000, [
+            {rateBump: 12000, timeDelta: 30},
+            {rateBump: 8000, timeDelta: 60},
+            {rateBump: 6000, timeDelta: 30},
+            {rateBump: 3000, timeDelta: 60},
+            {rateBump: 1000, timeDelta: 120}
+        ])
+
+        expect(calculateRateBump(auction, 1000000n, TEST_BASE_TIME)).toBe(15000n)
+        expect(calculateRateBump(auction, 1000000n, TEST_BASE_TIME + 15n)).toBe(13500n)
+        expect(calculateRateBump(auction, 1000000n, TEST_BASE_TIME + 30n)).toBe(12000n)
+        expect(calculateRateBump(auction, 1000000n, TEST_BASE_TIME + 60n)).toBe(10000n)
+        // After the last point the bump goes down to 0 at the end of the auction
+        expect(calculateRateBump(auction, 1000000n, TEST_BASE_TIME + 330n)).toBe(500n)
+        expect(calculateRateBump(auction, 1000000n, TEST_BASE_TIME + 400n)).toBe(0n)
+    })
+
+    it('should drop to the next point right after an immediate jump', () => {
+        const auction = config(0, 1000000, 10, 10000, [{rateBump: 0, timeDelta: 1}])
+
+        expect(calculateRateBump(auction, 1000000n, TEST_BASE_TIME)).toBe(10000n)
+        expect(calculateRateBump(auction, 1000000n, TEST_BASE_TIME + 2n)).toBe(0n)
+    })
+
+    it('should finish a zero duration auction right after it starts', () => {
+        const auction = config(0, 1000000, 0, 5000)
+
+        expect(calculateRateBump(auction, 1000000n, TEST_BASE_TIME)).toBe(5000n)
+        expect(calculateRateBump(auction, 1000000n, TEST_BASE_TIME + 1n)).toBe(0n)
+        expect(getAuctionPhase(auction, TEST_BASE_TIME + 1n)).toBe(AUCTION_FINISHED)
+        expect(getAuctionProgress(auction, TEST_BASE_TIME + 1n)).toBe(100n)
+    })
+
+    it('should round making amounts down and taking amounts up', () => {
+        expect(calculateMakingAmount(100_000_000n, 1000_000_000n, 500_000_000n, 5000n)).toBe(49_975_012n)
+        expect(calculateTakingAmount(100_000_000n, 1000_000_000n, 50_000_000n, 5000n)).toBe(500_250_000n)
+        expect(calculateMakingAmount(1000n, 2000n, 1000n, 100n)).toBe(499n)
+        expect(calculateTakingAmount(1000n, 2000n, 500n, 100n)).toBe(1001n)
+    })
+
+    it('should throw where Move aborts on u64 overflow', () => {
+        expect(() => calculateMakingAmount(2n ** 63n, 1n, 4n, 0n)).toThrow('u64')
+        expect(() => calculateGasBump(config(1000, 1, 300, 0), 2n ** 64n)).toThrow('u64')
+    })
+
+    it('should report phases and progress', () => {
+        const auction = config(1000, 2000000, 1000, 5000)
+
+        expect(getAuctionFinishTime(auction)).toBe(TEST_BASE_TIME + 1000n)
+        expect(getAuctionPhase(auction, TEST_BASE_TIME - 100n)).toBe(AUCTION_NOT_STARTED)
+        expect(getAuctionPhase(auction, TEST_BASE_TIME + 150n)).toBe(AUCTION_ACTIVE)
+        expect(getAuctionPhase(auction, TEST_BASE_TIME + 1000n)).toBe(AUCTION_FINISHED)
+        expect([100n, 250n, 750n, 999n].map((t) => getAuctionProgress(auction, TEST_BASE_TIME + t))).toEqual([
+            10n,
+            25n,
+            75n,
+            99n
+        ])
+    })
+
+    it('should price the whole auction', () => {
+        const auction = config(0, 1000000, 240, 10000, [{rateBump: 8000, timeDelta: 60}])
+        const curve = getPriceCurve(auction, {makingAmount: 100_000_000n, takingAmount: 1000_000_000n}, 1000000n, 50n)
+
+        expect(curve.map((p) => p.timestamp - TEST_BASE_TIME)).toEqual([0n, 50n, 100n, 150n, 200n, 240n])
+        expect(curve.map((p) => p.rateBump)).toEqual([10000n, 8334n, 6223n, 4000n, 1778n, 0n])
+        expect(curve[0].takingAmount).toBe(1001_000_000n)
+        expect(curve[5]).toMatchObject({makingAmount: 100_000_000n, takingAmount: 1000_000_000n})
+    })
+
+    it('should reject a zero time delta after the first point', () => {
+        expect(() => validateAuctionPoints([{rateBump: 5000, timeDelta: 0}])).not.toThrow()
+        expect(() =>
+            validateAuctionPoints([
+                {rateBump: 5000, timeDelta: 30},
+                {rateBump: 3000, timeDelta: 0}
+            ])
+        ).toThrow('Point 1 has a zero time delta')
+    })
+
+    it('should convert the auction signed on EVM', () => {
+        const details = new Sdk.AuctionDetails({
+            startTime: TEST_BASE_TIME,
+            duration: 240n,
+            initialRateBump: 10000,
+            points: [{coefficient: 8000, delay: 60}],
+            gasCost: {gasBumpEstimate: 1000n, gasPriceEstimate: 2000000n}
+        })
+
+        expect(fromSdkAuctionDetails(details)).toEqual(
+            config(1000, 2000000, 240, 10000, [{rateBump: 8000, timeDelta: 60}])
+        )
+    })
+})
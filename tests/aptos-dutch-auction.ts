@@ -0,0 +1,268 @@
+import Sdk from '@1inch/cross-chain-sdk'
+import {UINT_32_MAX} from '@1inch/byte-utils'
+import assert from 'node:assert'
+import {AuctionConfig, AuctionPoint, OrderData} from './aptos-types'
+
+// Port of dutch_auction.move. u64 arithmetic is done on bigint and throws where Move would abort on overflow,
+// functions reading timestamp::now_seconds take a `now` defaulting to the local clock
+
+export const BASE_POINTS = 10_000_000n
+
+export const GAS_PRICE_BASE = 1_000_000n
+
+export const AUCTION_NOT_STARTED = 0
+
+export const AUCTION_ACTIVE = 1
+
+export const AUCTION_FINISHED = 2
+
+const UINT_16_MAX = 0xffff
+
+const UINT_64_MAX = (1n << 64n) - 1n
+
+/**
+ * Price of a full fill at `timestamp`
+ */
+export type AuctionCurvePoint = {
+    timestamp: bigint
+    rateBump: bigint
+    /**
+     * Making amount the whole order taking amount buys
+     */
+    makingAmount: bigint
+    /**
+     * Taking amount owed for the whole order making amount
+     */
+    takingAmount: bigint
+}
+
+/**
+ * Same checks as dutch_auction::validate_auction_points, which aborts with E_INVALID_TIME_DELTA:
+ * every point but the first one must come strictly after the previous one
+ */
+export function validateAuctionPoints(points: AuctionPoint[]): void {
+    points.forEach((point, i) => {
+        assert(u32(point.rateBump), `Point ${i} rate bump must be a u32, got ${point.rateBump}`)
+        assert(
+            Number.isInteger(point.timeDelta) && point.timeDelta >= 0 && point.timeDelta <= UINT_16_MAX,
+            `Point ${i} time delta must be a u16, got ${point.timeDelta}`
+        )
+        assert(point.timeDelta > 0 || i === 0, `Point ${i} has a zero time delta, only the first point may`)
+    })
+}
+
+/**
+ * The auction the maker signed on EVM as dutch_auction::new_auction_config arguments.
+ * Both sides use the same units: rate bumps in 1e7 base points, point delays relative to the previous point
+ * and the gas price estimate where 1000 is 1 gwei
+ */
+export function fromSdkAuctionDetails(details: Sdk.AuctionDetails): AuctionConfig {
+    const {startTime, duration, initialRateBump, gasCost} = details
+
+    for (const [name, value] of Object.entries({startTime, duration, initialRateBump, ...gasCost})) {
+        assert(value >= 0n && value <= UINT_32_MAX, `${name} must be a u32, got ${value}`)
+    }
+
+    const auctionPoints = details.points.map((p) => ({rateBump: p.coefficient, timeDelta: p.delay}))
+    validateAuctionPoints(auctionPoints)
+
+    return {
+        gasBumpEstimate: Number(gasCost.gasBumpEstimate),
+        gasPriceEstimate: Number(gasCost.gasPriceEstimate),
+        startTime: Number(startTime),
+        duration: Number(duration),
+        initialRateBump: Number(initialRateBump),
+        auctionPoints
+    }
+}
+
+/**
+ * dutch_auction::calculate_rate_bump
+ */
+export function calculateRateBump(config: AuctionConfig, currentGasPrice: bigint, now = nowSeconds()): bigint {
+    const gasBump = calculateGasBump(config, currentGasPrice)
+    const auctionBump = calculateAuctionBump(config, now)
+
+    return auctionBump > gasBump ? auctionBump - gasBump : 0n
+}
+
+/**
+ * dutch_auction::calculate_gas_bump
+ */
+export function calculateGasBump(config: AuctionConfig, currentGasPrice: bigint): bigint {
+    if (config.gasBumpEstimate === 0 || config.gasPriceEstimate === 0) {
+        return 0n
+    }
+
+    return u64(BigInt(config.gasBumpEstimate) * currentGasPrice) / BigInt(config.gasPriceEstimate) / GAS_PRICE_BASE
+}
+
+/**
+ * dutch_auction::calculate_auction_bump
+ */
+export function calculateAuctionBump(config: AuctionConfig, now = nowSeconds()): bigint {
+    const auctionStart = BigInt(config.startTime)
+    const auctionFinish = getAuctionFinishTime(config)
+
+    if (now <= auctionStart) {
+        return BigInt(config.initialRateBump)
+    } else if (now >= auctionFinish) {
+        return 0n
+    }
+
+    return calculatePiecewiseRateBump(config, now - auctionStart)
+}
+
+/**
+ * dutch_auction::calculate_piecewise_rate_bump_impl unrolled: walks the points until the segment containing
+ * `timeFromStart`, past the last point the bump goes down to 0 at the end of the auction
+ */
+export function calculatePiecewiseRateBump(config: AuctionConfig, timeFromStart: bigint): bigint {
+    let currentPointTime = 0n
+    let currentRateBump = BigInt(config.initialRateBump)
+
+    for (const point of config.auctionPoints) {
+        const nextPointTime = currentPointTime + BigInt(point.timeDelta)
+        const nextRateBump = BigInt(point.rateBump)
+
+        if (timeFromStart <= nextPointTime) {
+            return interpolateRateBump(timeFromStart, currentPointTime, nextPointTime, currentRateBump, nextRateBump)
+        }
+
+        currentPointTime = nextPointTime
+        currentRateBump = nextRateBump
+    }
+
+    return interpolateRateBump(timeFromStart, currentPointTime, BigInt(config.duration), currentRateBump, 0n)
+}
+
+/**
+ * dutch_auction::calculate_making_amount, rounds down
+ */
+export function calculateMakingAmount(
+    orderMakingAmount: bigint,
+    orderTakingAmount: bigint,
+    takingAmount: bigint,
+    rateBump: bigint
+): bigint {
+    const numerator = orderMakingAmount * takingAmount * BASE_POINTS
+    const denominator = orderTakingAmount * (BASE_POINTS + rateBump)
+
+    return u64(numerator / denominator)
+}
+
+/**
+ * dutch_auction::calculate_taking_amount, rounds up
+ */
+export function calculateTakingAmount(
+    orderMakingAmount: bigint,
+    orderTakingAmount: bigint,
+    makingAmount: bigint,
+    rateBump: bigint
+): bigint {
+    const numerator = orderTakingAmount * makingAmount * (BASE_POINTS + rateBump)
+    const denominator = orderMakingAmount * BASE_POINTS
+
+    return u64((numerator + denominator - 1n) / denominator)
+}
+
+export function getAuctionFinishTime(config: AuctionConfig): bigint {
+    return BigInt(config.startTime) + BigInt(config.duration)
+}
+
+/**
+ * dutch_auction::get_auction_phase
+ */
+export function getAuctionPhase(config: AuctionConfig, now = nowSeconds()): number {
+    if (now < BigInt(config.startTime)) {
+        return AUCTION_NOT_STARTED
+    }
+
+    return now < getAuctionFinishTime(config) ? AUCTION_ACTIVE : AUCTION_FINISHED
+}
+
+/**
+ * dutch_auction::get_auction_progress, in whole percents
+ */
+export function getAuctionProgress(config: AuctionConfig, now = nowSeconds()): bigint {
+    const phase = getAuctionPhase(config, now)
+
+    if (phase === AUCTION_NOT_STARTED) {
+        return 0n
+    } else if (phase === AUCTION_FINISHED) {
+        return 100n
+    }
+
+    return ((now - BigInt(config.startTime)) * 100n) / BigInt(config.duration)
+}
+
+/**
+ * Prices a full fill of `order` every `step` seconds from the auction start to its end, both included
+ */
+export function getPriceCurve(
+    config: AuctionConfig,
+    order: Pick<OrderData, 'makingAmount' | 'takingAmount'>,
+    currentGasPrice: bigint,
+    step = 1n
+): AuctionCurvePoint[] {
+    if (step <= 0n) {
+        throw new Error(`Curve step must be positive, got ${step}`)
+    }
+
+    const finish = getAuctionFinishTime(config)
+    const curve: AuctionCurvePoint[] = []
+
+    for (let timestamp = BigInt(config.startTime); ; timestamp += step) {
+        const at = timestamp < finish ? timestamp : finish
+        const rateBump = calculateRateBump(config, currentGasPrice, at)
+
+        curve.push({
+            timestamp: at,
+            rateBump,
+            makingAmount: calculateMakingAmount(order.makingAmount, order.takingAmount, order.takingAmount, rateBump),
+            takingAmount: calculateTakingAmount(order.makingAmount, order.takingAmount, order.makingAmount, rateBump)
+        })
+
+        if (at === finish) {
+            return curve
+        }
+    }
+}
+
+// interpolate_rate_bump
+function interpolateRateBump(
+    currentTime: bigint,
+    startTime: bigint,
+    endTime: bigint,
+    startRate: bigint,
+    endRate: bigint
+): bigint {
+    if (endTime === startTime) {
+        return startRate
+    }
+
+    const timeProgress = u64(currentTime - startTime)
+    const timeDuration = u64(endTime - startTime)
+
+    if (endRate >= startRate) {
+        return u64(startRate + u64((endRate - startRate) * timeProgress) / timeDuration)
+    }
+
+    return startRate - u64((startRate - endRate) * timeProgress) / timeDuration
+}
+
+function u64(value: bigint): bigint {
+    if (value < 0n || value > UINT_64_MAX) {
+        throw new Error(`Arithmetic error: ${value} does not fit in u64`)
+    }
+
+    return value
+}
+
+function u32(value: number): boolean {
+    return Number.isInteger(value) && value >= 0 && value <= UINT_32_MAX
+}
+
+function nowSeconds(): bigint {
+    return BigInt(Math.floor(Date.now() / 1000))
+}
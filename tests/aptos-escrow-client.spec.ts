@@ -0,0 +1,269 @@
+import {expect} from '@jest/globals'
+import {
+    Account,
+    AccountAuthenticatorEd25519,
+    Aptos,
+    generateSigningMessageForTransaction,
+    generateUserTransactionHash,
+    InputSubmitTransactionData,
+    Network,
+    UserTransactionResponse
+} from '@aptos-labs/ts-sdk'
+import {AptosCrossChainOrder} from './aptos-cross-chain-order'
+import {AptosEscrowClient} from './aptos-escrow-client'
+import {signMakerDeposit} from './aptos-maker-deposit'
+import {AptosResolver} from './aptos-resolver'
+
+const PACKAGE = '0xdef391b1c8951bf801f67a005f9eba70a5aae6d02eba6bb4889a88288ea806a2'
+const OTHER_PACKAGE = '0x' + 'ee'.repeat(32)
+const ESCROW = '0x' + '5c'.repeat(32)
+
+// escrow_core::EscrowImmutables as the node API returns it
+const immutables = (orderHash: string): object => ({
+    order_hash: orderHash,
+    hashlock: '0x' + '02'.repeat(32),
+    maker: '0x' + '34'.repeat(32),
+    taker: '0x' + '12'.repeat(32),
+    token_type: '0x1::aptos_coin::AptosCoin',
+    amount: '100',
+    safety_deposit: '5',
+    timelocks: {
+        deployed_at: '1000',
+        src_withdrawal_delay: 10,
+        src_public_withdrawal_delay: 120,
+        src_cancellation_delay: 121,
+        src_public_cancellation_delay: 122,
+        dst_withdrawal_delay: 10,
+        dst_public_withdrawal_delay: 100,
+        dst_cancellation_delay: 101
+    }
+})
+
+const escrowResource = (pkg: string, amount: string): {type: string; data: object} => ({
+    type: `${pkg}::escrow_core::Escrow<0x1::aptos_coin::AptosCoin>`,
+    data: {
+        immutables: immutables('0x' + '01'.repeat(32)),
+        locked_tokens: {value: amount},
+        safety_deposit: {value: '5'},
+        is_completed: false
+    }
+})
+
+const created = (orderHash: string, isSource: boolean): object => ({
+    type: `${PACKAGE}::escrow_core::EscrowCreatedEvent`,
+    data: {escrow_address: ESCROW, immutables: immutables(orderHash), is_source: isSource, timestamp: '1000'}
+})
+
+const userTx = (hash: string, events: object[], success = true): UserTransactionResponse =>
+    ({type: 'user_transaction', hash, success, vm_status: success ? 'Executed' : 'Move abort', events}) as never
+
+class AptosStub {
+    public readonly calls: string[] = []
+
+    public transactionOptions?: {offset?: bigint; limit?: number}
+
+    public submitted: InputSubmitTransactionData[] = []
+
+    public knownTransactions = new Set<string>()
+
+    public success = true
+
+    public readonly config = {network: Network.LOCAL}
+
+    public readonly transaction = {
+        submit: {
+            multiAgent: async (submission: InputSubmitTransactionData): Promise<{hash: string}> => {
+                this.submitted.push(submission)
+
+                return {hash: generateUserTransactionHash(submission)}
+            }
+        }
+    }
+
+    constructor(
+        private readonly resources: Array<{type: string; data: object}> = [],
+        private readonly transactions: UserTransactionResponse[] = []
+    ) {}
+
+    public async getAccountResources({accountAddress}: {accountAddress: string}): Promise<typeof this.resources> {
+        this.calls.push(`resources ${accountAddress}`)
+
+        return this.resources
+    }
+
+    public async getAccountInfo(): Promise<{sequence_number: string}> {
+        return {sequence_number: '250'}
+    }
+
+    public async getAccountTransactions({
+        options
+    }: {
+        options: {offset?: bigint; limit?: number}
+    }): Promise<UserTransactionResponse[]> {
+        this.transactionOptions = options
+
+        return this.transactions
+    }
+
+    public async getTransactionByHash({transactionHash}: {transactionHash: string}): Promise<UserTransactionResponse> {
+        if (!this.knownTransactions.has(transactionHash)) {
+            throw new Error(`Transaction not found by Transaction hash(${transactionHash})`)
+        }
+
+        return userTx(transactionHash, [])
+    }
+
+    public async waitForTransaction({transactionHash}: {transactionHash: string}): Promise<UserTransactionResponse> {
+        this.calls.push(`wait ${transactionHash}`)
+
+        return userTx(transactionHash, [created('0x' + '01'.repeat(32), true)], this.success)
+    }
+}
+
+const client = (stub: AptosStub, signer = Account.generate()): AptosEscrowClient =>
+    new AptosEscrowClient(stub as unknown as Aptos, signer, PACKAGE, PACKAGE)
+
+describe('AptosEscrowClient', () => {
+    describe('getEscrow', () => {
+        it('should read the escrow resource of the package whatever its token type', async () => {
+            const stub = new AptosStub([
+                {type: '0x1::account::Account', data: {}},
+                escrowResource(OTHER_PACKAGE, '1'),
+                escrowResource(PACKAGE, '100')
+            ])
+
+            const escrow = await client(stub).getEscrow(ESCROW)
+
+            expect(stub.calls).toEqual([`resources ${ESCROW}`])
+            expect(escrow.lockedAmount).toBe(100n)
+            expect(escrow.immutables.orderHash).toBe('0x' + '01'.repeat(32))
+        })
+
+        it('should throw when the account holds no escrow of the package', async () => {
+            const stub = new AptosStub([escrowResource(OTHER_PACKAGE, '1')])
+
+            await expect(client(stub).getEscrow(ESCROW)).rejects.toThrow(`No escrow resource found at ${ESCROW}`)
+        })
+    })
+
+    describe('findEscrowCreated', () => {
+        const orderHash = '0x' + 'ab'.repeat(32)
+        const stub = new AptosStub(
+            [],
+            [
+                userTx('0x01', [created('0x' + 'cd'.repeat(32), true)]),
+                userTx('0x02', [created(orderHash, false)]),
+                userTx('0x03', [created(orderHash, true)])
+            ]
+        )
+
+        it('should find the escrow of the order on the requested side', async () => {
+            const event = await client(stub).findEscrowCreated(orderHash.toUpperCase().replace('0X', '0x'), true)
+
+            expect(event?.isSource).toBe(true)
+            expect(event?.immutables.orderHash).toBe(orderHash)
+            expect((await client(stub).findEscrowCreated(orderHash, false))?.isSource).toBe(false)
+            expect(await client(stub).findEscrowCreated('0x' + 'ef'.repeat(32), true)).toBeUndefined()
+        })
+
+        it('should only read the last transactions of the signer', async () => {
+            await client(stub).findEscrowCreated(orderHash, true, 100)
+
+            expect(stub.transactionOptions).toEqual({offset: 150n, limit: 100})
+
+            await client(stub).findEscrowCreated(orderHash, true, 300)
+
+            expect(stub.transactionOptions).toEqual({offset: 0n, limit: 300})
+        })
+    })
+
+    describe('submitMakerDeposit', () => {
+        const maker = Account.generate()
+        const resolver = Account.generate()
+        const order = AptosCrossChainOrder.new(
+            PACKAGE,
+            {
+                maker: maker.accountAddress.toString(),
+                receiver: '0x000000000000000000000000f39fd6e51aad88f6f4ce6ab8827279cfffb92266',
+                makerAsset: '0x1::aptos_coin::AptosCoin',
+                takerAsset: '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48',
+                makingAmount: 100_000_000n,
+                takingAmount: 99_000_000n
+            },
+            {
+                hashLock: '0x' + 'ab'.repeat(32),
+                dstChainId: 1n,
+                srcSafetyDeposit: 1000n,
+                dstSafetyDeposit: 2000n,
+                timeLocks: {
+                    srcWithdrawalDelay: 10,
+                    srcPublicWithdrawalDelay: 120,
+                    srcCancellationDelay: 121,
+                    srcPublicCancellationDelay: 122,
+                    dstWithdrawalDelay: 10,
+                    dstPublicWithdrawalDelay: 100,
+                    dstCancellationDelay: 101
+                }
+            },
+            {
+                auction: {
+                    gasBumpEstimate: 0,
+                    gasPriceEstimate: 0,
+                    startTime: 1_700_000_000,
+                    duration: 120,
+                    initialRateBump: 0,
+                    auctionPoints: []
+                },
+                whitelist: [{address: resolver.accountAddress.toString(), allowFrom: 0n}]
+            }
+        )
+        const deposit = signMakerDeposit(
+            maker,
+            order,
+            resolver.accountAddress.toString(),
+            new AptosResolver(PACKAGE, resolver.accountAddress.toString()),
+            {chainId: 4, sequenceNumber: 0n, gasUnitPrice: 100n}
+        )
+
+        it('should co-sign the deposit as the resolver and fee payer, then submit it', async () => {
+            const stub = new AptosStub()
+
+            const tx = await client(stub, resolver).submitMakerDeposit(deposit)
+            const [submission] = stub.submitted
+            const authenticator = submission.feePayerAuthenticator as AccountAuthenticatorEd25519
+
+            expect(stub.submitted).toHaveLength(1)
+            expect(submission.transaction.feePayerAddress?.equals(resolver.accountAddress)).toBe(true)
+            expect(submission.additionalSignersAuthenticators).toEqual([authenticator])
+            expect(authenticator.public_key.toString()).toBe(resolver.publicKey.toString())
+            expect(
+                resolver.verifySignature({
+                    message: generateSigningMessageForTransaction(submission.transaction),
+                    signature: authenticator.signature
+                })
+            ).toBe(true)
+            expect(stub.calls).toEqual([`wait ${generateUserTransactionHash(submission)}`])
+            expect(tx.hash).toBe(generateUserTransactionHash(submission))
+        })
+
+        it('should only wait for a deposit submitted before', async () => {
+            const stub = new AptosStub()
+            const first = await client(stub, resolver).submitMakerDeposit(deposit)
+
+            stub.submitted = []
+            stub.knownTransactions.add(first.hash)
+
+            const second = await client(stub, resolver).submitMakerDeposit(deposit)
+
+            expect(second.hash).toBe(first.hash)
+            expect(stub.submitted).toHaveLength(0)
+        })
+
+        it('should throw on an aborted deposit', async () => {
+            const stub = new AptosStub()
+            stub.success = false
+
+            await expect(client(stub, resolver).submitMakerDeposit(deposit)).rejects.toThrow('failed: Move abort')
+        })
+    })
+})
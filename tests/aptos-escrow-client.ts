@@ -0,0 +1,237 @@
+import {
+    Account,
+    Aptos,
+    generateUserTransactionHash,
+    InputEntryFunctionData,
+    isUserTransactionResponse,
+    UserTransactionResponse
+} from '@aptos-labs/ts-sdk'
+import {calculateTakingAmount} from './aptos-dutch-auction'
+import {AptosEventDecoder, decodeEscrow} from './aptos-events'
+import {AptosMakerDeposit, decodeMakerDeposit} from './aptos-maker-deposit'
+import {AptosMultiFillHashLock, getSecretIndex} from './aptos-multi-fill-hash-lock'
+import {AptosResolver} from './aptos-resolver'
+import {trackAptosTransaction} from './aptos-transactions'
+import {Escrow, EscrowCreatedEvent, EscrowImmutables, OrderData, SrcEscrowArgs} from './aptos-types'
+
+export class AptosEscrowClient {
+    public readonly resolver: AptosResolver
+
+    public readonly events: AptosEventDecoder
+
+    constructor(
+        private readonly aptos: Aptos,
+        public readonly signer: Account,
+        public readonly packageAddress: string,
+        resolverAddress: string,
+        /**
+         * FeeTokenType and AccessTokenType the factory was initialized with
+         */
+        factoryTypes?: {feeTokenType: string; accessTokenType: string}
+    ) {
+        this.resolver = new AptosResolver(packageAddress, resolverAddress, factoryTypes)
+        this.events = new AptosEventDecoder(packageAddress)
+    }
+
+    public get address(): string {
+        return this.signer.accountAddress.toString()
+    }
+
+    /**
+     * Locks `order.makingAmount` of `order.makerAsset` plus the src safety deposit in a new source escrow
+     */
+    public async createSrcEscrow(order: OrderData, args: SrcEscrowArgs): Promise<EscrowCreatedEvent> {
+        const tx = await this.send(this.resolver.deploySrc(order, args))
+
+        return this.events.getOne(tx, 'escrow_core::EscrowCreatedEvent')
+    }
+
+    /**
+     * Locks `makingAmount` of an order allowing multiple fills in a new source escrow: picks the secret of the part
+     * the fill ends in, stores its proof for the signer, then deploys the escrow with its hash as hashlock.
+     * The taking amount is the order rate without auction bump, as for createSrcEscrow
+     *
+     * @param remainingMakingAmount making amount of the order left before this fill
+     * @returns the escrow created and the index of the secret unlocking it
+     */
+    public async createSrcEscrowPartial(
+        order: OrderData,
+        args: Omit<SrcEscrowArgs, 'hashlockInfo' | 'takerData'>,
+        hashLock: AptosMultiFillHashLock,
+        makingAmount: bigint,
+        remainingMakingAmount: bigint
+    ): Promise<{event: EscrowCreatedEvent; secretIndex: number}> {
+        const secretIndex = getSecretIndex(makingAmount, remainingMakingAmount, order.makingAmount, hashLock.partsCount)
+        const takerData = hashLock.getTakerData(secretIndex)
+
+        await this.send(this.resolver.validateFillProof(order.orderHash, hashLock.root, hashLock.partsCount, takerData))
+
+        const tx = await this.send(
+            this.resolver.deploySrcPartial(
+                order,
+                {...args, hashlockInfo: hashLock.hashlockInfo, takerData},
+                {
+                    makingAmount,
+                    takingAmount: calculateTakingAmount(order.makingAmount, order.takingAmount, makingAmount, 0n),
+                    remainingMakingAmount
+                }
+            )
+        )
+
+        return {event: this.events.getOne(tx, 'escrow_core::EscrowCreatedEvent'), secretIndex}
+    }
+
+    /**
+     * Deposits `immutables.amount` of `immutables.tokenType` plus the safety deposit in a new destination escrow
+     *
+     * @param srcCancellationTimestamp the destination cancellation must not start after it
+     */
+    public async createDstEscrow(
+        immutables: EscrowImmutables,
+        srcCancellationTimestamp: bigint
+    ): Promise<EscrowCreatedEvent> {
+        const tx = await this.send(this.resolver.deployDst(immutables, srcCancellationTimestamp))
+
+        return this.events.getOne(tx, 'escrow_core::EscrowCreatedEvent')
+    }
+
+    /**
+     * @param immutables defaults to the ones stored in the escrow resource
+     */
+    public async withdraw(
+        escrowAddress: string,
+        secret: string,
+        immutables?: EscrowImmutables,
+        recipient = this.address
+    ): Promise<UserTransactionResponse> {
+        immutables ??= await this.getEscrowImmutables(escrowAddress)
+
+        return this.send(this.resolver.withdraw(escrowAddress, secret, immutables, recipient))
+    }
+
+    /**
+     * @param immutables defaults to the ones stored in the escrow resource
+     */
+    public async cancel(escrowAddress: string, immutables?: EscrowImmutables): Promise<UserTransactionResponse> {
+        immutables ??= await this.getEscrowImmutables(escrowAddress)
+
+        return this.send(this.resolver.cancel(escrowAddress, immutables))
+    }
+
+    /**
+     * Reads the immutables of the `escrow_core::Escrow<TokenType>` resource stored at `escrowAddress`,
+     * including the `deployed_at` set on creation, so they pass the equality check in withdraw and cancel
+     */
+    public async getEscrowImmutables(escrowAddress: string): Promise<EscrowImmutables> {
+        return (await this.getEscrow(escrowAddress)).immutables
+    }
+
+    /**
+     * Reads the `escrow_core::Escrow<TokenType>` resource stored at `escrowAddress`
+     */
+    public async getEscrow(escrowAddress: string): Promise<Escrow> {
+        const escrowType = `${this.packageAddress}::escrow_core::Escrow<`
+        const resources = await this.aptos.getAccountResources({accountAddress: escrowAddress})
+        const escrow = resources.find((r) => r.type.startsWith(escrowType))
+
+        if (!escrow) {
+            throw new Error(`No escrow resource found at ${escrowAddress}`)
+        }
+
+        return decodeEscrow(escrow.data)
+    }
+
+    /**
+     * Escrows created in the last `limit` transactions of the signer, the ones it is the taker of
+     */
+    public async getEscrowsCreated(limit = 100): Promise<EscrowCreatedEvent[]> {
+        const {sequence_number} = await this.aptos.getAccountInfo({accountAddress: this.signer.accountAddress})
+        const count = BigInt(sequence_number)
+        const transactions = await this.aptos.getAccountTransactions({
+            accountAddress: this.signer.accountAddress,
+            options: {offset: count > BigInt(limit) ? count - BigInt(limit) : 0n, limit}
+        })
+
+        return transactions
+            .filter(isUserTransactionResponse)
+            .flatMap((tx) => this.events.findAll(tx.events, 'escrow_core::EscrowCreatedEvent'))
+    }
+
+    /**
+     * Looks for an escrow of `orderHash` in the last `limit` transactions of the signer, e.g. one created by a
+     * resolver which crashed before recording it
+     */
+    public async findEscrowCreated(
+        orderHash: string,
+        isSource: boolean,
+        limit = 100
+    ): Promise<EscrowCreatedEvent | undefined> {
+        const events = await this.getEscrowsCreated(limit)
+
+        return events.find(
+            (e) => e.isSource === isSource && e.immutables.orderHash.toLowerCase() === orderHash.toLowerCase()
+        )
+    }
+
+    /**
+     * Unix seconds of the latest ledger, the time the escrow timelocks are checked against
+     */
+    public async getLedgerTime(): Promise<bigint> {
+        const {ledger_timestamp} = await this.aptos.getLedgerInfo()
+
+        return BigInt(ledger_timestamp) / 1_000_000n
+    }
+
+    /**
+     * Co-signs the source escrow deployment a maker signed to the client signer and submits it, paying its gas.
+     * A deployment submitted before, e.g. by a resolver which crashed before recording it, is only waited for
+     */
+    public async submitMakerDeposit(deposit: AptosMakerDeposit): Promise<UserTransactionResponse> {
+        const {transaction, senderAuthenticator} = decodeMakerDeposit(deposit)
+        transaction.feePayerAddress = this.signer.accountAddress
+        // The sender signed over fee payer 0x0, co-signers sign over the actual one
+        const resolverAuthenticator = this.signer.signTransactionWithAuthenticator(transaction)
+        const submission = {
+            transaction,
+            senderAuthenticator,
+            additionalSignersAuthenticators: [resolverAuthenticator],
+            feePayerAuthenticator: resolverAuthenticator
+        }
+        // Ed25519 signatures are deterministic, so is the hash of the sponsored transaction
+        const transactionHash = generateUserTransactionHash(submission)
+
+        const submitted = await this.aptos.getTransactionByHash({transactionHash}).catch(() => undefined)
+
+        if (!submitted) {
+            await this.aptos.transaction.submit.multiAgent(submission)
+        }
+
+        return this.waitForSuccess(transactionHash, `${this.packageAddress}::resolver::deploy_src_escrow_from_maker`)
+    }
+
+    /**
+     * Signs `data` with the client signer, waits for it and fails on an aborted transaction
+     */
+    public async send(data: InputEntryFunctionData): Promise<UserTransactionResponse> {
+        const transaction = await this.aptos.transaction.build.simple({sender: this.signer.accountAddress, data})
+        const pending = await this.aptos.signAndSubmitTransaction({signer: this.signer, transaction})
+
+        return this.waitForSuccess(pending.hash, data.function)
+    }
+
+    private async waitForSuccess(transactionHash: string, functionName: string): Promise<UserTransactionResponse> {
+        const tx = await this.aptos.waitForTransaction({transactionHash, options: {checkSuccess: false}})
+
+        trackAptosTransaction(transactionHash, functionName, this.aptos.config.network)
+
+        if (!isUserTransactionResponse(tx)) {
+            throw new Error(`Unexpected transaction type ${tx.type} for ${transactionHash}`)
+        }
+
+        if (!tx.success) {
+            throw new Error(`Transaction ${transactionHash} failed: ${tx.vm_status}`)
+        }
+
+        return tx
+    }
+}
@@ -0,0 +1,95 @@
+import {expect} from '@jest/globals'
+import {Aptos, TransactionResponseType} from '@aptos-labs/ts-sdk'
+import Sdk from '@1inch/cross-chain-sdk'
+import {AptosEscrowFactory, getDstImmutables} from './aptos-escrow-factory'
+import {ChainAddress} from './chain-address'
+import {CrossChainHashLock} from './cross-chain-hash-lock'
+
+const PACKAGE = '0xdef391b1c8951bf801f67a005f9eba70a5aae6d02eba6bb4889a88288ea806a2'
+// Aptos accounts whose low 160 bits are equal
+const MAKER = '0x' + 'a1'.repeat(12) + 'ff'.repeat(20)
+const TAKER = '0x' + 'b2'.repeat(12) + 'ff'.repeat(20)
+const COIN = PACKAGE + '::my_token::MyToken'
+const RECEIVER = '0xf39fd6e51aad88f6f4ce6ab8827279cfffb92266'
+const USDC = '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48'
+const EVM_RESOLVER = '0x00000000000000000000000000000000000000aa'
+
+describe('AptosEscrowFactory', () => {
+    const hashLock = CrossChainHashLock.new()
+    const event = {
+        escrow_address: '0x5c',
+        immutables: {
+            order_hash: '0x' + '01'.repeat(32),
+            hashlock: hashLock.aptos,
+            maker: MAKER,
+            taker: TAKER,
+            token_type: COIN,
+            amount: '100',
+            safety_deposit: '5',
+            timelocks: {
+                deployed_at: '1000',
+                src_withdrawal_delay: 10,
+                src_public_withdrawal_delay: 120,
+                src_cancellation_delay: 121,
+                src_public_cancellation_delay: 122,
+                dst_withdrawal_delay: 10,
+                dst_public_withdrawal_delay: 100,
+                dst_cancellation_delay: 101
+            }
+        },
+        dst_complement: {
+            maker: '0x000000000000000000000000' + RECEIVER.slice(2),
+            amount: '99',
+            token: USDC,
+            safety_deposit: '7',
+            chain_id: '1'
+        },
+        timestamp: '1000'
+    }
+
+    const factory = (data: object): AptosEscrowFactory =>
+        new AptosEscrowFactory(
+            {
+                getTransactionByHash: async ({transactionHash}: {transactionHash: string}) => ({
+                    type: TransactionResponseType.User,
+                    hash: transactionHash,
+                    events: [{type: `${PACKAGE}::escrow_factory::SrcEscrowCreatedEvent`, data}]
+                })
+            } as unknown as Aptos,
+            PACKAGE
+        )
+
+    it('should keep the full Aptos maker, taker and coin type of the source escrow', async () => {
+        const [immutables, complement] = await factory(event).getSrcDeployEvent('0x01')
+
+        expect(immutables.maker.equal(ChainAddress.aptosAccount(MAKER))).toBe(true)
+        expect(immutables.taker.equal(ChainAddress.aptosAccount(TAKER))).toBe(true)
+        expect(immutables.maker.equal(immutables.taker)).toBe(false)
+        expect(immutables.token.equal(ChainAddress.aptosCoinType(COIN))).toBe(true)
+        expect(immutables.hashLock.toString()).toBe(hashLock.aptos)
+        expect(immutables.timeLocks.toSrcTimeLocks().privateCancellation).toBe(1121n)
+
+        expect(complement.maker.toString()).toBe(RECEIVER)
+        expect(complement.token.toString()).toBe(USDC)
+        expect([complement.amount, complement.safetyDeposit]).toEqual([99n, 7n])
+    })
+
+    it('should reject a destination maker that is not an EVM address', async () => {
+        await expect(
+            factory({...event, dst_complement: {...event.dst_complement, maker: MAKER}}).getSrcDeployEvent('0x01')
+        ).rejects.toThrow('is not an EVM address')
+    })
+
+    it('should build the destination immutables from the complement and the source timelocks', async () => {
+        const [src, complement] = await factory(event).getSrcDeployEvent('0x01')
+        const dst = getDstImmutables(src, complement, new Sdk.Address(EVM_RESOLVER), hashLock.evm)
+
+        expect(dst.orderHash).toBe(src.orderHash)
+        expect(dst.hashLock.eq(hashLock.evm)).toBe(true)
+        expect(dst.maker.toString()).toBe(RECEIVER)
+        expect(dst.taker.toString()).toBe(EVM_RESOLVER)
+        expect(dst.token.toString()).toBe(USDC)
+        expect([dst.amount, dst.safetyDeposit]).toEqual([99n, 7n])
+        expect(dst.timeLocks.build()).toBe(src.timeLocks.build())
+    })
+})
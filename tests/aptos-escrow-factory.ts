@@ -0,0 +1,112 @@
+import {AccountAddress, Aptos, isUserTransactionResponse, UserTransactionResponse} from '@aptos-labs/ts-sdk'
+import Sdk from '@1inch/cross-chain-sdk'
+import {UINT_160_MAX} from '@1inch/byte-utils'
+import {AptosEventDecoder} from './aptos-events'
+import {toSdkTimeLocks} from './aptos-timelocks'
+import {DstImmutablesComplement, EscrowImmutables} from './aptos-types'
+import {ChainAddress} from './chain-address'
+
+/**
+ * Immutables of an Aptos source escrow in the shape of Sdk.Immutables. The maker and taker are 32 byte Aptos
+ * accounts and the token a coin type, none of which fit the 20 byte `Sdk.Address`
+ */
+export type AptosSrcImmutables = {
+    orderHash: string
+    hashLock: Sdk.HashLock
+    maker: ChainAddress
+    taker: ChainAddress
+    token: ChainAddress
+    amount: bigint
+    safetyDeposit: bigint
+    timeLocks: Sdk.TimeLocks
+}
+
+export class AptosEscrowFactory {
+    private readonly events: AptosEventDecoder
+
+    constructor(
+        private readonly aptos: Aptos,
+        /**
+         * Address the escrow package is published at
+         */
+        private readonly address: string
+    ) {
+        this.events = new AptosEventDecoder(address)
+    }
+
+    /**
+     * Reads `escrow_factory::SrcEscrowCreatedEvent` emitted by `txHash`
+     *
+     * The hashlock is the sha3-256 one stored on Aptos, `getDstImmutables` takes the keccak one
+     */
+    public async getSrcDeployEvent(txHash: string): Promise<[AptosSrcImmutables, Sdk.DstImmutablesComplement]> {
+        const tx = await this.getTransaction(txHash)
+        const {immutables, dstComplement} = this.events.getOne(tx, 'escrow_factory::SrcEscrowCreatedEvent')
+
+        return [toSrcImmutables(immutables), toSdkComplement(dstComplement)]
+    }
+
+    private async getTransaction(txHash: string): Promise<UserTransactionResponse> {
+        const tx = await this.aptos.getTransactionByHash({transactionHash: txHash})
+
+        if (!isUserTransactionResponse(tx)) {
+            throw new Error(`${txHash} is not a committed user transaction`)
+        }
+
+        return tx
+    }
+}
+
+/**
+ * Immutables of the EVM destination escrow filling the Aptos source escrow `src`, the Sdk
+ * `withComplement(complement).withTaker(taker)` of an EVM source escrow
+ *
+ * @param taker resolver contract deploying the destination escrow
+ * @param hashLock keccak256 hashlock of the secret `src` is locked on
+ */
+export function getDstImmutables(
+    src: AptosSrcImmutables,
+    complement: Sdk.DstImmutablesComplement,
+    taker: Sdk.Address,
+    hashLock: Sdk.HashLock
+): Sdk.Immutables {
+    return Sdk.Immutables.new({
+        orderHash: src.orderHash,
+        hashLock,
+        maker: complement.maker,
+        taker,
+        token: complement.token,
+        amount: complement.amount,
+        safetyDeposit: complement.safetyDeposit,
+        timeLocks: src.timeLocks
+    })
+}
+
+function toSrcImmutables(immutables: EscrowImmutables): AptosSrcImmutables {
+    return {
+        orderHash: immutables.orderHash,
+        hashLock: Sdk.HashLock.fromString(immutables.hashlock),
+        maker: ChainAddress.aptosAccount(immutables.maker),
+        taker: ChainAddress.aptosAccount(immutables.taker),
+        token: ChainAddress.aptosCoinType(immutables.tokenType),
+        amount: immutables.amount,
+        safetyDeposit: immutables.safetyDeposit,
+        timeLocks: toSdkTimeLocks(immutables.timelocks)
+    }
+}
+
+// The complement describes the EVM side, so its maker must be a zero padded EVM address
+function toSdkComplement(complement: DstImmutablesComplement): Sdk.DstImmutablesComplement {
+    const maker = BigInt(AccountAddress.from(complement.maker).toString())
+
+    if (maker > UINT_160_MAX) {
+        throw new Error(`Destination maker ${complement.maker} is not an EVM address`)
+    }
+
+    return Sdk.DstImmutablesComplement.new({
+        maker: Sdk.Address.fromBigInt(maker),
+        amount: complement.amount,
+        token: new Sdk.Address(complement.token),
+        safetyDeposit: complement.safetyDeposit
+    })
+}
@@ -0,0 +1,134 @@
+import {expect} from '@jest/globals'
+import {UserTransactionResponse} from '@aptos-labs/ts-sdk'
+import {AptosEvent, AptosEventDecoder, decodeEscrow, decodeImmutables} from './aptos-events'
+
+const PACKAGE = '0xdef391b1c8951bf801f67a005f9eba70a5aae6d02eba6bb4889a88288ea806a2'
+const TAKER = '0x' + '12'.repeat(32)
+
+// escrow_core::EscrowImmutables as the node API returns it
+const immutables = {
+    order_hash: '0x' + '01'.repeat(32),
+    hashlock: '0x' + '02'.repeat(32),
+    maker: '0x' + '34'.repeat(32),
+    taker: TAKER,
+    token_type: '0x1::aptos_coin::AptosCoin',
+    amount: '18446744073709551615',
+    safety_deposit: '5',
+    timelocks: {
+        deployed_at: '1000',
+        src_withdrawal_delay: 10,
+        src_public_withdrawal_delay: 120,
+        src_cancellation_delay: 121,
+        src_public_cancellation_delay: 122,
+        dst_withdrawal_delay: 10,
+        dst_public_withdrawal_delay: 100,
+        dst_cancellation_delay: 101
+    }
+}
+
+const event = (type: string, data: object): AptosEvent => ({type: `${PACKAGE}::${type}`, data}) as AptosEvent
+
+describe('AptosEventDecoder', () => {
+    const decoder = new AptosEventDecoder(PACKAGE)
+    const created = event('escrow_core::EscrowCreatedEvent', {
+        escrow_address: '0x5c',
+        immutables,
+        is_source: true,
+        timestamp: '1000'
+    })
+    const withdrawal = event('escrow_core::EscrowWithdrawalEvent', {
+        escrow_address: '0x5c',
+        secret: '0x' + 'ab'.repeat(32),
+        recipient: TAKER,
+        amount: '100',
+        timestamp: '1010'
+    })
+
+    it('should decode the escrow events of the package', () => {
+        expect(decoder.decode(created)).toEqual({
+            name: 'escrow_core::EscrowCreatedEvent',
+            data: {
+                escrowAddress: '0x5c',
+                immutables: {
+                    orderHash: immutables.order_hash,
+                    hashlock: immutables.hashlock,
+                    maker: immutables.maker,
+                    taker: TAKER,
+                    tokenType: '0x1::aptos_coin::AptosCoin',
+                    amount: 18446744073709551615n,
+                    safetyDeposit: 5n,
+                    timelocks: {
+                        deployedAt: 1000n,
+                        srcWithdrawalDelay: 10,
+                        srcPublicWithdrawalDelay: 120,
+                        srcCancellationDelay: 121,
+                        srcPublicCancellationDelay: 122,
+                        dstWithdrawalDelay: 10,
+                        dstPublicWithdrawalDelay: 100,
+                        dstCancellationDelay: 101
+                    }
+                },
+                isSource: true,
+                timestamp: 1000n
+            }
+        })
+        expect(decoder.decode(withdrawal)?.data).toEqual({
+            escrowAddress: '0x5c',
+            secret: '0x' + 'ab'.repeat(32),
+            recipient: TAKER,
+            amount: 100n,
+            timestamp: 1010n
+        })
+    })
+
+    it('should skip events of other packages and modules', () => {
+        const coin = {type: '0x1::coin::CoinDeposit', data: {amount: '1'}} as AptosEvent
+        const other = {...created, type: '0x2::escrow_core::EscrowCreatedEvent'}
+        const unknown = event('escrow_core::UnknownEvent', {})
+
+        expect(decoder.decodeAll([coin, other, unknown, withdrawal, created]).map((e) => e.name)).toEqual([
+            'escrow_core::EscrowWithdrawalEvent',
+            'escrow_core::EscrowCreatedEvent'
+        ])
+        expect(decoder.findAll([coin, created, created], 'escrow_core::EscrowCreatedEvent')).toHaveLength(2)
+    })
+
+    it('should throw when a transaction did not emit the event', () => {
+        const tx = {hash: '0x01', events: [withdrawal]} as UserTransactionResponse
+
+        expect(decoder.getOne(tx, 'escrow_core::EscrowWithdrawalEvent').amount).toBe(100n)
+        expect(() => decoder.getOne(tx, 'escrow_core::EscrowCreatedEvent')).toThrow(
+            'escrow_core::EscrowCreatedEvent not found in transaction 0x01'
+        )
+    })
+
+    it('should decode the escrow resource', () => {
+        const escrow = decodeEscrow({
+            immutables,
+            locked_tokens: {value: '100'},
+            safety_deposit: {value: '5'},
+            is_completed: false
+        })
+
+        expect(escrow).toMatchObject({lockedAmount: 100n, safetyDeposit: 5n, isCompleted: false})
+        expect(escrow.immutables.taker).toBe(TAKER)
+    })
+
+    it('should throw on malformed fields', () => {
+        const withField = (field: string, value: unknown): unknown => ({...immutables, [field]: value})
+
+        for (const amount of ['1.5', '-1', '0x10', '', '18446744073709551616', 100, undefined]) {
+            expect(() => decodeImmutables(withField('amount', amount))).toThrow('Expected a u64 decimal string')
+        }
+
+        expect(() => decodeImmutables(withField('taker', 12))).toThrow('Expected a string, got 12')
+        expect(() => decodeImmutables(withField('token_type', undefined))).toThrow('Expected a string, got undefined')
+        expect(() =>
+            decodeImmutables(withField('timelocks', {...immutables.timelocks, src_withdrawal_delay: '10'}))
+        ).toThrow('Expected a u32, got "10"')
+        expect(() => decodeImmutables(withField('timelocks', null))).toThrow('Expected a struct, got null')
+        expect(() => decoder.decode({...created, data: {...created.data, is_source: 'true'}})).toThrow(
+            'Expected a bool'
+        )
+    })
+})
@@ -0,0 +1,311 @@
+import {AccountAddress, UserTransactionResponse} from '@aptos-labs/ts-sdk'
+import {UINT_32_MAX} from '@1inch/byte-utils'
+import {
+    AmountCalculationEvent,
+    DstEscrowCreatedEvent,
+    Escrow,
+    EscrowCancellationEvent,
+    EscrowCreatedEvent,
+    EscrowImmutables,
+    EscrowWithdrawalEvent,
+    FeeBankDepositEvent,
+    FeeBankWithdrawalEvent,
+    FeeChargeEvent,
+    FundsRescueEvent,
+    OrderFillEvent,
+    PostInteractionEvent,
+    PreInteractionEvent,
+    SecretValidationEvent,
+    SrcEscrowCreatedEvent
+} from './aptos-types'
+
+export type AptosEvent = UserTransactionResponse['events'][number]
+
+/**
+ * Decoded event data keyed by `module::EventStruct`
+ */
+export type AptosEventMap = {
+    'escrow_core::EscrowCreatedEvent': EscrowCreatedEvent
+    'escrow_core::EscrowWithdrawalEvent': EscrowWithdrawalEvent
+    'escrow_core::EscrowCancellationEvent': EscrowCancellationEvent
+    'escrow_core::FundsRescueEvent': FundsRescueEvent
+    'escrow_factory::SrcEscrowCreatedEvent': SrcEscrowCreatedEvent
+    'escrow_factory::DstEscrowCreatedEvent': DstEscrowCreatedEvent
+    'escrow_factory::OrderFillEvent': OrderFillEvent
+    'merkle_validator::SecretValidationEvent': SecretValidationEvent
+    'fee_bank::DepositEvent': FeeBankDepositEvent
+    'fee_bank::WithdrawalEvent': FeeBankWithdrawalEvent
+    'fee_bank::FeeChargeEvent': FeeChargeEvent
+    'order_integration::PreInteractionEvent': PreInteractionEvent
+    'order_integration::PostInteractionEvent': PostInteractionEvent
+    'order_integration::AmountCalculationEvent': AmountCalculationEvent
+}
+
+export type AptosEventName = keyof AptosEventMap
+
+export type DecodedAptosEvent = {
+    [K in AptosEventName]: {name: K; data: AptosEventMap[K]}
+}[AptosEventName]
+
+// Event data as returned by the node API: u64/u128 are decimal strings, u8-u32 are numbers,
+// addresses and vector<u8> are 0x-prefixed hex strings
+type MoveStruct = {[field: string]: unknown}
+
+const UINT_64_MAX = (1n << 64n) - 1n
+
+const decoders: {[K in AptosEventName]: (data: MoveStruct) => AptosEventMap[K]} = {
+    'escrow_core::EscrowCreatedEvent': (data) => ({
+        escrowAddress: str(data.escrow_address),
+        immutables: decodeImmutables(data.immutables),
+        isSource: bool(data.is_source),
+        timestamp: u64(data.timestamp)
+    }),
+    'escrow_core::EscrowWithdrawalEvent': (data) => ({
+        escrowAddress: str(data.escrow_address),
+        secret: str(data.secret),
+        recipient: str(data.recipient),
+        amount: u64(data.amount),
+        timestamp: u64(data.timestamp)
+    }),
+    'escrow_core::EscrowCancellationEvent': (data) => ({
+        escrowAddress: str(data.escrow_address),
+        recipient: str(data.recipient),
+        amount: u64(data.amount),
+        timestamp: u64(data.timestamp)
+    }),
+    'escrow_core::FundsRescueEvent': (data) => ({
+        escrowAddress: str(data.escrow_address),
+        tokenType: str(data.token_type),
+        amount: u64(data.amount),
+        recipient: str(data.recipient),
+        timestamp: u64(data.timestamp)
+    }),
+    'escrow_factory::SrcEscrowCreatedEvent': (data) => {
+        const complement = struct(data.dst_complement)
+
+        return {
+            escrowAddress: str(data.escrow_address),
+            immutables: decodeImmutables(data.immutables),
+            dstComplement: {
+                maker: str(complement.maker),
+                amount: u64(complement.amount),
+                token: str(complement.token),
+                safetyDeposit: u64(complement.safety_deposit),
+                chainId: u64(complement.chain_id)
+            },
+            timestamp: u64(data.timestamp)
+        }
+    },
+    'escrow_factory::DstEscrowCreatedEvent': (data) => ({
+        escrowAddress: str(data.escrow_address),
+        hashlock: str(data.hashlock),
+        taker: str(data.taker),
+        timestamp: u64(data.timestamp)
+    }),
+    'escrow_factory::OrderFillEvent': (data) => ({
+        orderHash: str(data.order_hash),
+        taker: str(data.taker),
+        makingAmount: u64(data.making_amount),
+        takingAmount: u64(data.taking_amount),
+        auctionRateBump: u64(data.auction_rate_bump),
+        timestamp: u64(data.timestamp)
+    }),
+    'merkle_validator::SecretValidationEvent': (data) => ({
+        orderHash: str(data.order_hash),
+        rootShortened: str(data.root_shortened),
+        index: u64(data.index),
+        secretHash: str(data.secret_hash),
+        timestamp: u64(data.timestamp)
+    }),
+    'fee_bank::DepositEvent': (data) => ({
+        user: str(data.user),
+        amount: u64(data.amount),
+        totalCredit: u64(data.total_credit),
+        timestamp: u64(data.timestamp)
+    }),
+    'fee_bank::WithdrawalEvent': (data) => ({
+        user: str(data.user),
+        amount: u64(data.amount),
+        remainingCredit: u64(data.remaining_credit),
+        timestamp: u64(data.timestamp)
+    }),
+    'fee_bank::FeeChargeEvent': (data) => ({
+        resolver: str(data.resolver),
+        feeAmount: u64(data.fee_amount),
+        remainingCredit: u64(data.remaining_credit),
+        timestamp: u64(data.timestamp)
+    }),
+    'order_integration::PreInteractionEvent': (data) => ({
+        orderHash: str(data.order_hash),
+        taker: str(data.taker),
+        makingAmount: u64(data.making_amount),
+        takingAmount: u64(data.taking_amount),
+        timestamp: u64(data.timestamp)
+    }),
+    'order_integration::PostInteractionEvent': (data) => ({
+        orderHash: str(data.order_hash),
+        taker: str(data.taker),
+        escrowAddress: str(data.escrow_address),
+        makingAmount: u64(data.making_amount),
+        takingAmount: u64(data.taking_amount),
+        timestamp: u64(data.timestamp)
+    }),
+    'order_integration::AmountCalculationEvent': (data) => ({
+        orderHash: str(data.order_hash),
+        originalMakingAmount: u64(data.original_making_amount),
+        originalTakingAmount: u64(data.original_taking_amount),
+        calculatedMakingAmount: u64(data.calculated_making_amount),
+        calculatedTakingAmount: u64(data.calculated_taking_amount),
+        rateBump: u64(data.rate_bump),
+        timestamp: u64(data.timestamp)
+    })
+}
+
+/**
+ * Decodes the events emitted by the escrow package published at `packageAddress`
+ */
+export class AptosEventDecoder {
+    private readonly packageAddress: AccountAddress
+
+    constructor(packageAddress: string) {
+        this.packageAddress = AccountAddress.from(packageAddress)
+    }
+
+    /**
+     * @returns undefined for events of other packages, e.g. 0x1::coin events
+     */
+    public decode(event: AptosEvent): DecodedAptosEvent | undefined {
+        const name = this.getEventName(event.type)
+
+        if (!name) {
+            return undefined
+        }
+
+        return {name, data: decoders[name](event.data)} as DecodedAptosEvent
+    }
+
+    public decodeAll(events: AptosEvent[]): DecodedAptosEvent[] {
+        return events.map((e) => this.decode(e)).filter((e): e is DecodedAptosEvent => e !== undefined)
+    }
+
+    public findAll<K extends AptosEventName>(events: AptosEvent[], name: K): AptosEventMap[K][] {
+        return this.decodeAll(events)
+            .filter((e) => e.name === name)
+            .map((e) => e.data as AptosEventMap[K])
+    }
+
+    /**
+     * @throws if the transaction did not emit `name`
+     */
+    public getOne<K extends AptosEventName>(tx: UserTransactionResponse, name: K): AptosEventMap[K] {
+        const [event] = this.findAll(tx.events, name)
+
+        if (!event) {
+            throw new Error(`${name} not found in transaction ${tx.hash}`)
+        }
+
+        return event
+    }
+
+    private getEventName(type: string): AptosEventName | undefined {
+        const [address, module, struct] = type.split('::')
+
+        if (!address || !module || !struct || !AccountAddress.isValid({input: address}).valid) {
+            return undefined
+        }
+
+        const name = `${module}::${struct}`
+
+        if (!AccountAddress.from(address).equals(this.packageAddress) || !(name in decoders)) {
+            return undefined
+        }
+
+        return name as AptosEventName
+    }
+}
+
+/**
+ * @throws if a field is missing or not of its Move type
+ */
+export function decodeImmutables(value: unknown): EscrowImmutables {
+    const immutables = struct(value)
+    const timelocks = struct(immutables.timelocks)
+
+    return {
+        orderHash: str(immutables.order_hash),
+        hashlock: str(immutables.hashlock),
+        maker: str(immutables.maker),
+        taker: str(immutables.taker),
+        tokenType: str(immutables.token_type),
+        amount: u64(immutables.amount),
+        safetyDeposit: u64(immutables.safety_deposit),
+        timelocks: {
+            deployedAt: u64(timelocks.deployed_at),
+            srcWithdrawalDelay: u32(timelocks.src_withdrawal_delay),
+            srcPublicWithdrawalDelay: u32(timelocks.src_public_withdrawal_delay),
+            srcCancellationDelay: u32(timelocks.src_cancellation_delay),
+            srcPublicCancellationDelay: u32(timelocks.src_public_cancellation_delay),
+            dstWithdrawalDelay: u32(timelocks.dst_withdrawal_delay),
+            dstPublicWithdrawalDelay: u32(timelocks.dst_public_withdrawal_delay),
+            dstCancellationDelay: u32(timelocks.dst_cancellation_delay)
+        }
+    }
+}
+
+/**
+ * @throws if a field is missing or not of its Move type
+ */
+export function decodeEscrow(value: unknown): Escrow {
+    const escrow = struct(value)
+
+    return {
+        immutables: decodeImmutables(escrow.immutables),
+        lockedAmount: u64(struct(escrow.locked_tokens).value),
+        safetyDeposit: u64(struct(escrow.safety_deposit).value),
+        isCompleted: bool(escrow.is_completed)
+    }
+}
+
+function u64(value: unknown): bigint {
+    if (typeof value !== 'string' || !/^\d+$/.test(value) || BigInt(value) > UINT_64_MAX) {
+        throw new Error(`Expected a u64 decimal string, got ${describe(value)}`)
+    }
+
+    return BigInt(value)
+}
+
+function u32(value: unknown): number {
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 0 || value > UINT_32_MAX) {
+        throw new Error(`Expected a u32, got ${describe(value)}`)
+    }
+
+    return value
+}
+
+function str(value: unknown): string {
+    if (typeof value !== 'string') {
+        throw new Error(`Expected a string, got ${describe(value)}`)
+    }
+
+    return value
+}
+
+function bool(value: unknown): boolean {
+    if (typeof value !== 'boolean') {
+        throw new Error(`Expected a bool, got ${describe(value)}`)
+    }
+
+    return value
+}
+
+function struct(value: unknown): MoveStruct {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        throw new Error(`Expected a struct, got ${describe(value)}`)
+    }
+
+    return value as MoveStruct
+}
+
+function describe(value: unknown): string {
+    return value === undefined ? 'undefined' : JSON.stringify(value)
+}
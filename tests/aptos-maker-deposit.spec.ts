@@ -0,0 +1,129 @@
+import {expect} from '@jest/globals'
+import {Account, AccountAddress, TransactionPayloadEntryFunction} from '@aptos-labs/ts-sdk'
+import {AptosCrossChainOrder} from './aptos-cross-chain-order'
+import {decodeMakerDeposit, findMakerDeposit, signMakerDeposit, verifyMakerDeposit} from './aptos-maker-deposit'
+import {AptosResolver} from './aptos-resolver'
+
+const PACKAGE = '0xdef391b1c8951bf801f67a005f9eba70a5aae6d02eba6bb4889a88288ea806a2'
+const RESOLVER = '0x' + '12'.repeat(32)
+const CHAIN_ID = 2
+const RESOLVER_MODULE = new AptosResolver(PACKAGE, PACKAGE)
+
+describe('Aptos maker deposit', () => {
+    const maker = Account.generate()
+    const order = AptosCrossChainOrder.new(
+        PACKAGE,
+        {
+            maker: maker.accountAddress.toString(),
+            receiver: '0x000000000000000000000000f39fd6e51aad88f6f4ce6ab8827279cfffb92266',
+            makerAsset: '0x1::aptos_coin::AptosCoin',
+            takerAsset: '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48',
+            makingAmount: 100_000_000n,
+            takingAmount: 99_000_000n
+        },
+        {
+            hashLock: '0x' + 'ab'.repeat(32),
+            dstChainId: 1n,
+            srcSafetyDeposit: 1000n,
+            dstSafetyDeposit: 2000n,
+            timeLocks: {
+                srcWithdrawalDelay: 10,
+                srcPublicWithdrawalDelay: 120,
+                srcCancellationDelay: 121,
+                srcPublicCancellationDelay: 122,
+                dstWithdrawalDelay: 10,
+                dstPublicWithdrawalDelay: 100,
+                dstCancellationDelay: 101
+            }
+        },
+        {
+            auction: {
+                gasBumpEstimate: 0,
+                gasPriceEstimate: 0,
+                startTime: 1_700_000_000,
+                duration: 120,
+                initialRateBump: 0,
+                auctionPoints: []
+            },
+            whitelist: [{address: RESOLVER, allowFrom: 0n}]
+        }
+    )
+    const params = {chainId: CHAIN_ID, sequenceNumber: 7n, gasUnitPrice: 100n}
+
+    it('should sign a source escrow deployment co-signed by the resolver, valid until the order deadline', () => {
+        const deposit = signMakerDeposit(maker, order, RESOLVER, RESOLVER_MODULE, params)
+        const {transaction} = decodeMakerDeposit(deposit)
+        const {payload} = transaction.rawTransaction
+
+        expect(transaction.feePayerAddress?.equals(AccountAddress.ZERO)).toBe(true)
+        expect(transaction.secondarySignerAddresses.map((a) => a.toString())).toEqual([RESOLVER])
+        expect(transaction.rawTransaction.sequence_number).toBe(7n)
+        expect(transaction.rawTransaction.expiration_timestamp_secs).toBe(order.deadline)
+        expect((payload as TransactionPayloadEntryFunction).entryFunction.function_name.identifier).toBe(
+            'deploy_src_escrow_from_maker'
+        )
+        expect(verifyMakerDeposit(deposit, order, RESOLVER, CHAIN_ID)).toBe(true)
+
+        expect(() => signMakerDeposit(Account.generate(), order, RESOLVER, RESOLVER_MODULE, params)).toThrow(
+            'can not be signed by'
+        )
+    })
+
+    it('should leave the resolver config and factory types to the maker', () => {
+        const resolverModule = new AptosResolver(PACKAGE, RESOLVER, {
+            feeTokenType: '0x1::string::String',
+            accessTokenType: PACKAGE + '::a::B'
+        })
+
+        expect(
+            verifyMakerDeposit(
+                signMakerDeposit(maker, order, RESOLVER, resolverModule, params),
+                order,
+                RESOLVER,
+                CHAIN_ID
+            )
+        ).toBe(true)
+    })
+
+    it('should reject deposits to other resolvers, chains, makers or orders', () => {
+        const deposit = signMakerDeposit(maker, order, RESOLVER, RESOLVER_MODULE, params)
+        const other = Account.generate()
+        const forged = signMakerDeposit(
+            other,
+            AptosCrossChainOrder.fromJSON({...order.toJSON(), maker: other.accountAddress.toString()}, PACKAGE),
+            RESOLVER,
+            RESOLVER_MODULE,
+            params
+        )
+        const cheaper = signMakerDeposit(
+            maker,
+            AptosCrossChainOrder.fromJSON({...order.toJSON(), makingAmount: '1'}, PACKAGE),
+            RESOLVER,
+            RESOLVER_MODULE,
+            params
+        )
+
+        expect(verifyMakerDeposit(deposit, order, other.accountAddress.toString(), CHAIN_ID)).toBe(false)
+        expect(verifyMakerDeposit(deposit, order, RESOLVER, 1)).toBe(false)
+        expect(
+            verifyMakerDeposit({...deposit, senderAuthenticator: forged.senderAuthenticator}, order, RESOLVER, CHAIN_ID)
+        ).toBe(false)
+        expect(verifyMakerDeposit(cheaper, order, RESOLVER, CHAIN_ID)).toBe(false)
+        expect(verifyMakerDeposit({...deposit, transaction: '0x00'}, order, RESOLVER, CHAIN_ID)).toBe(false)
+    })
+
+    it('should only fund single fill orders', () => {
+        const multipleFills = AptosCrossChainOrder.fromJSON({...order.toJSON(), allowMultipleFills: true}, PACKAGE)
+
+        expect(() => signMakerDeposit(maker, multipleFills, RESOLVER, RESOLVER_MODULE, params)).toThrow(
+            'single fill orders only'
+        )
+    })
+
+    it('should find the deposit of a resolver whatever the address form', () => {
+        const deposit = signMakerDeposit(maker, order, RESOLVER, RESOLVER_MODULE, params)
+
+        expect(findMakerDeposit({[RESOLVER.toUpperCase().replace('0X', '0x')]: deposit}, RESOLVER)).toBe(deposit)
+        expect(findMakerDeposit({[RESOLVER]: deposit}, '0x' + '34'.repeat(32))).toBeUndefined()
+    })
+})
@@ -0,0 +1,218 @@
+import {
+    Account,
+    AccountAddress,
+    AccountAuthenticator,
+    AccountAuthenticatorEd25519,
+    AccountAuthenticatorMultiKey,
+    ChainId,
+    Deserializer,
+    generateSigningMessageForTransaction,
+    generateTransactionPayloadWithABI,
+    Hex,
+    HexInput,
+    MultiAgentTransaction,
+    RawTransaction,
+    TransactionPayloadEntryFunction
+} from '@aptos-labs/ts-sdk'
+import {AptosCrossChainOrder} from './aptos-cross-chain-order'
+import {AptosResolver} from './aptos-resolver'
+
+// resolver::deploy_src_escrow_from_maker funds the source escrow of an Aptos order from the maker account, in the
+// transaction creating it. The maker pre-signs that transaction: next to the order it signs, for each resolver it
+// lets fill, a multi-agent transaction sent by the maker with the resolver account as secondary signer, the fee payer
+// address left 0x0. The resolver claiming the order co-signs it as secondary signer and fee payer and submits it.
+// The transactions share the sequence number of the maker, so at most one of them executes, and none once the maker
+// sends another transaction.
+//
+// Trust assumption: deposits are not secret, the relayer lists them with the order. Without the signature of the
+// resolver account a deposit names, it can not be submitted, and once submitted the making amount only moves into
+// the source escrow of the order, locked on its hashlock. The maker trusts the resolver config it signs for to point
+// to the escrow factory of the order package
+
+const DEFAULT_MAX_GAS_AMOUNT = 100_000n
+
+/**
+ * Source escrow deployment funded by the maker, for one resolver to co-sign, hex encoded BCS
+ */
+export type AptosMakerDeposit = {
+    /**
+     * MultiAgentTransaction with the resolver account as only secondary signer and the fee payer address 0x0
+     */
+    transaction: string
+    /**
+     * AccountAuthenticator of the maker over `transaction`
+     */
+    senderAuthenticator: string
+}
+
+/**
+ * Maker account fields of the deposit transaction, read from chain by the caller
+ */
+export type MakerDepositParams = {
+    /**
+     * Aptos chain id the order is signed for
+     */
+    chainId: number
+    sequenceNumber: bigint
+    gasUnitPrice: bigint
+    /**
+     * Paid by the resolver, default 100000
+     */
+    maxGasAmount?: bigint
+}
+
+/**
+ * Signs the deposit of `order` to `resolver`, valid until the order deadline
+ *
+ * @param resolver account of the resolver owner, the only one which can co-sign the deposit
+ * @param resolverModule resolver config the escrow is deployed through, and the factory types it was initialized with
+ * @throws if `maker` is not the order maker or the order allows multiple fills
+ */
+export function signMakerDeposit(
+    maker: Account,
+    order: AptosCrossChainOrder,
+    resolver: string,
+    resolverModule: AptosResolver,
+    params: MakerDepositParams
+): AptosMakerDeposit {
+    if (!maker.accountAddress.equals(AccountAddress.from(order.maker))) {
+        throw new Error(`Deposit of ${order.maker} can not be signed by ${maker.accountAddress}`)
+    }
+
+    if (order.multipleFillsAllowed) {
+        throw new Error('Maker deposits fund single fill orders only')
+    }
+
+    const transaction = new MultiAgentTransaction(
+        new RawTransaction(
+            maker.accountAddress,
+            params.sequenceNumber,
+            getDepositPayload(order, resolverModule, params.chainId),
+            params.maxGasAmount ?? DEFAULT_MAX_GAS_AMOUNT,
+            params.gasUnitPrice,
+            order.deadline,
+            new ChainId(params.chainId)
+        ),
+        [AccountAddress.from(resolver)],
+        AccountAddress.ZERO
+    )
+
+    return {
+        transaction: transaction.bcsToHex().toString(),
+        senderAuthenticator: maker.signTransactionWithAuthenticator(transaction).bcsToHex().toString()
+    }
+}
+
+export function decodeMakerDeposit(deposit: AptosMakerDeposit): {
+    transaction: MultiAgentTransaction
+    senderAuthenticator: AccountAuthenticator
+} {
+    return {
+        transaction: MultiAgentTransaction.deserialize(new Deserializer(toBytes(deposit.transaction))),
+        senderAuthenticator: AccountAuthenticator.deserialize(new Deserializer(toBytes(deposit.senderAuthenticator)))
+    }
+}
+
+/**
+ * Whether `deposit` deploys the source escrow of `order` on chain `chainId` from the maker account, co-signed by
+ * `resolver` only, and is signed by a key whose account is the order maker.
+ * The resolver config and factory types are the maker's choice, they are read from the deposit
+ */
+export function verifyMakerDeposit(
+    deposit: AptosMakerDeposit,
+    order: AptosCrossChainOrder,
+    resolver: string,
+    chainId: number
+): boolean {
+    let decoded: ReturnType<typeof decodeMakerDeposit>
+    let expectedPayload: TransactionPayloadEntryFunction
+
+    try {
+        decoded = decodeMakerDeposit(deposit)
+        expectedPayload = getDepositPayload(order, readResolverModule(order, decoded.transaction), chainId)
+    } catch {
+        return false
+    }
+
+    const {transaction, senderAuthenticator} = decoded
+    const {rawTransaction, secondarySignerAddresses} = transaction
+
+    if (
+        order.multipleFillsAllowed ||
+        !transaction.feePayerAddress?.equals(AccountAddress.ZERO) ||
+        secondarySignerAddresses.length !== 1 ||
+        !secondarySignerAddresses[0].equals(AccountAddress.from(resolver)) ||
+        !rawTransaction.sender.equals(AccountAddress.from(order.maker)) ||
+        rawTransaction.chain_id.chainId !== chainId ||
+        Hex.fromHexInput(rawTransaction.payload.bcsToBytes()).toString() !==
+            Hex.fromHexInput(expectedPayload.bcsToBytes()).toString()
+    ) {
+        return false
+    }
+
+    const message = generateSigningMessageForTransaction(transaction)
+
+    if (senderAuthenticator instanceof AccountAuthenticatorEd25519) {
+        return (
+            senderAuthenticator.public_key.authKey().derivedAddress().equals(rawTransaction.sender) &&
+            senderAuthenticator.public_key.verifySignature({message, signature: senderAuthenticator.signature})
+        )
+    }
+
+    if (senderAuthenticator instanceof AccountAuthenticatorMultiKey) {
+        return (
+            senderAuthenticator.public_keys.authKey().derivedAddress().equals(rawTransaction.sender) &&
+            senderAuthenticator.public_keys.verifySignature({message, signature: senderAuthenticator.signatures})
+        )
+    }
+
+    return false
+}
+
+/**
+ * Deposit to `resolver` among `deposits`, keyed by resolver address in any of its forms
+ */
+export function findMakerDeposit(
+    deposits: Record<string, AptosMakerDeposit>,
+    resolver: string
+): AptosMakerDeposit | undefined {
+    const address = AccountAddress.from(resolver)
+    const key = Object.keys(deposits).find((k) => AccountAddress.from(k).equals(address))
+
+    return key === undefined ? undefined : deposits[key]
+}
+
+function getDepositPayload(
+    order: AptosCrossChainOrder,
+    resolverModule: AptosResolver,
+    chainId: number
+): TransactionPayloadEntryFunction {
+    const args = order.toSrcEscrowArgs({proof: [], idx: 0n, secretHash: order.escrowExtension.hashLockInfo})
+
+    return generateTransactionPayloadWithABI(resolverModule.deploySrcFromMaker(order.toOrderData(chainId), args))
+}
+
+// Resolver config address and factory types the maker signed the deposit for
+function readResolverModule(order: AptosCrossChainOrder, transaction: MultiAgentTransaction): AptosResolver {
+    const {payload} = transaction.rawTransaction
+
+    if (!(payload instanceof TransactionPayloadEntryFunction)) {
+        throw new Error('Deposit is not an entry function call')
+    }
+
+    const {args, type_args} = payload.entryFunction
+
+    if (type_args.length !== 3) {
+        throw new Error('Deposit is not a deploy_src_escrow_from_maker call')
+    }
+
+    return new AptosResolver(
+        order.verifyingPackage,
+        AccountAddress.deserialize(new Deserializer(args[0].bcsToBytes())).toString(),
+        {feeTokenType: type_args[1].toString(), accessTokenType: type_args[2].toString()}
+    )
+}
+
+function toBytes(value: HexInput): Uint8Array {
+    return Hex.fromHexInput(value).toUint8Array()
+}
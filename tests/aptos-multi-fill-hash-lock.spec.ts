@@ -0,0 +1,104 @@
+import {expect} from '@jest/globals'
+import {uint8ArrayToHex} from '@1inch/byte-utils'
+import sha3 from 'js-sha3'
+import {AptosMultiFillHashLock, getSecretIndex, isValidPartialFill} from './aptos-multi-fill-hash-lock'
+
+// Vectors from exclude/merkle_validator_test.move
+
+// Move byte string literal b"..."
+const b = (s: string): Uint8Array => new TextEncoder().encode(s)
+
+const sha3Hex = (...parts: Uint8Array[]): string => '0x' + sha3.sha3_256(Buffer.concat(parts))
+
+describe('Aptos multiple fills hashlock', () => {
+    it('should hash bcs(u64 idx) || secret hash into a leaf', () => {
+        const secretHash = b('test_secret_hash_32_bytes_long!!')
+
+        expect(AptosMultiFillHashLock.getLeaf(0, secretHash)).toBe(sha3Hex(new Uint8Array(8), secretHash))
+        expect(AptosMultiFillHashLock.getLeaf(5, secretHash)).toBe(
+            sha3Hex(new Uint8Array([5, 0, 0, 0, 0, 0, 0, 0]), secretHash)
+        )
+    })
+
+    it('should hash secrets like verify_secret_hash', () => {
+        expect(AptosMultiFillHashLock.hashSecret(b('my_secret_password'))).toBe(sha3Hex(b('my_secret_password')))
+    })
+
+    it('should process proofs with sorted pairs', () => {
+        expect(AptosMultiFillHashLock.processProof([], b('test_leaf_data'))).toBe(uint8ArrayToHex(b('test_leaf_data')))
+        expect(AptosMultiFillHashLock.processProof([b('sibling_hash')], b('test_leaf'))).toBe(
+            sha3Hex(b('sibling_hash'), b('test_leaf'))
+        )
+        expect(AptosMultiFillHashLock.processProof([b('identical_data')], b('identical_data'))).toBe(
+            sha3Hex(b('identical_data'), b('identical_data'))
+        )
+        // A common prefix sorts the shorter vector first
+        expect(AptosMultiFillHashLock.processProof([b('short_and_long')], b('short'))).toBe(
+            sha3Hex(b('short'), b('short_and_long'))
+        )
+        expect(AptosMultiFillHashLock.processProof([b('sibling_1'), b('sibling_2')], b('test_leaf'))).toBe(
+            AptosMultiFillHashLock.processProof([b('sibling_2')], sha3Hex(b('sibling_1'), b('test_leaf')))
+        )
+    })
+
+    it('should build proofs for every secret', () => {
+        for (const partsCount of [2, 3, 4, 7]) {
+            const hashLock = AptosMultiFillHashLock.new(partsCount)
+
+            expect(hashLock.secrets).toHaveLength(partsCount + 1)
+
+            hashLock.secrets.forEach((_, idx) => {
+                const {proof, secretHash} = hashLock.getTakerData(idx)
+                const leaf = AptosMultiFillHashLock.getLeaf(idx, secretHash)
+
+                expect(AptosMultiFillHashLock.processProof(proof, leaf)).toBe(hashLock.root)
+            })
+        }
+    })
+
+    it('should pass the shortened root and the parts count as hashlock_info', () => {
+        const hashLock = AptosMultiFillHashLock.new(4)
+
+        expect(hashLock.rootShortened).toBe(hashLock.root.slice(0, 2 + 60))
+        expect(hashLock.hashlockInfo).toBe(hashLock.rootShortened + '0004')
+        expect(AptosMultiFillHashLock.getPartsCount(hashLock.hashlockInfo)).toBe(4n)
+    })
+
+    it('should read the parts count like extract_parts_amount', () => {
+        const info = new Uint8Array(32)
+        info[30] = 1
+        info[31] = 2
+
+        expect(AptosMultiFillHashLock.getPartsCount(info)).toBe(258n)
+        expect(AptosMultiFillHashLock.getPartsCount(b('short_root'))).toBe(1n)
+    })
+
+    it('should reject orders with less than 2 parts', () => {
+        expect(() => AptosMultiFillHashLock.new(1)).toThrow('need 2 to 65535 parts')
+        expect(() => AptosMultiFillHashLock.new(0x10000)).toThrow('need 2 to 65535 parts')
+        expect(() => AptosMultiFillHashLock.new(2).getProof(3)).toThrow('out of range')
+    })
+
+    it('should validate partial fills like is_valid_partial_fill', () => {
+        expect(isValidPartialFill(100n, 100n, 1000n, 0n, 1n)).toBe(false)
+        expect(isValidPartialFill(100n, 100n, 0n, 4n, 1n)).toBe(false)
+        // Completion uses the extra last secret
+        expect(isValidPartialFill(1000n, 1000n, 1000n, 4n, 5n)).toBe(true)
+        expect(isValidPartialFill(1000n, 1000n, 1000n, 4n, 4n)).toBe(false)
+        expect(isValidPartialFill(250n, 500n, 1000n, 4n, 3n)).toBe(true)
+        // Both fills end in the same part
+        expect(isValidPartialFill(100n, 900n, 1000n, 4n, 1n)).toBe(false)
+        expect(isValidPartialFill(250n, 1000n, 1000n, 4n, 1n)).toBe(true)
+        expect(isValidPartialFill(250n, 1000n, 1000n, 4n, 2n)).toBe(false)
+    })
+
+    it('should pick the secret of the part a fill ends in', () => {
+        expect(getSecretIndex(25n, 100n, 100n, 4n)).toBe(0)
+        expect(getSecretIndex(25n, 75n, 100n, 4n)).toBe(1)
+        // Completion uses the extra last secret
+        expect(getSecretIndex(50n, 50n, 100n, 4n)).toBe(4)
+        expect(getSecretIndex(100n, 100n, 100n, 4n)).toBe(4)
+        expect(() => getSecretIndex(10n, 90n, 100n, 4n)).toThrow('same part')
+        expect(() => getSecretIndex(60n, 50n, 100n, 4n)).toThrow('Can not fill')
+    })
+})
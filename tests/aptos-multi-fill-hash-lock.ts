@@ -0,0 +1,249 @@
+import {Hex, HexInput, Serializer} from '@aptos-labs/ts-sdk'
+import {uint8ArrayToHex} from '@1inch/byte-utils'
+import {randomBytes} from 'ethers'
+import sha3 from 'js-sha3'
+import {TakerData} from './aptos-types'
+
+// Bytes of the root merkle_validator keys the validated secrets by
+const ROOT_SHORTENED_LENGTH = 30
+
+// escrow_factory::extract_parts_amount reads the parts count from the 2 bytes after the shortened root
+const MAX_PARTS_COUNT = 0xffff
+
+/**
+ * Secrets and merkle tree of an order fillable in parts on Aptos, in the format of merkle_validator.move:
+ * leaves are sha3_256(bcs(u64 idx) || sha3_256(secret)), nodes are sha3_256 of the sorted pair.
+ *
+ * Unlike Sdk.HashLock.forMultipleFills, which hashes with keccak256 for EVM
+ */
+export class AptosMultiFillHashLock {
+    /**
+     * Tree levels from the leaves up to the root, a node without sibling is moved up as is
+     */
+    private readonly levels: Uint8Array[][]
+
+    private constructor(public readonly secrets: string[]) {
+        const leaves = secrets.map((s, idx) =>
+            AptosMultiFillHashLock.getLeaf(idx, AptosMultiFillHashLock.hashSecret(s))
+        )
+        this.levels = [leaves.map(toBytes)]
+
+        while (this.levels[this.levels.length - 1].length > 1) {
+            const level = this.levels[this.levels.length - 1]
+            const next: Uint8Array[] = []
+
+            for (let i = 0; i < level.length; i += 2) {
+                next.push(i + 1 < level.length ? hashPair(level[i], level[i + 1]) : level[i])
+            }
+
+            this.levels.push(next)
+        }
+    }
+
+    get partsCount(): bigint {
+        return BigInt(this.secrets.length - 1)
+    }
+
+    get secretHashes(): string[] {
+        return this.secrets.map((s) => AptosMultiFillHashLock.hashSecret(s))
+    }
+
+    get root(): string {
+        return uint8ArrayToHex(this.levels[this.levels.length - 1][0])
+    }
+
+    /**
+     * SrcEscrowArgs.hashlock_info: the shortened root followed by `partsCount` as big-endian u16,
+     * the Aptos layout of the Solidity parts count in the top 16 bits
+     */
+    get hashlockInfo(): string {
+        const info = new Uint8Array(ROOT_SHORTENED_LENGTH + 2)
+        info.set(toBytes(this.rootShortened))
+        new DataView(info.buffer).setUint16(ROOT_SHORTENED_LENGTH, Number(this.partsCount))
+
+        return uint8ArrayToHex(info)
+    }
+
+    /**
+     * First 30 bytes of the root, merkle_validator::LastValidated is stored under it
+     */
+    get rootShortened(): string {
+        return uint8ArrayToHex(toBytes(this.root).subarray(0, ROOT_SHORTENED_LENGTH))
+    }
+
+    /**
+     * Order fillable in `partsCount` parts, which takes `partsCount + 1` secrets
+     */
+    static new(partsCount: number): AptosMultiFillHashLock {
+        if (!Number.isInteger(partsCount) || partsCount < 2 || partsCount > MAX_PARTS_COUNT) {
+            throw new Error(`Multiple fills need 2 to ${MAX_PARTS_COUNT} parts, got ${partsCount}`)
+        }
+
+        return AptosMultiFillHashLock.fromSecrets(
+            Array.from({length: partsCount + 1}, () => uint8ArrayToHex(randomBytes(32)))
+        )
+    }
+
+    static fromSecrets(secrets: string[]): AptosMultiFillHashLock {
+        if (secrets.length < 3 || secrets.length > MAX_PARTS_COUNT + 1) {
+            throw new Error(`Multiple fills need 3 to ${MAX_PARTS_COUNT + 1} secrets, got ${secrets.length}`)
+        }
+
+        return new AptosMultiFillHashLock(secrets)
+    }
+
+    /**
+     * sha3_256(secret), as checked by merkle_validator::verify_secret_hash and escrow_core::withdraw
+     */
+    static hashSecret(secret: HexInput): string {
+        return uint8ArrayToHex(sha3256(toBytes(secret)))
+    }
+
+    /**
+     * merkle_validator::calculate_leaf
+     */
+    static getLeaf(idx: number | bigint, secretHash: HexInput): string {
+        const serializer = new Serializer()
+        serializer.serializeU64(idx)
+        serializer.serializeFixedBytes(toBytes(secretHash))
+
+        return uint8ArrayToHex(sha3256(serializer.toUint8Array()))
+    }
+
+    /**
+     * merkle_validator::process_proof
+     */
+    static processProof(proof: HexInput[], leaf: HexInput): string {
+        return uint8ArrayToHex(proof.reduce<Uint8Array>((node, p) => hashPair(node, toBytes(p)), toBytes(leaf)))
+    }
+
+    /**
+     * escrow_factory::extract_parts_amount: big-endian u16 in the last 2 bytes, 1 for a single fill hashlock
+     */
+    static getPartsCount(hashlockInfo: HexInput): bigint {
+        const bytes = toBytes(hashlockInfo)
+
+        if (bytes.length < 32) {
+            return 1n
+        }
+
+        return BigInt(new DataView(bytes.buffer, bytes.byteOffset + bytes.length - 2).getUint16(0))
+    }
+
+    public getProof(idx: number): string[] {
+        this.assertIndex(idx)
+
+        const proof: string[] = []
+
+        for (let level = 0, i = idx; level < this.levels.length - 1; level++, i >>= 1) {
+            const sibling = this.levels[level][i ^ 1]
+
+            if (sibling) {
+                proof.push(uint8ArrayToHex(sibling))
+            }
+        }
+
+        return proof
+    }
+
+    public getTakerData(idx: number): TakerData {
+        this.assertIndex(idx)
+
+        return {proof: this.getProof(idx), idx: BigInt(idx), secretHash: this.secretHashes[idx]}
+    }
+
+    private assertIndex(idx: number): void {
+        if (!Number.isInteger(idx) || idx < 0 || idx >= this.secrets.length) {
+            throw new Error(`Secret index ${idx} out of range, the order has ${this.secrets.length} secrets`)
+        }
+    }
+}
+
+/**
+ * merkle_validator::is_valid_partial_fill
+ *
+ * @param validatedIndex index of the last validated secret plus one
+ */
+export function isValidPartialFill(
+    makingAmount: bigint,
+    remainingMakingAmount: bigint,
+    orderMakingAmount: bigint,
+    partsAmount: bigint,
+    validatedIndex: bigint
+): boolean {
+    if (partsAmount === 0n || orderMakingAmount === 0n) {
+        return false
+    }
+
+    const calculatedIndex =
+        ((orderMakingAmount - remainingMakingAmount + makingAmount - 1n) * partsAmount) / orderMakingAmount
+
+    if (remainingMakingAmount === makingAmount) {
+        // Order filled to completion, the extra last secret must be used
+        return calculatedIndex + 2n === validatedIndex
+    } else if (orderMakingAmount !== remainingMakingAmount) {
+        const prevCalculatedIndex = ((orderMakingAmount - remainingMakingAmount - 1n) * partsAmount) / orderMakingAmount
+
+        if (calculatedIndex === prevCalculatedIndex) {
+            return false
+        }
+    }
+
+    return calculatedIndex + 1n === validatedIndex
+}
+
+/**
+ * Index of the secret a fill of `makingAmount` must use, the one is_valid_partial_fill accepts:
+ * the part the fill ends in, or the extra last secret when it completes the order
+ *
+ * @throws if the previous fill already ended in the same part, such a fill can not be made
+ */
+export function getSecretIndex(
+    makingAmount: bigint,
+    remainingMakingAmount: bigint,
+    orderMakingAmount: bigint,
+    partsAmount: bigint
+): number {
+    if (makingAmount <= 0n || makingAmount > remainingMakingAmount || remainingMakingAmount > orderMakingAmount) {
+        throw new Error(`Can not fill ${makingAmount} out of ${remainingMakingAmount} left of ${orderMakingAmount}`)
+    }
+
+    const calculatedIndex =
+        ((orderMakingAmount - remainingMakingAmount + makingAmount - 1n) * partsAmount) / orderMakingAmount
+    const idx = remainingMakingAmount === makingAmount ? calculatedIndex + 1n : calculatedIndex
+
+    if (!isValidPartialFill(makingAmount, remainingMakingAmount, orderMakingAmount, partsAmount, idx + 1n)) {
+        throw new Error(`Fill of ${makingAmount} ends in the same part as the previous fill`)
+    }
+
+    return Number(idx)
+}
+
+// merkle_validator::commutative_keccak256, which hashes with sha3_256 despite its name
+function hashPair(a: Uint8Array, b: Uint8Array): Uint8Array {
+    const [first, second] = isLessThan(a, b) ? [a, b] : [b, a]
+    const combined = new Uint8Array(first.length + second.length)
+    combined.set(first)
+    combined.set(second, first.length)
+
+    return sha3256(combined)
+}
+
+// merkle_validator::is_less_than, lexicographic with the shorter vector first on a common prefix
+function isLessThan(a: Uint8Array, b: Uint8Array): boolean {
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+        if (a[i] !== b[i]) {
+            return a[i] < b[i]
+        }
+    }
+
+    return a.length < b.length
+}
+
+function toBytes(hex: HexInput): Uint8Array {
+    return Hex.fromHexInput(hex).toUint8Array()
+}
+
+function sha3256(data: Uint8Array): Uint8Array {
+    return new Uint8Array(sha3.sha3_256.arrayBuffer(data))
+}
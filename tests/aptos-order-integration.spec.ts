@@ -0,0 +1,119 @@
+import {expect} from '@jest/globals'
+import {Hex} from '@aptos-labs/ts-sdk'
+import Sdk from '@1inch/cross-chain-sdk'
+import {hexlify} from 'ethers'
+import {
+    decodeAuctionExtraData,
+    decodeExtensionData,
+    decodeSrcExtraData,
+    encodeAuctionExtraData,
+    encodeExtensionData,
+    encodeSrcExtraData,
+    fromExtensionData,
+    getExtensionDataArgs,
+    SRC_EXTRA_DATA_LENGTH,
+    toExtensionData
+} from './aptos-order-integration'
+import {SafetyDeposits} from './safety-deposits'
+
+describe('order_integration extra data', () => {
+    const data = {
+        orderHash: '0x' + '11'.repeat(32),
+        hashlockInfo: '0x' + '22'.repeat(32),
+        dstChainId: 11155111n,
+        dstToken: '0xa0b86991c6218b36c1d19d4a2e9eb0',
+        deposits: SafetyDeposits.new(50_000_000n, 10n ** 15n).pack()
+    }
+
+    it('should encode the source escrow args at the offsets Move reads them', () => {
+        const bytes = Hex.fromHexInput(encodeSrcExtraData(data)).toUint8Array()
+        const view = new DataView(bytes.buffer)
+
+        expect(bytes.length).toBe(SRC_EXTRA_DATA_LENGTH)
+        expect(bytes[0]).toBe(0x11)
+        expect(bytes[32]).toBe(0x22)
+        expect(view.getBigUint64(64, true)).toBe(data.dstChainId)
+        expect(new TextDecoder().decode(bytes.slice(72, 104))).toBe(data.dstToken)
+        expect(view.getBigUint64(104, true)).toBe(10n ** 15n)
+        expect(view.getBigUint64(112, true)).toBe(50_000_000n)
+
+        expect(decodeSrcExtraData(bytes)).toEqual(data)
+        expect(decodeSrcExtraData(encodeSrcExtraData({...data, dstToken: 'USDC'})).dstToken).toBe('USDC')
+    })
+
+    it('should reject what Move can not parse', () => {
+        const encoded = encodeSrcExtraData(data)
+
+        expect(() => decodeSrcExtraData(encoded.slice(0, -2))).toThrow('159 bytes, at least 160 expected')
+        expect(() => encodeSrcExtraData({...data, dstToken: data.dstToken + '0'})).toThrow('longer than 32 bytes')
+        expect(() => encodeSrcExtraData({...data, orderHash: '0x11'})).toThrow('Invalid order hash')
+    })
+
+    it('should round trip the auction config', () => {
+        const config = {
+            gasBumpEstimate: 56,
+            gasPriceEstimate: 1000,
+            startTime: 1_700_000_000,
+            duration: 3600,
+            initialRateBump: 50_000,
+            auctionPoints: []
+        }
+        const encoded = encodeAuctionExtraData(config)
+
+        expect(encoded).toBe('0x38000000e803000000f15365100e000050c30000')
+        expect(decodeAuctionExtraData(encoded)).toEqual(config)
+        expect(decodeAuctionExtraData(encoded + 'ff')).toEqual(config)
+
+        expect(() => decodeAuctionExtraData(encoded.slice(0, -2))).toThrow('19 bytes, at least 20 expected')
+        expect(() => encodeAuctionExtraData({...config, auctionPoints: [{rateBump: 1, timeDelta: 1}]})).toThrow(
+            'can not carry 1 auction points'
+        )
+    })
+
+    it('should carry the extension of a cross-chain order', () => {
+        const order = Sdk.CrossChainOrder.new(
+            new Sdk.Address('0x0000000000000000000000000000000000000001'),
+            {
+                maker: new Sdk.Address('0x00000000000000000000000000000000000000bb'),
+                makingAmount: 100n,
+                takingAmount: 99n,
+                makerAsset: new Sdk.Address('0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48'),
+                takerAsset: new Sdk.Address('0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48')
+            },
+            {
+                hashLock: Sdk.HashLock.forSingleFill(Sdk.HashLock.hashSecret('0x' + '11'.repeat(32))),
+                timeLocks: Sdk.TimeLocks.new({
+                    srcWithdrawal: 10n,
+                    srcPublicWithdrawal: 120n,
+                    srcCancellation: 121n,
+                    srcPublicCancellation: 122n,
+                    dstWithdrawal: 10n,
+                    dstPublicWithdrawal: 100n,
+                    dstCancellation: 101n
+                }),
+                srcChainId: Sdk.NetworkEnum.ETHEREUM,
+                dstChainId: Sdk.NetworkEnum.COINBASE,
+                srcSafetyDeposit: 1n,
+                dstSafetyDeposit: 1n
+            },
+            {
+                auction: new Sdk.AuctionDetails({initialRateBump: 0, points: [], duration: 120n, startTime: 1n}),
+                whitelist: [{address: new Sdk.Address('0x00000000000000000000000000000000000000aa'), allowFrom: 0n}],
+                resolvingStartTime: 0n
+            },
+            {nonce: 1n, allowPartialFills: false, allowMultipleFills: false}
+        )
+        const extensionData = toExtensionData(order.extension)
+        const args = getExtensionDataArgs(extensionData)
+
+        expect(args).toHaveLength(9)
+        expect(hexlify(args[7])).toBe(order.extension.postInteraction)
+        expect(extensionData.makingAmountData).toBe(order.extension.makingAmountData)
+        expect(extensionData.makerPermit).toBe('0x')
+
+        expect(decodeExtensionData(encodeExtensionData(extensionData))).toEqual(extensionData)
+        expect(fromExtensionData(extensionData).encode()).toBe(order.extension.encode())
+        expect(fromExtensionData(extensionData).keccak256()).toBe(order.extension.keccak256())
+        expect(() => decodeExtensionData(encodeExtensionData(extensionData) + '00')).toThrow('Unexpected 1 bytes')
+    })
+})
@@ -0,0 +1,240 @@
+import {Deserializer, Hex, HexInput, Serializer} from '@aptos-labs/ts-sdk'
+import Sdk from '@1inch/cross-chain-sdk'
+import {getBytes, hexlify} from 'ethers'
+import {AuctionConfig} from './aptos-types'
+
+// Packed blobs of order_integration.move, the hooks a limit order protocol calls on Aptos. post_interaction reads
+// the source escrow arguments from `extra_data` with parse_extra_data_to_src_args, little-endian integers at fixed
+// offsets:
+//
+// | offset | bytes | field                                               |
+// |--------|-------|-----------------------------------------------------|
+// | 0      | 32    | order_hash                                          |
+// | 32     | 32    | hashlock_info                                       |
+// | 64     | 8     | dst_chain_id, u64                                   |
+// | 72     | 32    | dst_token, utf8 right-padded with zero bytes        |
+// | 104    | 16    | deposits, u128, see SafetyDeposits                  |
+// | 120    | 40    | unused, the blob is at least SRC_IMMUTABLES_LENGTH  |
+//
+// The other fields of SrcEscrowArgs take the module defaults. parse_auction_config_from_extra_data reads its own
+// blob of five u32 at offsets 0 to 16, in the field order of AuctionConfig, and no auction points
+
+// order_integration::ExtensionData holds the parts of the 1inch order extension, one byte vector each, so the
+// extension a maker signs on EVM reaches the Aptos hooks unchanged. The fields of ExtensionData are in the order of
+// new_extension_data and of the struct
+
+export const SRC_EXTRA_DATA_LENGTH = 160
+
+export const AUCTION_EXTRA_DATA_LENGTH = 20
+
+const HASH_LENGTH = 32
+
+const DST_TOKEN_LENGTH = 32
+
+/**
+ * order_integration::ExtensionData, hex encoded
+ */
+export type ExtensionData = {
+    makerAssetSuffix: string
+    takerAssetSuffix: string
+    makingAmountData: string
+    takingAmountData: string
+    predicate: string
+    makerPermit: string
+    preInteractionData: string
+    postInteractionData: string
+    customData: string
+}
+
+// Field of Sdk.Extension holding each ExtensionData field
+const EXTENSION_FIELDS = {
+    makerAssetSuffix: 'makerAssetSuffix',
+    takerAssetSuffix: 'takerAssetSuffix',
+    makingAmountData: 'makingAmountData',
+    takingAmountData: 'takingAmountData',
+    predicate: 'predicate',
+    makerPermit: 'makerPermit',
+    preInteractionData: 'preInteraction',
+    postInteractionData: 'postInteraction',
+    customData: 'customData'
+} as const satisfies Record<keyof ExtensionData, keyof typeof Sdk.Extension.EMPTY>
+
+const EXTENSION_DATA_FIELDS = Object.keys(EXTENSION_FIELDS) as (keyof ExtensionData)[]
+
+/**
+ * Fields of escrow_factory::SrcEscrowArgs carried by the `extra_data` of order_integration::post_interaction
+ */
+export type SrcExtraData = {
+    orderHash: string
+    /**
+     * Secret hash, or merkle root with the parts count for multiple fills
+     */
+    hashlockInfo: string
+    dstChainId: bigint
+    /**
+     * At most 32 utf8 bytes
+     */
+    dstToken: string
+    /**
+     * src_safety_deposit << 64 | dst_safety_deposit, see SafetyDeposits
+     */
+    deposits: bigint
+}
+
+/**
+ * @throws if a hash is not 32 bytes or the destination token longer than 32 bytes
+ */
+export function encodeSrcExtraData(data: SrcExtraData): string {
+    const dstToken = new TextEncoder().encode(data.dstToken)
+
+    if (dstToken.length > DST_TOKEN_LENGTH) {
+        throw new Error(`Destination token ${data.dstToken} is longer than ${DST_TOKEN_LENGTH} bytes`)
+    }
+
+    const serializer = new Serializer()
+    serializer.serializeFixedBytes(toHash(data.orderHash, 'order hash'))
+    serializer.serializeFixedBytes(toHash(data.hashlockInfo, 'hashlock info'))
+    serializer.serializeU64(data.dstChainId)
+    serializer.serializeFixedBytes(padEnd(dstToken, DST_TOKEN_LENGTH))
+    serializer.serializeU128(data.deposits)
+
+    return Hex.fromHexInput(padEnd(serializer.toUint8Array(), SRC_EXTRA_DATA_LENGTH)).toString()
+}
+
+/**
+ * Reads `extraData` as parse_extra_data_to_src_args does. The zero bytes padding the destination token are dropped,
+ * the Move string keeps them
+ *
+ * @throws if `extraData` is shorter than 160 bytes, E_INVALID_EXTRA_DATA on chain, or the token is not utf8
+ */
+export function decodeSrcExtraData(extraData: HexInput): SrcExtraData {
+    const deserializer = new Deserializer(toBytes(extraData, SRC_EXTRA_DATA_LENGTH))
+    const orderHash = Hex.fromHexInput(deserializer.deserializeFixedBytes(HASH_LENGTH)).toString()
+    const hashlockInfo = Hex.fromHexInput(deserializer.deserializeFixedBytes(HASH_LENGTH)).toString()
+    const dstChainId = deserializer.deserializeU64()
+    const dstToken = new TextDecoder('utf-8', {fatal: true})
+        .decode(deserializer.deserializeFixedBytes(DST_TOKEN_LENGTH))
+        .replace(/\0+$/, '')
+    const deposits = deserializer.deserializeU128()
+
+    return {orderHash, hashlockInfo, dstChainId, dstToken, deposits}
+}
+
+/**
+ * @throws if the config has auction points, the blob has no room for them
+ */
+export function encodeAuctionExtraData(config: AuctionConfig): string {
+    if (config.auctionPoints.length !== 0) {
+        throw new Error(`Auction extra data can not carry ${config.auctionPoints.length} auction points`)
+    }
+
+    const serializer = new Serializer()
+    serializer.serializeU32(config.gasBumpEstimate)
+    serializer.serializeU32(config.gasPriceEstimate)
+    serializer.serializeU32(config.startTime)
+    serializer.serializeU32(config.duration)
+    serializer.serializeU32(config.initialRateBump)
+
+    return Hex.fromHexInput(serializer.toUint8Array()).toString()
+}
+
+/**
+ * Reads `extraData` as parse_auction_config_from_extra_data does, bytes after the fifth u32 are ignored
+ *
+ * @throws if `extraData` is shorter than 20 bytes
+ */
+export function decodeAuctionExtraData(extraData: HexInput): AuctionConfig {
+    const deserializer = new Deserializer(toBytes(extraData, AUCTION_EXTRA_DATA_LENGTH))
+
+    return {
+        gasBumpEstimate: deserializer.deserializeU32(),
+        gasPriceEstimate: deserializer.deserializeU32(),
+        startTime: deserializer.deserializeU32(),
+        duration: deserializer.deserializeU32(),
+        initialRateBump: deserializer.deserializeU32(),
+        auctionPoints: []
+    }
+}
+
+/**
+ * Splits `extension`, for instance Sdk.CrossChainOrder.extension, into the vectors of the Aptos hooks
+ */
+export function toExtensionData(extension: Sdk.Extension): ExtensionData {
+    return mapExtensionFields((field) => hexlify(extension[EXTENSION_FIELDS[field]]))
+}
+
+/**
+ * Extension the EVM limit order protocol takes for `data`, its keccak256 is the one the order salt commits to
+ */
+export function fromExtensionData(data: ExtensionData): Sdk.Extension {
+    const fields = {...Sdk.Extension.EMPTY}
+
+    EXTENSION_DATA_FIELDS.forEach((field) => {
+        fields[EXTENSION_FIELDS[field]] = hexlify(data[field])
+    })
+
+    return new Sdk.Extension(fields)
+}
+
+/**
+ * Arguments of order_integration::new_extension_data, in its parameter order
+ */
+export function getExtensionDataArgs(data: ExtensionData): Uint8Array[] {
+    return EXTENSION_DATA_FIELDS.map((field) => getBytes(data[field]))
+}
+
+/**
+ * BCS bytes of order_integration::ExtensionData, nine vector<u8>
+ */
+export function encodeExtensionData(data: ExtensionData): string {
+    const serializer = new Serializer()
+    getExtensionDataArgs(data).forEach((bytes) => serializer.serializeBytes(bytes))
+
+    return Hex.fromHexInput(serializer.toUint8Array()).toString()
+}
+
+/**
+ * @throws if `encoded` is not one encodeExtensionData output
+ */
+export function decodeExtensionData(encoded: HexInput): ExtensionData {
+    const deserializer = new Deserializer(Hex.fromHexInput(encoded).toUint8Array())
+    const data = mapExtensionFields(() => hexlify(deserializer.deserializeBytes()))
+
+    if (deserializer.remaining() !== 0) {
+        throw new Error(`Unexpected ${deserializer.remaining()} bytes after the extension data`)
+    }
+
+    return data
+}
+
+// Builds the fields in their Move order, which decodeExtensionData relies on
+function mapExtensionFields(getField: (field: keyof ExtensionData) => string): ExtensionData {
+    return Object.fromEntries(EXTENSION_DATA_FIELDS.map((field) => [field, getField(field)])) as ExtensionData
+}
+
+function toBytes(extraData: HexInput, minLength: number): Uint8Array {
+    const bytes = Hex.fromHexInput(extraData).toUint8Array()
+
+    if (bytes.length < minLength) {
+        throw new Error(`Invalid extra data: ${bytes.length} bytes, at least ${minLength} expected`)
+    }
+
+    return bytes
+}
+
+function toHash(value: string, name: string): Uint8Array {
+    const bytes = Hex.fromHexInput(value).toUint8Array()
+
+    if (bytes.length !== HASH_LENGTH) {
+        throw new Error(`Invalid ${name} ${value}, expected ${HASH_LENGTH} bytes`)
+    }
+
+    return bytes
+}
+
+function padEnd(bytes: Uint8Array, length: number): Uint8Array {
+    const padded = new Uint8Array(Math.max(length, bytes.length))
+    padded.set(bytes)
+
+    return padded
+}
@@ -0,0 +1,122 @@
+import {expect} from '@jest/globals'
+import {
+    Account,
+    Ed25519PrivateKey,
+    Ed25519PublicKey,
+    Ed25519Signature,
+    MultiKeyAccount,
+    SigningSchemeInput
+} from '@aptos-labs/ts-sdk'
+import {
+    AptosCrossChainOrderData,
+    AptosOrderDomain,
+    getAptosOrderHash,
+    getAptosOrderMessage,
+    signAptosOrder,
+    verifyAptosOrderSignature
+} from './aptos-order-signing'
+
+const domain: AptosOrderDomain = {
+    chainId: 2,
+    verifyingPackage: '0xdef391b1c8951bf801f67a005f9eba70a5aae6d02eba6bb4889a88288ea806a2'
+}
+
+const maker = Account.fromPrivateKey({
+    privateKey: new Ed25519PrivateKey('ed25519-priv-0x8cb2e0a4b5a1c7e8ab6f4cbd1b7fe2a3e3d9a1f0c2b4d6e8f0a1b3c5d7e9f1a3')
+})
+
+function newOrder(makerAddress: string): AptosCrossChainOrderData {
+    return {
+        salt: 42n,
+        maker: makerAddress,
+        receiver: '0x000000000000000000000000f39fd6e51aad88f6f4ce6ab8827279cfffb92266',
+        makerAsset: '0x1::aptos_coin::AptosCoin',
+        takerAsset: '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48',
+        makingAmount: 100_000_000n,
+        takingAmount: 99_000_000n,
+        hashlockInfo: '0x' + 'ab'.repeat(32),
+        dstChainId: 1n,
+        deposits: (1000n << 64n) | 2000n,
+        timelocks: {
+            srcWithdrawalDelay: 10,
+            srcPublicWithdrawalDelay: 120,
+            srcCancellationDelay: 121,
+            srcPublicCancellationDelay: 122,
+            dstWithdrawalDelay: 10,
+            dstPublicWithdrawalDelay: 100,
+            dstCancellationDelay: 101
+        },
+        auctionConfig: {
+            gasBumpEstimate: 0,
+            gasPriceEstimate: 0,
+            startTime: 1_700_000_000,
+            duration: 120,
+            initialRateBump: 1000,
+            auctionPoints: [{rateBump: 500, timeDelta: 60}]
+        },
+        whitelist: [{address: '0x' + '12'.repeat(32), allowFrom: 1_700_000_000n}],
+        nonce: 1n,
+        expiry: 1_700_003_600n,
+        allowPartialFills: false,
+        allowMultipleFills: false
+    }
+}
+
+describe('Aptos order signing', () => {
+    const order = newOrder(maker.accountAddress.toString())
+
+    it('should hash the same order to the same hash, bound to its domain', () => {
+        const hash = getAptosOrderHash(order, domain)
+
+        expect(getAptosOrderHash(newOrder(maker.accountAddress.toString()), domain)).toBe(hash)
+        expect(getAptosOrderHash({...order, nonce: 2n}, domain)).not.toBe(hash)
+        expect(getAptosOrderHash(order, {...domain, chainId: 1})).not.toBe(hash)
+        expect(hash).toMatch(/^0x[0-9a-f]{64}$/)
+    })
+
+    it('should sign with Ed25519 over the raw message, as aptos_std::ed25519 checks it', () => {
+        const signature = signAptosOrder(maker, order, domain)
+
+        expect(signature.scheme).toBe('ed25519')
+        expect(verifyAptosOrderSignature(order, domain, signature)).toBe(true)
+        expect(
+            new Ed25519PublicKey(signature.publicKey).verifySignature({
+                message: getAptosOrderMessage(order, domain),
+                signature: new Ed25519Signature(signature.signature)
+            })
+        ).toBe(true)
+    })
+
+    it('should reject a changed order or a key of another account', () => {
+        const signature = signAptosOrder(maker, order, domain)
+        const other = Account.generate()
+
+        expect(verifyAptosOrderSignature({...order, takingAmount: 1n}, domain, signature)).toBe(false)
+        expect(verifyAptosOrderSignature(order, {...domain, chainId: 1}, signature)).toBe(false)
+        expect(
+            verifyAptosOrderSignature(order, domain, {
+                ...signAptosOrder(other, newOrder(other.accountAddress.toString()), domain),
+                signature: signature.signature
+            })
+        ).toBe(false)
+        expect(() => signAptosOrder(other, order, domain)).toThrow('can not be signed by')
+    })
+
+    it('should sign with a multi-key account', () => {
+        const signer = Account.generate({scheme: SigningSchemeInput.Secp256k1Ecdsa})
+        const multiKey = MultiKeyAccount.fromPublicKeysAndSigners({
+            publicKeys: [
+                Account.generate({scheme: SigningSchemeInput.Ed25519, legacy: false}).publicKey,
+                signer.publicKey
+            ],
+            signaturesRequired: 1,
+            signers: [signer]
+        })
+        const multiKeyOrder = newOrder(multiKey.accountAddress.toString())
+        const signature = signAptosOrder(multiKey, multiKeyOrder, domain)
+
+        expect(signature.scheme).toBe('multiKey')
+        expect(verifyAptosOrderSignature(multiKeyOrder, domain, signature)).toBe(true)
+        expect(verifyAptosOrderSignature({...multiKeyOrder, expiry: 0n}, domain, signature)).toBe(false)
+    })
+})
@@ -0,0 +1,260 @@
+import {
+    Account,
+    AccountAddress,
+    Deserializer,
+    Ed25519PublicKey,
+    Ed25519Signature,
+    Hex,
+    HexInput,
+    MultiKey,
+    MultiKeySignature,
+    PublicKey,
+    Serializer
+} from '@aptos-labs/ts-sdk'
+import sha3 from 'js-sha3'
+import {AuctionConfig, TimelockDelays} from './aptos-types'
+
+// Signed cross-chain orders of Aptos makers. No Move module stores them, the layout below is the reference:
+//
+// message = sha3_256(ORDER_DOMAIN_SEPARATOR) || bcs(u8 chain_id) || bcs(address verifying_package) || bcs(order)
+//
+// with the order fields serialized in the order of AptosCrossChainOrderData. The message is what the maker signs,
+// so an Ed25519 signature checks on chain with aptos_std::ed25519::signature_verify_strict(signature, key, message).
+// The order hash is sha3_256(message)
+
+export const ORDER_DOMAIN_SEPARATOR = 'APTOS_FUSION::AptosCrossChainOrder'
+
+/**
+ * Binds a signature to one network and one deployment of the escrow package, like the EIP-712 domain on EVM
+ */
+export type AptosOrderDomain = {
+    /**
+     * Aptos chain id, u8
+     */
+    chainId: number
+    verifyingPackage: string
+}
+
+/**
+ * Order of an Aptos maker selling `makingAmount` of `makerAsset` for `takingAmount` of `takerAsset` on `dstChainId`
+ */
+export type AptosCrossChainOrderData = {
+    /**
+     * u256
+     */
+    salt: bigint
+    maker: string
+    /**
+     * Gets the taker asset, an EVM address is left-padded to 32 bytes
+     */
+    receiver: string
+    /**
+     * Fully qualified coin type
+     */
+    makerAsset: string
+    /**
+     * Token on the destination chain, as escrow_factory::SrcEscrowArgs.dst_token
+     */
+    takerAsset: string
+    /**
+     * u64
+     */
+    makingAmount: bigint
+    /**
+     * u256, in the units of the destination chain
+     */
+    takingAmount: bigint
+    /**
+     * Secret hash, or merkle root of the secret hashes with the parts count for multiple fills
+     */
+    hashlockInfo: string
+    /**
+     * u64
+     */
+    dstChainId: bigint
+    /**
+     * u128, src_safety_deposit << 64 | dst_safety_deposit
+     */
+    deposits: bigint
+    timelocks: TimelockDelays
+    auctionConfig: AuctionConfig
+    /**
+     * Resolvers allowed to fill from `allowFrom`, unix seconds. Anyone may fill when empty
+     */
+    whitelist: {address: string; allowFrom: bigint}[]
+    /**
+     * u64, lets the maker invalidate the order
+     */
+    nonce: bigint
+    /**
+     * u64 unix seconds the order can not be filled after
+     */
+    expiry: bigint
+    allowPartialFills: boolean
+    allowMultipleFills: boolean
+}
+
+/**
+ * Signature with the public key checking it, hex encoded: raw bytes for Ed25519, BCS for multi-key
+ */
+export type AptosOrderSignature = {
+    scheme: 'ed25519' | 'multiKey'
+    publicKey: string
+    signature: string
+}
+
+/**
+ * BCS bytes of `order`
+ */
+export function encodeAptosOrder(order: AptosCrossChainOrderData): Uint8Array {
+    const {timelocks, auctionConfig} = order
+    const serializer = new Serializer()
+
+    serializer.serializeU256(order.salt)
+    serializer.serialize(AccountAddress.from(order.maker))
+    serializer.serialize(AccountAddress.from(order.receiver))
+    serializer.serializeStr(order.makerAsset)
+    serializer.serializeStr(order.takerAsset)
+    serializer.serializeU64(order.makingAmount)
+    serializer.serializeU256(order.takingAmount)
+    serializer.serializeBytes(toBytes(order.hashlockInfo))
+    serializer.serializeU64(order.dstChainId)
+    serializer.serializeU128(order.deposits)
+
+    serializer.serializeU32(timelocks.srcWithdrawalDelay)
+    serializer.serializeU32(timelocks.srcPublicWithdrawalDelay)
+    serializer.serializeU32(timelocks.srcCancellationDelay)
+    serializer.serializeU32(timelocks.srcPublicCancellationDelay)
+    serializer.serializeU32(timelocks.dstWithdrawalDelay)
+    serializer.serializeU32(timelocks.dstPublicWithdrawalDelay)
+    serializer.serializeU32(timelocks.dstCancellationDelay)
+
+    serializer.serializeU32(auctionConfig.gasBumpEstimate)
+    serializer.serializeU32(auctionConfig.gasPriceEstimate)
+    serializer.serializeU32(auctionConfig.startTime)
+    serializer.serializeU32(auctionConfig.duration)
+    serializer.serializeU32(auctionConfig.initialRateBump)
+    serializer.serializeU32AsUleb128(auctionConfig.auctionPoints.length)
+    auctionConfig.auctionPoints.forEach((p) => {
+        serializer.serializeU32(p.rateBump)
+        serializer.serializeU16(p.timeDelta)
+    })
+
+    serializer.serializeU32AsUleb128(order.whitelist.length)
+    order.whitelist.forEach((w) => {
+        serializer.serialize(AccountAddress.from(w.address))
+        serializer.serializeU64(w.allowFrom)
+    })
+
+    serializer.serializeU64(order.nonce)
+    serializer.serializeU64(order.expiry)
+    serializer.serializeBool(order.allowPartialFills)
+    serializer.serializeBool(order.allowMultipleFills)
+
+    return serializer.toUint8Array()
+}
+
+/**
+ * Bytes the maker signs
+ */
+export function getAptosOrderMessage(order: AptosCrossChainOrderData, domain: AptosOrderDomain): Uint8Array {
+    const serializer = new Serializer()
+
+    serializer.serializeFixedBytes(sha3256(new TextEncoder().encode(ORDER_DOMAIN_SEPARATOR)))
+    serializer.serializeU8(domain.chainId)
+    serializer.serialize(AccountAddress.from(domain.verifyingPackage))
+    serializer.serializeFixedBytes(encodeAptosOrder(order))
+
+    return serializer.toUint8Array()
+}
+
+export function getAptosOrderHash(order: AptosCrossChainOrderData, domain: AptosOrderDomain): string {
+    return Hex.fromHexInput(sha3256(getAptosOrderMessage(order, domain))).toString()
+}
+
+/**
+ * Signs `order` with a legacy Ed25519 account or a multi-key account
+ *
+ * @throws for other account types, or an account which is not the order maker
+ */
+export function signAptosOrder(
+    account: Account,
+    order: AptosCrossChainOrderData,
+    domain: AptosOrderDomain
+): AptosOrderSignature {
+    if (!account.accountAddress.equals(AccountAddress.from(order.maker))) {
+        throw new Error(`Order of ${order.maker} can not be signed by ${account.accountAddress}`)
+    }
+
+    return signAptosMessage(account, getAptosOrderMessage(order, domain))
+}
+
+/**
+ * Whether `signature` is a signature of `order` by a key whose account is the order maker
+ */
+export function verifyAptosOrderSignature(
+    order: AptosCrossChainOrderData,
+    domain: AptosOrderDomain,
+    signature: AptosOrderSignature
+): boolean {
+    return verifyAptosSignature(getAptosOrderMessage(order, domain), order.maker, signature)
+}
+
+/**
+ * Signs `message` with a legacy Ed25519 account or a multi-key account
+ *
+ * @throws for other account types
+ */
+export function signAptosMessage(account: Account, message: Uint8Array): AptosOrderSignature {
+    const scheme = getScheme(account.publicKey)
+    const signature = account.sign(message)
+
+    return {
+        scheme,
+        publicKey: Hex.fromHexInput(account.publicKey.toUint8Array()).toString(),
+        signature: Hex.fromHexInput(signature.toUint8Array()).toString()
+    }
+}
+
+/**
+ * Whether `signature` is a signature of `message` by a key whose account is `signer`
+ */
+export function verifyAptosSignature(message: Uint8Array, signer: string, signature: AptosOrderSignature): boolean {
+    const publicKey =
+        signature.scheme === 'ed25519'
+            ? new Ed25519PublicKey(signature.publicKey)
+            : MultiKey.deserialize(new Deserializer(toBytes(signature.publicKey)))
+
+    if (!publicKey.authKey().derivedAddress().equals(AccountAddress.from(signer))) {
+        return false
+    }
+
+    if (publicKey instanceof Ed25519PublicKey) {
+        return publicKey.verifySignature({message, signature: new Ed25519Signature(signature.signature)})
+    }
+
+    return publicKey.verifySignature({
+        message,
+        signature: MultiKeySignature.deserialize(new Deserializer(toBytes(signature.signature)))
+    })
+}
+
+function getScheme(publicKey: PublicKey): AptosOrderSignature['scheme'] {
+    if (publicKey instanceof Ed25519PublicKey) {
+        return 'ed25519'
+    }
+
+    if (publicKey instanceof MultiKey) {
+        return 'multiKey'
+    }
+
+    throw new Error(`Unsupported public key ${publicKey.constructor.name}, expected Ed25519 or multi-key`)
+}
+
+function toBytes(value: HexInput): Uint8Array {
+    return Hex.fromHexInput(value).toUint8Array()
+}
+
+function sha3256(data: Uint8Array): Uint8Array {
+    return new Uint8Array(sha3.sha3_256.arrayBuffer(data))
+}
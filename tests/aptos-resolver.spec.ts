@@ -0,0 +1,242 @@
+import {expect} from '@jest/globals'
+import {
+    EntryFunctionABI,
+    generateTransactionPayloadWithABI,
+    Hex,
+    InputEntryFunctionData,
+    parseTypeTag
+} from '@aptos-labs/ts-sdk'
+import {readFileSync} from 'node:fs'
+import {join} from 'node:path'
+import {AptosResolver} from './aptos-resolver'
+import {EscrowImmutables, FillData, OrderData, SrcEscrowArgs} from './aptos-types'
+
+const PACKAGE = '0xdef391b1c8951bf801f67a005f9eba70a5aae6d02eba6bb4889a88288ea806a2'
+const RESOLVER = '0x' + '12'.repeat(32)
+const SOURCES = join(process.cwd(), 'sources')
+
+type MoveParam = {name: string; type: string}
+
+// Parameters of `public entry fun <name>` in a Move source, signers excluded
+function entryParams(file: string, name: string): {typeParameters: number; params: MoveParam[]} {
+    const source = readFileSync(join(SOURCES, file), 'utf8')
+    const match = new RegExp(`public entry fun ${name}(<[^>]*>)?\\(([\\s\\S]*?)\\)\\s*(?:acquires|\\{)`).exec(source)
+
+    if (!match) {
+        throw new Error(`No entry function ${name} in ${file}`)
+    }
+
+    const params = match[2]
+        .split('\n')
+        .map((line) => line.replace(/\/\/.*$/, '').trim())
+        .join('')
+        .split(',')
+        .filter(Boolean)
+        .map((param) => {
+            const [paramName, type] = param.split(':').map((part) => part.trim())
+
+            return {name: paramName, type}
+        })
+        .filter(({type}) => type !== '&signer')
+
+    return {typeParameters: match[1] ? match[1].split(',').length : 0, params}
+}
+
+function abiOf(typeParameters: number, params: MoveParam[]): EntryFunctionABI {
+    return {
+        typeParameters: Array.from({length: typeParameters}, () => ({constraints: []})),
+        parameters: params.map(({type}) => parseTypeTag(type === 'String' ? '0x1::string::String' : type))
+    }
+}
+
+// Serializes the payload against the Move signature and returns its arguments by Move parameter name
+function argsByName(file: string, payload: InputEntryFunctionData): Record<string, unknown> {
+    const name = payload.function.split('::')[2]
+    const {typeParameters, params} = entryParams(file, name)
+
+    expect(payload.typeArguments).toHaveLength(typeParameters)
+    expect(payload.functionArguments).toHaveLength(params.length)
+    expect(() => generateTransactionPayloadWithABI({...payload, abi: abiOf(typeParameters, params)})).not.toThrow()
+
+    return Object.fromEntries(params.map(({name: param}, i) => [param, payload.functionArguments[i]]))
+}
+
+const snakeCase = (key: string): string => key.replace(/[A-Z]/g, (c) => '_' + c.toLowerCase())
+
+const bytes = (hex: string): Uint8Array => Hex.fromHexInput(hex).toUint8Array()
+
+describe('AptosResolver', () => {
+    const resolver = new AptosResolver(PACKAGE, RESOLVER)
+
+    const timelocks = {
+        srcWithdrawalDelay: 10,
+        srcPublicWithdrawalDelay: 120,
+        srcCancellationDelay: 121,
+        srcPublicCancellationDelay: 122,
+        dstWithdrawalDelay: 11,
+        dstPublicWithdrawalDelay: 100,
+        dstCancellationDelay: 101
+    }
+    const auctionConfig = {
+        gasBumpEstimate: 1,
+        gasPriceEstimate: 2,
+        startTime: 1_700_000_000,
+        duration: 180,
+        initialRateBump: 3
+    }
+    const order: OrderData = {
+        orderHash: '0x' + '01'.repeat(32),
+        maker: '0x' + '02'.repeat(32),
+        receiver: '0x' + '03'.repeat(32),
+        makerAsset: '0x1::aptos_coin::AptosCoin',
+        takerAsset: '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48',
+        makingAmount: 100n,
+        takingAmount: 99n
+    }
+    const args: SrcEscrowArgs = {
+        hashlockInfo: '0x' + '04'.repeat(32),
+        dstChainId: 1n,
+        dstToken: '0xdac17f958d2ee523a2206206994597c13d831ec7',
+        deposits: (5n << 64n) | 6n,
+        timelocks,
+        auctionConfig: {...auctionConfig, auctionPoints: []},
+        takerData: {
+            proof: ['0x' + '05'.repeat(32), '0x' + '06'.repeat(32)],
+            idx: 2n,
+            secretHash: '0x' + '07'.repeat(32)
+        }
+    }
+    const immutables: EscrowImmutables = {
+        orderHash: '0x' + '08'.repeat(32),
+        hashlock: '0x' + '09'.repeat(32),
+        maker: '0x' + '0a'.repeat(32),
+        taker: '0x' + '0b'.repeat(32),
+        tokenType: '0x1::aptos_coin::AptosCoin',
+        amount: 1000n,
+        safetyDeposit: 10n,
+        timelocks: {...timelocks, deployedAt: 1_700_000_100n}
+    }
+
+    const orderArgs = {
+        resolver_addr: RESOLVER,
+        order_hash: bytes(order.orderHash),
+        receiver: order.receiver,
+        maker_asset: order.makerAsset,
+        taker_asset: order.takerAsset,
+        making_amount: order.makingAmount,
+        taking_amount: order.takingAmount,
+        hashlock_info: bytes(args.hashlockInfo),
+        dst_chain_id: args.dstChainId,
+        dst_token: args.dstToken,
+        deposits: args.deposits,
+        ...Object.fromEntries(Object.entries({...timelocks, ...auctionConfig}).map(([k, v]) => [snakeCase(k), v]))
+    }
+    const takerArgs = {
+        proof: args.takerData.proof.map(bytes),
+        idx: args.takerData.idx,
+        secret_hash: bytes(args.takerData.secretHash)
+    }
+    const immutablesArgs = {
+        order_hash: bytes(immutables.orderHash),
+        hashlock: bytes(immutables.hashlock),
+        maker: immutables.maker,
+        taker: immutables.taker,
+        amount: immutables.amount,
+        safety_deposit: immutables.safetyDeposit,
+        ...Object.fromEntries(Object.entries(immutables.timelocks).map(([k, v]) => [snakeCase(k), v]))
+    }
+
+    it('should match deploy_src_escrow', () => {
+        const payload = resolver.deploySrc(order, args)
+
+        expect(payload.typeArguments).toEqual([
+            order.makerAsset,
+            '0x1::aptos_coin::AptosCoin',
+            '0x1::aptos_coin::AptosCoin'
+        ])
+        expect(argsByName('resolver.move', payload)).toEqual({...orderArgs, maker: order.maker, ...takerArgs})
+    })
+
+    it('should match deploy_src_escrow_partial', () => {
+        const fill: FillData = {makingAmount: 40n, takingAmount: 39n, remainingMakingAmount: 60n}
+
+        expect(argsByName('resolver.move', resolver.deploySrcPartial(order, args, fill))).toEqual({
+            ...orderArgs,
+            maker: order.maker,
+            fill_making_amount: fill.makingAmount,
+            fill_taking_amount: fill.takingAmount,
+            remaining_making_amount: fill.remainingMakingAmount,
+            ...takerArgs
+        })
+    })
+
+    it('should match deploy_src_escrow_from_maker and carry its ABI', () => {
+        const payload = resolver.deploySrcFromMaker(order, args)
+        const {typeParameters, params} = entryParams('resolver.move', 'deploy_src_escrow_from_maker')
+
+        expect(argsByName('resolver.move', payload)).toEqual(orderArgs)
+        expect(payload.abi.signers).toBe(2)
+        expect(payload.abi.typeParameters).toHaveLength(typeParameters)
+        expect(payload.abi.parameters.map(String)).toEqual(abiOf(typeParameters, params).parameters.map(String))
+    })
+
+    it('should match validate_fill_proof', () => {
+        const root = '0x' + '0c'.repeat(32)
+
+        expect(
+            argsByName('merkle_validator.move', resolver.validateFillProof(order.orderHash, root, 3n, args.takerData))
+        ).toEqual({
+            order_hash: bytes(order.orderHash),
+            root_hash: bytes(root),
+            parts_amount: 3n,
+            ...takerArgs
+        })
+    })
+
+    it('should match deploy_dst_escrow', () => {
+        const payload = resolver.deployDst(immutables, 1_700_010_000n)
+
+        expect(payload.typeArguments).toEqual([
+            immutables.tokenType,
+            '0x1::aptos_coin::AptosCoin',
+            '0x1::aptos_coin::AptosCoin'
+        ])
+        expect(argsByName('resolver.move', payload)).toEqual({
+            resolver_addr: RESOLVER,
+            token_amount: immutables.amount,
+            safety_deposit_amount: immutables.safetyDeposit,
+            ...immutablesArgs,
+            src_cancellation_timestamp: 1_700_010_000n
+        })
+    })
+
+    it('should match withdraw', () => {
+        const secret = '0x' + '0d'.repeat(32)
+        const payload = resolver.withdraw('0x' + '0e'.repeat(32), secret, immutables, '0x' + '0f'.repeat(32))
+
+        expect(payload.typeArguments).toEqual([immutables.tokenType])
+        expect(argsByName('resolver.move', payload)).toEqual({
+            escrow_addr: '0x' + '0e'.repeat(32),
+            secret: bytes(secret),
+            ...immutablesArgs,
+            recipient: '0x' + '0f'.repeat(32)
+        })
+    })
+
+    it('should match cancel', () => {
+        const payload = resolver.cancel('0x' + '0e'.repeat(32), immutables)
+
+        expect(payload.typeArguments).toEqual([immutables.tokenType])
+        expect(argsByName('resolver.move', payload)).toEqual({escrow_addr: '0x' + '0e'.repeat(32), ...immutablesArgs})
+    })
+
+    it('should reject auction points', () => {
+        const withPoints = {
+            ...args,
+            auctionConfig: {...args.auctionConfig, auctionPoints: [{rateBump: 1, timeDelta: 1}]}
+        }
+
+        expect(() => resolver.deploySrc(order, withPoints)).toThrow('does not accept auction points')
+        expect(() => resolver.deploySrcFromMaker(order, withPoints)).toThrow('does not accept auction points')
+    })
+})
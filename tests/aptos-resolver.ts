@@ -0,0 +1,254 @@
+import {APTOS_COIN, EntryFunctionABI, Hex, InputEntryFunctionData, parseTypeTag} from '@aptos-labs/ts-sdk'
+import {EscrowImmutables, FillData, OrderData, SrcEscrowArgs, TakerData, TimelockDelays} from './aptos-types'
+import {validateTimelocks} from './aptos-timelocks'
+
+// resolver::deploy_src_escrow_from_maker without its maker and caller signers
+const DEPLOY_SRC_FROM_MAKER_ABI: EntryFunctionABI = {
+    signers: 2,
+    typeParameters: [{constraints: []}, {constraints: []}, {constraints: []}],
+    parameters: [
+        'address',
+        'vector<u8>',
+        'address',
+        '0x1::string::String',
+        '0x1::string::String',
+        'u64',
+        'u64',
+        'vector<u8>',
+        'u64',
+        '0x1::string::String',
+        'u128',
+        ...Array<string>(7 + 5).fill('u32')
+    ].map((type) => parseTypeTag(type))
+}
+
+/**
+ * Builds payloads for the `resolver` module entry functions, and for the merkle_validator proof of a partial fill.
+ * Submitting them is up to the caller
+ */
+export class AptosResolver {
+    constructor(
+        public readonly packageAddress: string,
+        public readonly resolverAddress: string,
+        /**
+         * FeeTokenType and AccessTokenType the factory was initialized with
+         */
+        public readonly factoryTypes: {feeTokenType: string; accessTokenType: string} = {
+            feeTokenType: APTOS_COIN,
+            accessTokenType: APTOS_COIN
+        }
+    ) {}
+
+    /**
+     * Locks `order.makingAmount` of `order.makerAsset` plus the src safety deposit in a new source escrow
+     *
+     * @throws if the auction has points, deploy_src_escrow only takes a linear auction
+     */
+    public deploySrc(order: OrderData, args: SrcEscrowArgs): InputEntryFunctionData {
+        return {
+            function: `${this.packageAddress}::resolver::deploy_src_escrow`,
+            typeArguments: this.srcTypeArguments(order),
+            functionArguments: this.srcEscrowArgs(order, args)
+        }
+    }
+
+    /**
+     * Locks `fill.makingAmount` of `order.makerAsset` plus the src safety deposit in a new source escrow.
+     * For an order allowing multiple fills, `args.takerData` must have been validated with validateFillProof first
+     *
+     * @throws if the auction has points, deploy_src_escrow_partial only takes a linear auction
+     */
+    public deploySrcPartial(order: OrderData, args: SrcEscrowArgs, fill: FillData): InputEntryFunctionData {
+        return {
+            function: `${this.packageAddress}::resolver::deploy_src_escrow_partial`,
+            typeArguments: this.srcTypeArguments(order),
+            functionArguments: this.srcEscrowArgs(order, args, fill)
+        }
+    }
+
+    /**
+     * Locks `order.makingAmount` of `order.makerAsset`, withdrawn from the maker sending the transaction, plus the
+     * src safety deposit of the resolver owner co-signing it in a new source escrow. Single fill orders only, the
+     * escrow is locked on `args.hashlockInfo`.
+     * Carries the function ABI, so the maker can build the transaction offline
+     *
+     * @throws if the auction has points, deploy_src_escrow_from_maker only takes a linear auction
+     */
+    public deploySrcFromMaker(
+        order: OrderData,
+        args: Omit<SrcEscrowArgs, 'takerData'>
+    ): InputEntryFunctionData & {abi: EntryFunctionABI} {
+        const {auctionConfig} = args
+
+        if (auctionConfig.auctionPoints.length) {
+            throw new Error('resolver::deploy_src_escrow_from_maker does not accept auction points')
+        }
+
+        return {
+            function: `${this.packageAddress}::resolver::deploy_src_escrow_from_maker`,
+            typeArguments: this.srcTypeArguments(order),
+            functionArguments: [
+                this.resolverAddress,
+                toBytes(order.orderHash),
+                order.receiver,
+                order.makerAsset,
+                order.takerAsset,
+                order.makingAmount,
+                order.takingAmount,
+                toBytes(args.hashlockInfo),
+                args.dstChainId,
+                args.dstToken,
+                args.deposits,
+                ...delays(args.timelocks),
+                auctionConfig.gasBumpEstimate,
+                auctionConfig.gasPriceEstimate,
+                auctionConfig.startTime,
+                auctionConfig.duration,
+                auctionConfig.initialRateBump
+            ],
+            abi: DEPLOY_SRC_FROM_MAKER_ABI
+        }
+    }
+
+    /**
+     * Stores the secret `takerData` proves under the signer, which deploySrcPartial then reads for the next fill
+     * of `orderHash`
+     *
+     * @param root full merkle root, the order hashlock_info only holds its first 30 bytes
+     */
+    public validateFillProof(
+        orderHash: string,
+        root: string,
+        partsCount: bigint,
+        takerData: TakerData
+    ): InputEntryFunctionData {
+        return {
+            function: `${this.packageAddress}::merkle_validator::validate_fill_proof`,
+            typeArguments: [],
+            functionArguments: [
+                toBytes(orderHash),
+                toBytes(root),
+                partsCount,
+                takerData.proof.map(toBytes),
+                takerData.idx,
+                toBytes(takerData.secretHash)
+            ]
+        }
+    }
+
+    /**
+     * Deposits `immutables.amount` of `immutables.tokenType` plus the safety deposit in a new destination escrow
+     *
+     * @param srcCancellationTimestamp the destination cancellation must not start after it
+     */
+    public deployDst(immutables: EscrowImmutables, srcCancellationTimestamp: bigint): InputEntryFunctionData {
+        return {
+            function: `${this.packageAddress}::resolver::deploy_dst_escrow`,
+            typeArguments: [immutables.tokenType, this.factoryTypes.feeTokenType, this.factoryTypes.accessTokenType],
+            functionArguments: [
+                this.resolverAddress,
+                immutables.amount,
+                immutables.safetyDeposit,
+                ...immutablesArgs(immutables),
+                srcCancellationTimestamp
+            ]
+        }
+    }
+
+    public withdraw(
+        escrowAddress: string,
+        secret: string,
+        immutables: EscrowImmutables,
+        recipient: string
+    ): InputEntryFunctionData {
+        return {
+            function: `${this.packageAddress}::resolver::withdraw`,
+            typeArguments: [immutables.tokenType],
+            functionArguments: [escrowAddress, toBytes(secret), ...immutablesArgs(immutables), recipient]
+        }
+    }
+
+    public cancel(escrowAddress: string, immutables: EscrowImmutables): InputEntryFunctionData {
+        return {
+            function: `${this.packageAddress}::resolver::cancel`,
+            typeArguments: [immutables.tokenType],
+            functionArguments: [escrowAddress, ...immutablesArgs(immutables)]
+        }
+    }
+
+    // Arguments of deploy_src_escrow, or of deploy_src_escrow_partial with the fill components
+    private srcEscrowArgs(
+        order: OrderData,
+        args: SrcEscrowArgs,
+        fill?: FillData
+    ): Array<Uint8Array | Uint8Array[] | string | bigint | number> {
+        const {auctionConfig, takerData} = args
+
+        if (auctionConfig.auctionPoints.length) {
+            throw new Error('resolver::deploy_src_escrow does not accept auction points')
+        }
+
+        return [
+            this.resolverAddress,
+            toBytes(order.orderHash),
+            order.maker,
+            order.receiver,
+            order.makerAsset,
+            order.takerAsset,
+            order.makingAmount,
+            order.takingAmount,
+            ...(fill ? [fill.makingAmount, fill.takingAmount, fill.remainingMakingAmount] : []),
+            toBytes(args.hashlockInfo),
+            args.dstChainId,
+            args.dstToken,
+            args.deposits,
+            ...delays(args.timelocks),
+            auctionConfig.gasBumpEstimate,
+            auctionConfig.gasPriceEstimate,
+            auctionConfig.startTime,
+            auctionConfig.duration,
+            auctionConfig.initialRateBump,
+            takerData.proof.map(toBytes),
+            takerData.idx,
+            toBytes(takerData.secretHash)
+        ]
+    }
+
+    private srcTypeArguments(order: OrderData): string[] {
+        return [order.makerAsset, this.factoryTypes.feeTokenType, this.factoryTypes.accessTokenType]
+    }
+}
+
+function toBytes(hex: string): Uint8Array {
+    return Hex.fromHexInput(hex).toUint8Array()
+}
+
+// Delays in the argument order of the resolver entry functions, rejects a schedule timelock::new would abort on
+function delays(timelocks: TimelockDelays): number[] {
+    validateTimelocks(timelocks)
+
+    return [
+        timelocks.srcWithdrawalDelay,
+        timelocks.srcPublicWithdrawalDelay,
+        timelocks.srcCancellationDelay,
+        timelocks.srcPublicCancellationDelay,
+        timelocks.dstWithdrawalDelay,
+        timelocks.dstPublicWithdrawalDelay,
+        timelocks.dstCancellationDelay
+    ]
+}
+
+// The flattened `immutables components` + `timelocks components` argument run of
+// deploy_dst_escrow, withdraw and cancel. token_type is taken from the type argument
+function immutablesArgs(immutables: EscrowImmutables): Array<Uint8Array | string | bigint | number> {
+    return [
+        toBytes(immutables.orderHash),
+        toBytes(immutables.hashlock),
+        immutables.maker,
+        immutables.taker,
+        immutables.amount,
+        immutables.safetyDeposit,
+        ...delays(immutables.timelocks),
+        immutables.timelocks.deployedAt
+    ]
+}
@@ -0,0 +1,87 @@
+import {expect} from '@jest/globals'
+import Sdk from '@1inch/cross-chain-sdk'
+import {fromSdkTimeLocks, packTimelocks, toSdkTimeLocks, unpackTimelocks, validateTimelocks} from './aptos-timelocks'
+import {Timelocks} from './aptos-types'
+
+const timelocks: Timelocks = {
+    deployedAt: 1_700_000_000n,
+    srcWithdrawalDelay: 10,
+    srcPublicWithdrawalDelay: 120,
+    srcCancellationDelay: 121,
+    srcPublicCancellationDelay: 122,
+    dstWithdrawalDelay: 10,
+    dstPublicWithdrawalDelay: 100,
+    dstCancellationDelay: 101
+}
+
+const sdkTimeLocks = (): Sdk.TimeLocks =>
+    Sdk.TimeLocks.new({
+        srcWithdrawal: 10n,
+        srcPublicWithdrawal: 120n,
+        srcCancellation: 121n,
+        srcPublicCancellation: 122n,
+        dstWithdrawal: 10n,
+        dstPublicWithdrawal: 100n,
+        dstCancellation: 101n
+    }).setDeployedAt(1_700_000_000n)
+
+describe('Aptos timelocks', () => {
+    it('should pack the delays into the Sdk.TimeLocks u256, srcWithdrawal lowest and deployedAt highest', () => {
+        const packed = packTimelocks(timelocks)
+
+        expect(packed).toBe(sdkTimeLocks().build())
+        expect(packed & 0xffffffffn).toBe(10n)
+        expect(packed >> 224n).toBe(1_700_000_000n)
+        expect(unpackTimelocks(packed)).toEqual(timelocks)
+    })
+
+    it('should convert both ways with Sdk.TimeLocks', () => {
+        expect(fromSdkTimeLocks(sdkTimeLocks())).toEqual(timelocks)
+        expect(toSdkTimeLocks(timelocks).build()).toBe(sdkTimeLocks().build())
+        expect(toSdkTimeLocks(timelocks).toSrcTimeLocks().privateCancellation).toBe(1_700_000_121n)
+    })
+
+    it('should allow consecutive stages starting at the same time, as timelock::new does', () => {
+        const equal: Timelocks = {...timelocks, srcPublicWithdrawalDelay: 121, dstPublicWithdrawalDelay: 101}
+
+        expect(() => validateTimelocks(equal)).not.toThrow()
+        expect(unpackTimelocks(packTimelocks(equal))).toEqual(equal)
+    })
+
+    it('should not convert consecutive stages starting at the same time to Sdk.TimeLocks', () => {
+        expect(() => toSdkTimeLocks({...timelocks, srcPublicWithdrawalDelay: 121})).toThrow(
+            'srcPublicWithdrawalDelay and srcCancellationDelay both start at 121'
+        )
+        expect(() => toSdkTimeLocks({...timelocks, dstPublicWithdrawalDelay: 101})).toThrow(
+            'dstPublicWithdrawalDelay and dstCancellationDelay both start at 101'
+        )
+        // The destination schedule starts over, it is not compared to the source one
+        const src = {srcWithdrawalDelay: 1, srcPublicWithdrawalDelay: 2, srcCancellationDelay: 3}
+
+        expect(
+            toSdkTimeLocks({...timelocks, ...src, srcPublicCancellationDelay: 10}).toDstTimeLocks().privateWithdrawal
+        ).toBe(1_700_000_010n)
+    })
+
+    it('should reject stages out of order', () => {
+        expect(() => validateTimelocks({...timelocks, srcCancellationDelay: 119})).toThrow(
+            'srcPublicWithdrawalDelay (120) must not be after srcCancellationDelay (119)'
+        )
+        expect(() => validateTimelocks({...timelocks, dstCancellationDelay: 99})).toThrow(
+            'dstPublicWithdrawalDelay (100) must not be after dstCancellationDelay (99)'
+        )
+        // The destination schedule starts over, it is not compared to the source one
+        expect(() => validateTimelocks({...timelocks, dstWithdrawalDelay: 5})).not.toThrow()
+        expect(() => toSdkTimeLocks({...timelocks, srcWithdrawalDelay: 121})).toThrow('must not be after')
+    })
+
+    it('should reject values that do not fit their u32 slot', () => {
+        expect(() => validateTimelocks({...timelocks, srcWithdrawalDelay: -1})).toThrow('must be a u32')
+        expect(() => validateTimelocks({...timelocks, srcWithdrawalDelay: 1.5})).toThrow('must be a u32')
+        expect(() => validateTimelocks({...timelocks, dstCancellationDelay: 2 ** 32})).toThrow('must be a u32')
+        expect(() => packTimelocks({...timelocks, deployedAt: 1n << 32n})).toThrow('does not fit the packed u32 slot')
+        expect(() => unpackTimelocks(1n << 256n)).toThrow('must be a u256')
+        // srcPublicWithdrawal 0 before srcWithdrawal 10
+        expect(() => unpackTimelocks(10n)).toThrow('must not be after')
+    })
+})
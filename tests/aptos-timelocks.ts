@@ -0,0 +1,94 @@
+import Sdk from '@1inch/cross-chain-sdk'
+import {UINT_32_MAX} from '@1inch/byte-utils'
+import assert from 'node:assert'
+import {TimelockDelays, Timelocks} from './aptos-types'
+
+// Conversions between Sdk.TimeLocks and timelock::Timelocks
+//
+// Sdk.TimeLocks packs eight u32 values into a u256, srcWithdrawal in the lowest 32 bits:
+// | deployedAt | dstCancellation | dstPublicWithdrawal | dstWithdrawal | srcPublicCancellation | srcCancellation | srcPublicWithdrawal | srcWithdrawal |
+
+const DELAYS: Array<keyof TimelockDelays> = [
+    'srcWithdrawalDelay',
+    'srcPublicWithdrawalDelay',
+    'srcCancellationDelay',
+    'srcPublicCancellationDelay',
+    'dstWithdrawalDelay',
+    'dstPublicWithdrawalDelay',
+    'dstCancellationDelay'
+]
+
+/**
+ * Same checks as timelock::new, which aborts with E_INVALID_TIME on failure.
+ * Unlike the EVM escrow, Move allows two consecutive stages to start at the same time
+ */
+export function validateTimelocks(timelocks: TimelockDelays): void {
+    for (const key of DELAYS) {
+        const delay = timelocks[key]
+        assert(Number.isInteger(delay) && delay >= 0 && delay <= UINT_32_MAX, `${key} must be a u32, got ${delay}`)
+    }
+
+    assertOrder(timelocks, 'srcWithdrawalDelay', 'srcPublicWithdrawalDelay')
+    assertOrder(timelocks, 'srcPublicWithdrawalDelay', 'srcCancellationDelay')
+    assertOrder(timelocks, 'srcCancellationDelay', 'srcPublicCancellationDelay')
+    assertOrder(timelocks, 'dstWithdrawalDelay', 'dstPublicWithdrawalDelay')
+    assertOrder(timelocks, 'dstPublicWithdrawalDelay', 'dstCancellationDelay')
+}
+
+/**
+ * Packs Move timelocks into the u256 layout of Sdk.TimeLocks
+ */
+export function packTimelocks(timelocks: Timelocks): bigint {
+    validateTimelocks(timelocks)
+    assert(
+        timelocks.deployedAt >= 0n && timelocks.deployedAt <= UINT_32_MAX,
+        `deployedAt ${timelocks.deployedAt} does not fit the packed u32 slot`
+    )
+
+    return DELAYS.reduceRight((acc, key) => (acc << 32n) | BigInt(timelocks[key]), timelocks.deployedAt)
+}
+
+export function unpackTimelocks(packed: bigint): Timelocks {
+    assert(packed >= 0n && packed < 1n << 256n, 'packed timelocks must be a u256')
+
+    const slot = (i: number): bigint => (packed >> BigInt(i * 32)) & UINT_32_MAX
+    const timelocks = Object.fromEntries(DELAYS.map((key, i) => [key, Number(slot(i))])) as TimelockDelays
+
+    validateTimelocks(timelocks)
+
+    return {deployedAt: slot(7), ...timelocks}
+}
+
+export function fromSdkTimeLocks(timeLocks: Sdk.TimeLocks): Timelocks {
+    return unpackTimelocks(timeLocks.build())
+}
+
+/**
+ * Sdk.TimeLocks of Move timelocks. Its constructor wants every stage strictly after the previous one, which
+ * timelock.move does not require, so Move timelocks with two consecutive stages starting at the same time are rejected
+ */
+export function toSdkTimeLocks(timelocks: Timelocks): Sdk.TimeLocks {
+    const packed = packTimelocks(timelocks)
+
+    DELAYS.forEach((key, i) => {
+        // The destination schedule starts over
+        if (i === 0 || key === 'dstWithdrawalDelay') {
+            return
+        }
+
+        const earlier = DELAYS[i - 1]
+        assert(
+            timelocks[earlier] < timelocks[key],
+            `${earlier} and ${key} both start at ${timelocks[key]}, Sdk.TimeLocks needs strictly increasing stages`
+        )
+    })
+
+    return Sdk.TimeLocks.fromBigInt(packed)
+}
+
+function assertOrder(timelocks: TimelockDelays, earlier: keyof TimelockDelays, later: keyof TimelockDelays): void {
+    assert(
+        timelocks[earlier] <= timelocks[later],
+        `${earlier} (${timelocks[earlier]}) must not be after ${later} (${timelocks[later]})`
+    )
+}
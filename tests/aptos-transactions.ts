@@ -0,0 +1,62 @@
+import {Network} from '@aptos-labs/ts-sdk'
+
+export type AptosTransactionRecord = {
+    hash: string
+    type: string
+    description: string
+    timestamp: number
+    explorerUrl: string
+}
+
+// Transaction tracking for demo purposes
+export const aptosTransactions: AptosTransactionRecord[] = []
+
+export function explorerUrl(hash: string, network: Network): string {
+    const networkName = network === Network.MAINNET ? 'mainnet' : network === Network.TESTNET ? 'testnet' : 'devnet'
+
+    return `https://explorer.aptoslabs.com/txn/${hash}?network=${networkName}`
+}
+
+// Records a committed transaction for the final summary, classified by the entry function it called
+export function trackAptosTransaction(hash: string, functionName: string, network: Network): void {
+    let txType = 'Transaction'
+    let description = `Function: ${functionName}`
+
+    if (functionName.includes('deploy_src_escrow')) {
+        txType = 'Source Escrow Creation'
+        description = 'Created source escrow on Aptos for cross-chain swap'
+    } else if (functionName.includes('deploy_dst_escrow')) {
+        txType = 'Destination Escrow Creation'
+        description = 'Created destination escrow on Aptos for token deposit'
+    } else if (functionName.includes('withdraw')) {
+        txType = 'Token Withdrawal'
+        description = 'Withdrew tokens from Aptos escrow'
+    } else if (functionName.includes('cancel')) {
+        txType = 'Escrow Cancellation'
+        description = 'Cancelled Aptos escrow and recovered funds'
+    } else if (functionName.includes('mint')) {
+        txType = 'Token Minting'
+        description = 'Minted custom tokens on Aptos'
+    } else if (functionName.includes('initialize')) {
+        txType = 'Contract Initialization'
+        description = `Initialized ${functionName.includes('token') ? 'token' : functionName.includes('factory') ? 'factory' : 'resolver'} contract`
+    }
+
+    aptosTransactions.push({
+        hash,
+        type: txType,
+        description,
+        timestamp: Date.now(),
+        explorerUrl: explorerUrl(hash, network)
+    })
+}
+
+// Function to get all Aptos transactions for final summary
+export function getAptosTransactionSummary(): AptosTransactionRecord[] {
+    return aptosTransactions
+}
+
+// Function to clear transaction history (for testing)
+export function clearAptosTransactions(): void {
+    aptosTransactions.length = 0
+}
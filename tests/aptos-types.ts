@@ -0,0 +1,296 @@
+// TypeScript mirrors of the Move structs the escrow modules take and emit.
+// Field order follows the Move declarations, byte vectors are 0x-prefixed hex strings,
+// u64/u128 values are bigint and u32 values are number.
+
+/**
+ * timelock::Timelocks, every delay is in seconds relative to `deployedAt`
+ */
+export type Timelocks = {
+    deployedAt: bigint
+    srcWithdrawalDelay: number
+    srcPublicWithdrawalDelay: number
+    srcCancellationDelay: number
+    srcPublicCancellationDelay: number
+    dstWithdrawalDelay: number
+    dstPublicWithdrawalDelay: number
+    dstCancellationDelay: number
+}
+
+/**
+ * Delays passed to timelock::new, `deployedAt` is set on chain when the escrow is created
+ */
+export type TimelockDelays = Omit<Timelocks, 'deployedAt'>
+
+/**
+ * escrow_core::EscrowImmutables
+ */
+export type EscrowImmutables = {
+    orderHash: string
+    hashlock: string
+    maker: string
+    taker: string
+    /**
+     * Fully qualified coin type, as returned by type_info::type_name
+     */
+    tokenType: string
+    amount: bigint
+    safetyDeposit: bigint
+    timelocks: Timelocks
+}
+
+/**
+ * escrow_core::Escrow, without the signer capability and event handles
+ */
+export type Escrow = {
+    immutables: EscrowImmutables
+    /**
+     * Value of the locked Coin<TokenType>
+     */
+    lockedAmount: bigint
+    /**
+     * Value of the locked Coin<AptosCoin>
+     */
+    safetyDeposit: bigint
+    isCompleted: boolean
+}
+
+/**
+ * escrow_factory::OrderData
+ */
+export type OrderData = {
+    orderHash: string
+    maker: string
+    receiver: string
+    makerAsset: string
+    takerAsset: string
+    makingAmount: bigint
+    takingAmount: bigint
+}
+
+/**
+ * dutch_auction::AuctionPoint
+ */
+export type AuctionPoint = {
+    rateBump: number
+    /**
+     * Seconds since the previous point, u16
+     */
+    timeDelta: number
+}
+
+/**
+ * dutch_auction::AuctionConfig
+ */
+export type AuctionConfig = {
+    gasBumpEstimate: number
+    gasPriceEstimate: number
+    startTime: number
+    duration: number
+    initialRateBump: number
+    auctionPoints: AuctionPoint[]
+}
+
+/**
+ * merkle_validator::TakerData
+ */
+export type TakerData = {
+    proof: string[]
+    idx: bigint
+    secretHash: string
+}
+
+/**
+ * escrow_factory::SrcEscrowArgs, without the fee config and whitelist which the resolver module fills in
+ */
+export type SrcEscrowArgs = {
+    hashlockInfo: string
+    dstChainId: bigint
+    dstToken: string
+    /**
+     * src_safety_deposit << 64 | dst_safety_deposit
+     */
+    deposits: bigint
+    timelocks: TimelockDelays
+    auctionConfig: AuctionConfig
+    takerData: TakerData
+}
+
+/**
+ * Fill components of resolver::deploy_src_escrow_partial
+ */
+export type FillData = {
+    makingAmount: bigint
+    /**
+     * Amount the maker gets on the destination chain for this fill
+     */
+    takingAmount: bigint
+    /**
+     * Making amount of the order left before this fill, not tracked on chain
+     */
+    remainingMakingAmount: bigint
+}
+
+/**
+ * escrow_core::EscrowCreatedEvent
+ */
+export type EscrowCreatedEvent = {
+    escrowAddress: string
+    immutables: EscrowImmutables
+    isSource: boolean
+    timestamp: bigint
+}
+
+/**
+ * escrow_factory::DstImmutablesComplement
+ */
+export type DstImmutablesComplement = {
+    maker: string
+    amount: bigint
+    /**
+     * Destination chain token, as passed in SrcEscrowArgs.dst_token
+     */
+    token: string
+    safetyDeposit: bigint
+    chainId: bigint
+}
+
+/**
+ * escrow_factory::SrcEscrowCreatedEvent
+ */
+export type SrcEscrowCreatedEvent = {
+    escrowAddress: string
+    immutables: EscrowImmutables
+    dstComplement: DstImmutablesComplement
+    timestamp: bigint
+}
+
+/**
+ * escrow_factory::DstEscrowCreatedEvent
+ */
+export type DstEscrowCreatedEvent = {
+    escrowAddress: string
+    hashlock: string
+    taker: string
+    timestamp: bigint
+}
+
+/**
+ * escrow_factory::OrderFillEvent
+ */
+export type OrderFillEvent = {
+    orderHash: string
+    taker: string
+    makingAmount: bigint
+    takingAmount: bigint
+    auctionRateBump: bigint
+    timestamp: bigint
+}
+
+/**
+ * escrow_core::EscrowWithdrawalEvent
+ */
+export type EscrowWithdrawalEvent = {
+    escrowAddress: string
+    secret: string
+    recipient: string
+    amount: bigint
+    timestamp: bigint
+}
+
+/**
+ * escrow_core::EscrowCancellationEvent
+ */
+export type EscrowCancellationEvent = {
+    escrowAddress: string
+    recipient: string
+    amount: bigint
+    timestamp: bigint
+}
+
+/**
+ * escrow_core::FundsRescueEvent
+ */
+export type FundsRescueEvent = {
+    escrowAddress: string
+    tokenType: string
+    amount: bigint
+    recipient: string
+    timestamp: bigint
+}
+
+/**
+ * merkle_validator::SecretValidationEvent
+ */
+export type SecretValidationEvent = {
+    orderHash: string
+    rootShortened: string
+    index: bigint
+    secretHash: string
+    timestamp: bigint
+}
+
+/**
+ * fee_bank::DepositEvent
+ */
+export type FeeBankDepositEvent = {
+    user: string
+    amount: bigint
+    totalCredit: bigint
+    timestamp: bigint
+}
+
+/**
+ * fee_bank::WithdrawalEvent
+ */
+export type FeeBankWithdrawalEvent = {
+    user: string
+    amount: bigint
+    remainingCredit: bigint
+    timestamp: bigint
+}
+
+/**
+ * fee_bank::FeeChargeEvent
+ */
+export type FeeChargeEvent = {
+    resolver: string
+    feeAmount: bigint
+    remainingCredit: bigint
+    timestamp: bigint
+}
+
+/**
+ * order_integration::PreInteractionEvent
+ */
+export type PreInteractionEvent = {
+    orderHash: string
+    taker: string
+    makingAmount: bigint
+    takingAmount: bigint
+    timestamp: bigint
+}
+
+/**
+ * order_integration::PostInteractionEvent
+ */
+export type PostInteractionEvent = {
+    orderHash: string
+    taker: string
+    escrowAddress: string
+    makingAmount: bigint
+    takingAmount: bigint
+    timestamp: bigint
+}
+
+/**
+ * order_integration::AmountCalculationEvent
+ */
+export type AmountCalculationEvent = {
+    orderHash: string
+    originalMakingAmount: bigint
+    originalTakingAmount: bigint
+    calculatedMakingAmount: bigint
+    calculatedTakingAmount: bigint
+    rateBump: bigint
+    timestamp: bigint
+}
@@ -0,0 +1,99 @@
+import {expect} from '@jest/globals'
+import Sdk from '@1inch/cross-chain-sdk'
+import {
+    ChainAddress,
+    decodeAptosDestination,
+    encodeAptosDestination,
+    getAptosDestinationSalt,
+    isAptosDestinationOf
+} from './chain-address'
+
+const TOKEN = '0xdef391b1c8951bf801f67a005f9eba70a5aae6d02eba6bb4889a88288ea806a2::my_token::SimpleToken'
+
+describe('ChainAddress', () => {
+    it('should parse and normalize each kind', () => {
+        expect(ChainAddress.parse('0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48').kind).toBe('evm')
+        expect(ChainAddress.parse('0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48').toString()).toBe(
+            '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48'
+        )
+        expect(ChainAddress.parse('0x0001').toString()).toBe('0x1')
+        expect(ChainAddress.parse('0xab').toString()).toBe('0x' + '0'.repeat(62) + 'ab')
+        expect(ChainAddress.parse('0x01::coin::CoinStore< 0x1::aptos_coin::AptosCoin >').toString()).toBe(
+            '0x1::coin::CoinStore<0x1::aptos_coin::AptosCoin>'
+        )
+        expect(
+            ChainAddress.aptosCoinType(' 0x1::aptos_coin::AptosCoin').equal(
+                ChainAddress.parse('0x1::aptos_coin::AptosCoin')
+            )
+        ).toBe(true)
+        expect(ChainAddress.aptosAccount('0x1').equal(ChainAddress.parse('0x1::aptos_coin::AptosCoin'))).toBe(false)
+
+        expect(() => ChainAddress.evm('0x1234')).toThrow()
+        expect(() => ChainAddress.aptosCoinType('0x1::aptos_coin')).toThrow('Invalid Aptos coin type')
+        expect(() => ChainAddress.aptosAccount('0x1').toSdkAddress()).toThrow('is not an EVM address')
+    })
+
+    it('should encode deterministically and decode back', () => {
+        const addresses = [
+            ChainAddress.evm('0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48'),
+            ChainAddress.aptosAccount('0xab'),
+            ChainAddress.aptosCoinType(TOKEN)
+        ]
+
+        addresses.forEach((address) => {
+            expect(ChainAddress.decode(address.encode()).equal(address)).toBe(true)
+        })
+        expect(addresses[0].encode()).toBe('0x00a0b86991c6218b36c1d19d4a2e9eb0ce3606eb48')
+        expect(addresses[1].encode()).toBe('0x01' + '0'.repeat(62) + 'ab')
+        expect(ChainAddress.aptosAccount('0x00ab').encode()).toBe(addresses[1].encode())
+        expect(() => ChainAddress.decode(addresses[0].encode() + '00')).toThrow('Unexpected 1 bytes')
+        expect(() => ChainAddress.decode('0x03')).toThrow('Unknown chain address kind 3')
+    })
+
+    it('should commit an EVM order to its Aptos destination through the salt', () => {
+        const destination = {receiver: ChainAddress.aptosAccount('0xab'), token: ChainAddress.aptosCoinType(TOKEN)}
+        const order = Sdk.CrossChainOrder.new(
+            new Sdk.Address('0x0000000000000000000000000000000000000001'),
+            {
+                salt: getAptosDestinationSalt(destination),
+                maker: new Sdk.Address('0x00000000000000000000000000000000000000bb'),
+                makingAmount: 100n,
+                takingAmount: 99n,
+                makerAsset: new Sdk.Address('0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48'),
+                takerAsset: new Sdk.Address('0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48')
+            },
+            {
+                hashLock: Sdk.HashLock.forSingleFill(Sdk.HashLock.hashSecret('0x' + '11'.repeat(32))),
+                timeLocks: Sdk.TimeLocks.new({
+                    srcWithdrawal: 10n,
+                    srcPublicWithdrawal: 120n,
+                    srcCancellation: 121n,
+                    srcPublicCancellation: 122n,
+                    dstWithdrawal: 10n,
+                    dstPublicWithdrawal: 100n,
+                    dstCancellation: 101n
+                }),
+                srcChainId: Sdk.NetworkEnum.ETHEREUM,
+                dstChainId: Sdk.NetworkEnum.COINBASE,
+                srcSafetyDeposit: 1n,
+                dstSafetyDeposit: 1n
+            },
+            {
+                auction: new Sdk.AuctionDetails({initialRateBump: 0, points: [], duration: 120n, startTime: 1n}),
+                whitelist: [{address: new Sdk.Address('0x00000000000000000000000000000000000000aa'), allowFrom: 0n}],
+                resolvingStartTime: 0n
+            },
+            {nonce: 1n, allowPartialFills: false, allowMultipleFills: false}
+        )
+        const restored = Sdk.CrossChainOrder.fromDataAndExtension(order.build(), order.extension)
+
+        expect(decodeAptosDestination(encodeAptosDestination(destination)).token.equal(destination.token)).toBe(true)
+        expect(isAptosDestinationOf(restored, destination)).toBe(true)
+        expect(isAptosDestinationOf(restored, {...destination, receiver: ChainAddress.aptosAccount('0xac')})).toBe(
+            false
+        )
+        expect(() => getAptosDestinationSalt({receiver: destination.token, token: destination.receiver})).toThrow(
+            'needs an account and a coin type'
+        )
+    })
+})
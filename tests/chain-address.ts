@@ -0,0 +1,249 @@
+import {AccountAddress, Deserializer, Hex, Serializer} from '@aptos-labs/ts-sdk'
+import Sdk from '@1inch/cross-chain-sdk'
+import {keccak256} from 'ethers'
+
+export type ChainAddressKind = 'evm' | 'aptosAccount' | 'aptosCoinType'
+
+// Variant indexes of the BCS encoding, an enum { Evm([u8; 20]), AptosAccount(address), AptosCoinType(String) }
+const KIND_INDEX: ChainAddressKind[] = ['evm', 'aptosAccount', 'aptosCoinType']
+
+const EVM_ADDRESS_LENGTH = 20
+
+/**
+ * Address on either chain of a swap: a 20 byte EVM address, a 32 byte Aptos account or a fully qualified Aptos
+ * coin type. Values are normalized on creation, so equal addresses have equal strings and encodings:
+ *
+ * - EVM addresses are lower case
+ * - Aptos addresses are in the AIP-40 form, short for special addresses and long otherwise, as in coin types
+ */
+export class ChainAddress {
+    private constructor(
+        public readonly kind: ChainAddressKind,
+        private readonly value: string
+    ) {}
+
+    /**
+     * @throws if `address` is not a 20 byte hex address
+     */
+    static evm(address: string): ChainAddress {
+        return new ChainAddress('evm', new Sdk.Address(address).toString())
+    }
+
+    /**
+     * @throws if `address` is not an Aptos address
+     */
+    static aptosAccount(address: string): ChainAddress {
+        return new ChainAddress('aptosAccount', normalizeAptosAddress(address))
+    }
+
+    /**
+     * @param coinType `address::module::Name`, with type arguments if any
+     * @throws if `coinType` is not a struct type
+     */
+    static aptosCoinType(coinType: string): ChainAddress {
+        return new ChainAddress('aptosCoinType', normalizeCoinType(coinType))
+    }
+
+    /**
+     * Guesses the kind from the format: a coin type has `::`, 40 hex digits are an EVM address and any other hex an
+     * Aptos account. An Aptos account written with 40 digits must be created with aptosAccount instead
+     */
+    static parse(value: string): ChainAddress {
+        if (value.includes('::')) {
+            return ChainAddress.aptosCoinType(value)
+        }
+
+        if (/^0x[0-9a-fA-F]{40}$/.test(value.trim())) {
+            return ChainAddress.evm(value.trim())
+        }
+
+        return ChainAddress.aptosAccount(value)
+    }
+
+    /**
+     * @throws if `encoded` is not one ChainAddress.encode() output
+     */
+    static decode(encoded: string): ChainAddress {
+        const deserializer = new Deserializer(Hex.fromHexInput(encoded).toUint8Array())
+        const address = ChainAddress.deserialize(deserializer)
+
+        if (deserializer.remaining() !== 0) {
+            throw new Error(`Unexpected ${deserializer.remaining()} bytes after the encoded address`)
+        }
+
+        return address
+    }
+
+    static deserialize(deserializer: Deserializer): ChainAddress {
+        const index = deserializer.deserializeUleb128AsU32()
+
+        switch (KIND_INDEX[index]) {
+            case 'evm':
+                return ChainAddress.evm(
+                    Hex.fromHexInput(deserializer.deserializeFixedBytes(EVM_ADDRESS_LENGTH)).toString()
+                )
+            case 'aptosAccount':
+                return ChainAddress.aptosAccount(AccountAddress.deserialize(deserializer).toString())
+            case 'aptosCoinType':
+                return ChainAddress.aptosCoinType(deserializer.deserializeStr())
+            default:
+                throw new Error(`Unknown chain address kind ${index}`)
+        }
+    }
+
+    public toString(): string {
+        return this.value
+    }
+
+    public equal(other: ChainAddress): boolean {
+        return this.kind === other.kind && this.value === other.value
+    }
+
+    /**
+     * @throws if the address is not an EVM address
+     */
+    public toSdkAddress(): Sdk.Address {
+        if (this.kind !== 'evm') {
+            throw new Error(`${this.value} is not an EVM address`)
+        }
+
+        return new Sdk.Address(this.value)
+    }
+
+    /**
+     * BCS encoding, the variant index followed by the 20 address bytes, the 32 account bytes or the coin type string
+     */
+    public encode(): string {
+        const serializer = new Serializer()
+        this.serialize(serializer)
+
+        return Hex.fromHexInput(serializer.toUint8Array()).toString()
+    }
+
+    public serialize(serializer: Serializer): void {
+        serializer.serializeU32AsUleb128(KIND_INDEX.indexOf(this.kind))
+
+        switch (this.kind) {
+            case 'evm':
+                serializer.serializeFixedBytes(Hex.fromHexInput(this.value).toUint8Array())
+                break
+            case 'aptosAccount':
+                serializer.serialize(AccountAddress.from(this.value))
+                break
+            case 'aptosCoinType':
+                serializer.serializeStr(this.value)
+                break
+        }
+    }
+}
+
+/**
+ * Aptos receiver and coin of an EVM order filled into an Aptos destination escrow
+ */
+export type AptosDestination = {
+    receiver: ChainAddress
+    token: ChainAddress
+}
+
+// The Sdk rebuilds the order extension from the fields it knows, an Aptos destination put in its custom data would
+// be lost with fromDataAndExtension. The signed order carries it instead through its salt: the 96 bits above the
+// extension hash are the top 96 bits of keccak256(encodeAptosDestination(destination)).
+
+/**
+ * BCS encoding of the receiver then the token
+ */
+export function encodeAptosDestination(destination: AptosDestination): string {
+    const serializer = new Serializer()
+    destination.receiver.serialize(serializer)
+    destination.token.serialize(serializer)
+
+    return Hex.fromHexInput(serializer.toUint8Array()).toString()
+}
+
+/**
+ * @throws if `encoded` is not one encodeAptosDestination output or does not name an Aptos account and coin type
+ */
+export function decodeAptosDestination(encoded: string): AptosDestination {
+    const deserializer = new Deserializer(Hex.fromHexInput(encoded).toUint8Array())
+    const receiver = ChainAddress.deserialize(deserializer)
+    const token = ChainAddress.deserialize(deserializer)
+
+    if (deserializer.remaining() !== 0) {
+        throw new Error(`Unexpected ${deserializer.remaining()} bytes after the encoded destination`)
+    }
+
+    assertAptosDestination({receiver, token})
+
+    return {receiver, token}
+}
+
+/**
+ * Salt of an Sdk.CrossChainOrder naming `destination`, pass it as the order info salt
+ *
+ * @throws if the receiver is not an Aptos account or the token not a coin type
+ */
+export function getAptosDestinationSalt(destination: AptosDestination): bigint {
+    assertAptosDestination(destination)
+
+    return BigInt(keccak256(encodeAptosDestination(destination))) >> 160n
+}
+
+/**
+ * Whether `order` was signed for `destination`
+ */
+export function isAptosDestinationOf(order: Sdk.CrossChainOrder, destination: AptosDestination): boolean {
+    return order.salt >> 160n === getAptosDestinationSalt(destination)
+}
+
+function assertAptosDestination({receiver, token}: AptosDestination): void {
+    if (receiver.kind !== 'aptosAccount' || token.kind !== 'aptosCoinType') {
+        throw new Error(`Aptos destination needs an account and a coin type, got ${receiver.kind} and ${token.kind}`)
+    }
+}
+
+function normalizeAptosAddress(address: string): string {
+    return AccountAddress.from(address.trim(), {maxMissingChars: 63}).toString()
+}
+
+function normalizeCoinType(coinType: string): string {
+    const match = /^\s*(0x[0-9a-fA-F]+)::(\w+)::(\w+)\s*(?:<(.*)>)?\s*$/.exec(coinType)
+
+    if (!match) {
+        throw new Error(`Invalid Aptos coin type ${coinType}`)
+    }
+
+    const [, address, module, name, typeArgs] = match
+    const struct = `${normalizeAptosAddress(address)}::${module}::${name}`
+
+    return typeArgs === undefined ? struct : `${struct}<${splitTypeArgs(typeArgs).map(normalizeTypeArg).join(', ')}>`
+}
+
+function normalizeTypeArg(typeArg: string): string {
+    const vector = /^vector\s*<(.*)>$/.exec(typeArg)
+
+    if (vector) {
+        return `vector<${normalizeTypeArg(vector[1].trim())}>`
+    }
+
+    return typeArg.includes('::') ? normalizeCoinType(typeArg) : typeArg
+}
+
+// Splits on the commas outside of nested type arguments
+function splitTypeArgs(typeArgs: string): string[] {
+    const args: string[] = []
+    let depth = 0
+    let start = 0
+
+    for (let i = 0; i < typeArgs.length; i++) {
+        if (typeArgs[i] === '<') {
+            depth++
+        } else if (typeArgs[i] === '>') {
+            depth--
+        } else if (typeArgs[i] === ',' && depth === 0) {
+            args.push(typeArgs.slice(start, i).trim())
+            start = i + 1
+        }
+    }
+
+    return [...args, typeArgs.slice(start).trim()]
+}
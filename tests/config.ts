@@ -28,6 +28,7 @@ export const config = {
             tokens: {
                 USDC: {
                     address: '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48',
+                    decimals: 6,
                     donor: '0xd54F23BE482D9A58676590fCa79c8E43087f92fB'
                 }
             }
@@ -42,6 +43,7 @@ export const config = {
             tokens: {
                 USDC: {
                     address: '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48',
+                    decimals: 6,
                     donor: '0x4B16c5dE96EB2117bBE5fd171E4d203624B014aa'
                 }
             }
@@ -56,7 +58,9 @@ export const config = {
             blockNumber: 19991288,
             tokens: {
                 MY_TOKEN: {
-                    address: '0xdef391b1c8951bf801f67a005f9eba70a5aae6d02eba6bb4889a88288ea806a2::token::SimpleToken',
+                    address:
+                        '0xdef391b1c8951bf801f67a005f9eba70a5aae6d02eba6bb4889a88288ea806a2::my_token::SimpleToken',
+                    decimals: 8,
                     donor: '0xdef391b1c8951bf801f67a005f9eba70a5aae6d02eba6bb4889a88288ea806a2'
                 }
             }
@@ -71,6 +75,7 @@ export const config = {
             tokens: {
                 USDC: {
                     address: '0x8965349fb649a33a30cbfda057d8ec2c48abe2a2',
+                    decimals: 6,
                     donor: '0x4188663a85C92EEa35b5AD3AA5cA7CeB237C6fe9'
                 }
             }
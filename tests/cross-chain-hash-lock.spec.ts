@@ -0,0 +1,85 @@
+import {expect} from '@jest/globals'
+import Sdk from '@1inch/cross-chain-sdk'
+import {keccak256} from 'ethers'
+import sha3 from 'js-sha3'
+import {AptosMultiFillHashLock} from './aptos-multi-fill-hash-lock'
+import {CrossChainHashLock} from './cross-chain-hash-lock'
+
+const secret = (i: number): string => '0x' + i.toString(16).padStart(2, '0').repeat(32)
+
+const sha3Hex = (hex: string): string => '0x' + sha3.sha3_256(Buffer.from(hex.slice(2), 'hex'))
+
+describe('CrossChainHashLock', () => {
+    describe('single fill', () => {
+        const hashLock = CrossChainHashLock.forSingleFill(secret(1))
+
+        it('should lock the EVM escrows on keccak256 and the Aptos escrows on sha3_256 of the secret', () => {
+            expect(hashLock.isMultipleFills).toBe(false)
+            expect(hashLock.evm.toString()).toBe(keccak256(secret(1)))
+            expect(hashLock.getEvmHashLock().eq(hashLock.evm)).toBe(true)
+            expect(hashLock.getAptosHashlock()).toBe(sha3Hex(secret(1)))
+            expect(hashLock.aptos).toBe(hashLock.getAptosHashlock())
+            expect(hashLock.getAptosTakerData()).toEqual({proof: [], idx: 0n, secretHash: sha3Hex(secret(1))})
+        })
+
+        it('should verify only its secret', () => {
+            expect(hashLock.verify(secret(1))).toBe(true)
+            expect(hashLock.verify(secret(2))).toBe(false)
+            expect(hashLock.verify(secret(1), 1)).toBe(false)
+            expect(hashLock.verify('0x01')).toBe(false)
+            expect(() => hashLock.getAptosHashlock(1)).toThrow('Secret index 1 out of range')
+        })
+
+        it('should generate a fresh secret', () => {
+            const random = CrossChainHashLock.new()
+
+            expect(random.secrets).toHaveLength(1)
+            expect(random.verify(random.secrets[0])).toBe(true)
+            expect(random.secrets[0]).not.toBe(CrossChainHashLock.new().secrets[0])
+        })
+    })
+
+    describe('multiple fills', () => {
+        const secrets = [secret(1), secret(2), secret(3), secret(4)]
+        const hashLock = CrossChainHashLock.forMultipleFills(secrets)
+        const aptosTree = AptosMultiFillHashLock.fromSecrets(secrets)
+
+        it('should lock the source escrows on the merkle roots of both chains', () => {
+            expect(hashLock.isMultipleFills).toBe(true)
+            expect(hashLock.evm.eq(Sdk.HashLock.forMultipleFills(Sdk.HashLock.getMerkleLeaves(secrets)))).toBe(true)
+            expect(hashLock.aptos).toBe(aptosTree.hashlockInfo)
+            expect(hashLock.aptos).toBe(aptosTree.root.slice(0, 2 + 30 * 2) + '0003')
+        })
+
+        it('should lock every fill escrow on the hashes of its own secret', () => {
+            secrets.forEach((s, idx) => {
+                expect(hashLock.getEvmHashLock(idx).toString()).toBe(keccak256(s))
+                expect(hashLock.getAptosHashlock(idx)).toBe(sha3Hex(s))
+
+                const {proof, secretHash} = hashLock.getAptosTakerData(idx)
+
+                expect(secretHash).toBe(sha3Hex(s))
+                expect(
+                    AptosMultiFillHashLock.processProof(proof, AptosMultiFillHashLock.getLeaf(idx, secretHash))
+                ).toBe(aptosTree.root)
+            })
+        })
+
+        it('should verify each secret at its own index only', () => {
+            secrets.forEach((s, idx) => expect(hashLock.verify(s, idx)).toBe(true))
+
+            expect(hashLock.verify(secret(2), 0)).toBe(false)
+            expect(hashLock.verify(secret(5), 3)).toBe(false)
+            expect(hashLock.verify(secret(1), 4)).toBe(false)
+            expect(hashLock.verify(secret(1), -1)).toBe(false)
+        })
+
+        it('should generate a secret per part plus one', () => {
+            const random = CrossChainHashLock.new(3)
+
+            expect(random.isMultipleFills).toBe(true)
+            expect(random.secrets).toHaveLength(4)
+            expect(random.verify(random.secrets[3], 3)).toBe(true)
+        })
+    })
+})
@@ -0,0 +1,120 @@
+import Sdk from '@1inch/cross-chain-sdk'
+import {getBytesCount, isHexBytes, uint8ArrayToHex} from '@1inch/byte-utils'
+import {randomBytes} from 'ethers'
+import {AptosMultiFillHashLock} from './aptos-multi-fill-hash-lock'
+import {TakerData} from './aptos-types'
+
+/**
+ * Hashlocks of both legs of a swap derived from the same secrets: keccak256 for the EVM escrows, as built by
+ * Sdk.HashLock, and sha3_256 for the Aptos escrows, as checked by escrow_core and merkle_validator.
+ *
+ * With a single secret both legs lock on its hashes, with several the source escrow locks on a Merkle root of
+ * all secrets and every fill escrow on the hashes of one of them
+ */
+export class CrossChainHashLock {
+    private constructor(
+        public readonly secrets: string[],
+        /**
+         * Hashlock of the order escrow extension, passed to Resolver.deploySrc along with the order
+         */
+        public readonly evm: Sdk.HashLock,
+        private readonly aptosMultiFill?: AptosMultiFillHashLock
+    ) {}
+
+    get isMultipleFills(): boolean {
+        return this.aptosMultiFill !== undefined
+    }
+
+    /**
+     * SrcEscrowArgs.hashlock_info of an Aptos source escrow: the sha3_256 secret hash for a single fill,
+     * otherwise the first 30 bytes of the Merkle root, `root[0..30]`, followed by the parts count as a big-endian u16,
+     * as built by AptosMultiFillHashLock.hashlockInfo
+     */
+    get aptos(): string {
+        return this.aptosMultiFill ? this.aptosMultiFill.hashlockInfo : this.getAptosHashlock()
+    }
+
+    /**
+     * A random secret per part plus one for the fill completing the order, a single secret for `partsCount` 1
+     */
+    static new(partsCount = 1): CrossChainHashLock {
+        if (partsCount === 1) {
+            return CrossChainHashLock.forSingleFill(uint8ArrayToHex(randomBytes(32)))
+        }
+
+        return CrossChainHashLock.forMultipleFills(AptosMultiFillHashLock.new(partsCount).secrets)
+    }
+
+    static forSingleFill(secret: string): CrossChainHashLock {
+        return new CrossChainHashLock([secret], Sdk.HashLock.forSingleFill(secret))
+    }
+
+    static forMultipleFills(secrets: string[]): CrossChainHashLock {
+        const aptosMultiFill = AptosMultiFillHashLock.fromSecrets(secrets)
+        const evm = Sdk.HashLock.forMultipleFills(Sdk.HashLock.getMerkleLeaves(secrets))
+
+        return new CrossChainHashLock(secrets, evm, aptosMultiFill)
+    }
+
+    /**
+     * Hashlock of the EVM escrow `secrets[idx]` unlocks, the destination escrow or the source escrow of a fill
+     */
+    public getEvmHashLock(idx = 0): Sdk.HashLock {
+        this.assertIndex(idx)
+
+        return this.isMultipleFills ? Sdk.HashLock.fromString(Sdk.HashLock.hashSecret(this.secrets[idx])) : this.evm
+    }
+
+    /**
+     * EscrowImmutables.hashlock of the Aptos escrow `secrets[idx]` unlocks, passed to resolver::deploy_dst_escrow
+     */
+    public getAptosHashlock(idx = 0): string {
+        this.assertIndex(idx)
+
+        return AptosMultiFillHashLock.hashSecret(this.secrets[idx])
+    }
+
+    /**
+     * Taker data of an Aptos source escrow unlocked by `secrets[idx]`, with an empty proof for a single fill
+     */
+    public getAptosTakerData(idx = 0): TakerData {
+        this.assertIndex(idx)
+
+        if (this.aptosMultiFill) {
+            return this.aptosMultiFill.getTakerData(idx)
+        }
+
+        return {proof: [], idx: 0n, secretHash: this.getAptosHashlock()}
+    }
+
+    /**
+     * Whether `secret` revealed for fill `idx` opens the escrows of both chains
+     */
+    public verify(secret: string, idx = 0): boolean {
+        const isSecret = isHexBytes(secret) && getBytesCount(secret) === 32n
+
+        if (!isSecret || !Number.isInteger(idx) || idx < 0 || idx >= this.secrets.length) {
+            return false
+        }
+
+        if (!this.aptosMultiFill) {
+            return (
+                Sdk.HashLock.forSingleFill(secret).eq(this.evm) &&
+                AptosMultiFillHashLock.hashSecret(secret) === this.getAptosHashlock()
+            )
+        }
+
+        const secrets = this.secrets.map((s, i) => (i === idx ? secret : s))
+
+        return (
+            Sdk.HashLock.forMultipleFills(Sdk.HashLock.getMerkleLeaves(secrets)).eq(this.evm) &&
+            AptosMultiFillHashLock.fromSecrets(secrets).root === this.aptosMultiFill.root
+        )
+    }
+
+    private assertIndex(idx: number): void {
+        if (!Number.isInteger(idx) || idx < 0 || idx >= this.secrets.length) {
+            throw new Error(`Secret index ${idx} out of range, the hashlock has ${this.secrets.length} secrets`)
+        }
+    }
+}
@@ -1,4 +1,4 @@
-import {id, Interface, JsonRpcProvider} from 'ethers'
+import {id, Interface, JsonRpcProvider, Result} from 'ethers'
 import Sdk from '@1inch/cross-chain-sdk'
 import EscrowFactoryContract from '../dist/contracts/EscrowFactory.sol/EscrowFactory.json'
 
@@ -40,22 +40,97 @@ export class EscrowFactory {
             topics: [event.topicHash]
         })
 
-        const [data] = logs.map((l) => this.iface.decodeEventLog(event, l.data))
+        const [data] = logs.map((l) => this.decodeSrcDeployEvent(l.data))
 
-        const immutables = data.at(0)
-        const complement = data.at(1)
+        return data
+    }
+
+    /**
+     * Source escrows deployed from `fromBlock` to `toBlock`, both included
+     */
+    public async getSrcDeployEvents(
+        fromBlock: number,
+        toBlock?: number
+    ): Promise<[Sdk.Immutables, Sdk.DstImmutablesComplement][]> {
+        const logs = await this.provider.getLogs({
+            fromBlock,
+            toBlock,
+            address: this.address,
+            topics: [this.iface.getEvent('SrcEscrowCreated')!.topicHash]
+        })
+
+        return logs.map((l) => this.decodeSrcDeployEvent(l.data))
+    }
+
+    /**
+     * Destination escrows deployed from `fromBlock` to `toBlock`, both included. The event does not carry the
+     * immutables, they are in the deployment transaction
+     */
+    public async getDstDeployEvents(
+        fromBlock: number,
+        toBlock?: number
+    ): Promise<
+        {escrowAddress: Sdk.Address; hashLock: Sdk.HashLock; taker: Sdk.Address; txHash: string; blockNumber: number}[]
+    > {
+        const event = this.iface.getEvent('DstEscrowCreated')!
+        const logs = await this.provider.getLogs({fromBlock, toBlock, address: this.address, topics: [event.topicHash]})
+
+        return logs.map((l) => {
+            const [escrow, hashlock, taker] = this.iface.decodeEventLog(event, l.data)
+
+            return {
+                escrowAddress: new Sdk.Address(escrow),
+                hashLock: Sdk.HashLock.fromString(hashlock),
+                taker: Sdk.Address.fromBigInt(taker),
+                txHash: l.transactionHash,
+                blockNumber: l.blockNumber
+            }
+        })
+    }
+
+    /**
+     * Looks for the source escrow of `orderHash` deployed since `fromBlock`, e.g. by a resolver which crashed before
+     * recording it
+     */
+    public async findSrcDeployEvent(
+        orderHash: string,
+        fromBlock: number
+    ): Promise<[Sdk.Immutables, Sdk.DstImmutablesComplement] | undefined> {
+        const events = await this.getSrcDeployEvents(fromBlock)
+
+        return events.find(([immutables]) => immutables.orderHash.toLowerCase() === orderHash.toLowerCase())
+    }
+
+    /**
+     * Looks for the destination escrow locked on `hashLock` for `taker` deployed since `fromBlock`
+     *
+     * @returns the escrow address and its deployment time, the `deployedAt` of its immutables
+     */
+    public async findDstDeployEvent(
+        hashLock: Sdk.HashLock,
+        taker: Sdk.Address,
+        fromBlock: number
+    ): Promise<{escrowAddress: Sdk.Address; blockTimestamp: bigint} | undefined> {
+        const events = await this.getDstDeployEvents(fromBlock)
+        const event = events.find((e) => e.hashLock.eq(hashLock) && e.taker.equal(taker))
+
+        if (!event) {
+            return undefined
+        }
+
+        const block = await this.provider.getBlock(event.blockNumber)
+
+        return {escrowAddress: event.escrowAddress, blockTimestamp: BigInt(block!.timestamp)}
+    }
+
+    private decodeSrcDeployEvent(data: string): [Sdk.Immutables, Sdk.DstImmutablesComplement] {
+        const decoded = this.iface.decodeEventLog(this.iface.getEvent('SrcEscrowCreated')!, data)
+
+        const immutables = decoded.at(0)
+        const complement = decoded.at(1)
 
         return [
-            Sdk.Immutables.new({
-                orderHash: immutables[0],
-                hashLock: Sdk.HashLock.fromString(immutables[1]),
-                maker: Sdk.Address.fromBigInt(immutables[2]),
-                taker: Sdk.Address.fromBigInt(immutables[3]),
-                token: Sdk.Address.fromBigInt(immutables[4]),
-                amount: immutables[5],
-                safetyDeposit: immutables[6],
-                timeLocks: Sdk.TimeLocks.fromBigInt(immutables[7])
-            }),
+            decodeImmutables(immutables),
             Sdk.DstImmutablesComplement.new({
                 maker: Sdk.Address.fromBigInt(complement[0]),
                 amount: complement[1],
@@ -65,3 +140,19 @@ export class EscrowFactory {
         ]
     }
 }
+
+/**
+ * IBaseEscrow.Immutables as decoded by ethers, addresses are Address user types, so uint256
+ */
+export function decodeImmutables(immutables: Result): Sdk.Immutables {
+    return Sdk.Immutables.new({
+        orderHash: immutables[0],
+        hashLock: Sdk.HashLock.fromString(immutables[1]),
+        maker: Sdk.Address.fromBigInt(immutables[2]),
+        taker: Sdk.Address.fromBigInt(immutables[3]),
+        token: Sdk.Address.fromBigInt(immutables[4]),
+        amount: immutables[5],
+        safetyDeposit: immutables[6],
+        timeLocks: Sdk.TimeLocks.fromBigInt(immutables[7])
+    })
+}
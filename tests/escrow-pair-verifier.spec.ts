@@ -0,0 +1,300 @@
+import {expect} from '@jest/globals'
+import {Account} from '@aptos-labs/ts-sdk'
+import Sdk from '@1inch/cross-chain-sdk'
+import {AbiCoder, id, JsonRpcProvider, TransactionRequest} from 'ethers'
+import {AptosCrossChainOrder} from './aptos-cross-chain-order'
+import {AptosEscrowClient} from './aptos-escrow-client'
+import {fromSdkTimeLocks} from './aptos-timelocks'
+import {Escrow, TimelockDelays} from './aptos-types'
+import {AptosDestination, ChainAddress, getAptosDestinationSalt} from './chain-address'
+import {CrossChainHashLock} from './cross-chain-hash-lock'
+import {EscrowPairMismatch, EscrowPairVerifier, EvmOrderExpectation} from './escrow-pair-verifier'
+import {TokenRegistry} from './token-registry'
+
+const FACTORY = '0x0000000000000000000000000000000000000f00'
+const SRC_IMPL = '0x0000000000000000000000000000000000000a01'
+const DST_IMPL = '0x0000000000000000000000000000000000000a02'
+const EVM_TOKEN = '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48'
+const RESOLVER = '0x00000000000000000000000000000000000000aa'
+const APTOS_PACKAGE = '0xdef391b1c8951bf801f67a005f9eba70a5aae6d02eba6bb4889a88288ea806a2'
+const APTOS_RESOLVER = '0x' + '12'.repeat(32)
+const COIN = '0x1::aptos_coin::AptosCoin'
+
+const delays: TimelockDelays = {
+    srcWithdrawalDelay: 10,
+    srcPublicWithdrawalDelay: 120,
+    srcCancellationDelay: 121,
+    srcPublicCancellationDelay: 122,
+    dstWithdrawalDelay: 10,
+    dstPublicWithdrawalDelay: 100,
+    dstCancellationDelay: 101
+}
+
+const coder = AbiCoder.defaultAbiCoder()
+
+// EVM chain holding `balances` of EVM_TOKEN and of native coin per escrow address
+function evmProvider(balances: Record<string, {token: bigint; native: bigint}>): JsonRpcProvider {
+    const balanceOf = id('balanceOf(address)').slice(0, 10)
+    const implementations: Record<string, string> = {
+        [id('ESCROW_SRC_IMPLEMENTATION()').slice(0, 10)]: SRC_IMPL,
+        [id('ESCROW_DST_IMPLEMENTATION()').slice(0, 10)]: DST_IMPL
+    }
+
+    return {
+        call: async ({data}: TransactionRequest) => {
+            const selector = String(data).slice(0, 10)
+
+            if (selector === balanceOf) {
+                const [owner] = coder.decode(['address'], '0x' + String(data).slice(10))
+
+                return coder.encode(['uint256'], [balances[owner.toLowerCase()]?.token ?? 0n])
+            }
+
+            return coder.encode(['address'], [implementations[selector]])
+        },
+        getBalance: async (address: string) => balances[address.toLowerCase()]?.native ?? 0n
+    } as unknown as JsonRpcProvider
+}
+
+function aptosClient(escrows: Record<string, Escrow>): AptosEscrowClient {
+    return {
+        getEscrow: async (address: string) => {
+            if (!escrows[address]) {
+                throw new Error(`No escrow resource found at ${address}`)
+            }
+
+            return escrows[address]
+        }
+    } as unknown as AptosEscrowClient
+}
+
+describe('EscrowPairVerifier', () => {
+    describe('EVM order filled into an Aptos escrow', () => {
+        const srcChainId = Sdk.NetworkEnum.ETHEREUM
+        const hashLock = CrossChainHashLock.new()
+        const receiver = Account.generate().accountAddress.toString()
+        const destination: AptosDestination = {
+            receiver: ChainAddress.aptosAccount(receiver),
+            token: ChainAddress.aptosCoinType(COIN)
+        }
+        const order = Sdk.CrossChainOrder.new(
+            new Sdk.Address(FACTORY),
+            {
+                salt: getAptosDestinationSalt(destination),
+                maker: new Sdk.Address('0x00000000000000000000000000000000000000bb'),
+                makingAmount: 100n,
+                takingAmount: 99n,
+                makerAsset: new Sdk.Address(EVM_TOKEN),
+                takerAsset: new Sdk.Address(EVM_TOKEN)
+            },
+            {
+                hashLock: hashLock.evm,
+                timeLocks: Sdk.TimeLocks.new({
+                    srcWithdrawal: 10n,
+                    srcPublicWithdrawal: 120n,
+                    srcCancellation: 121n,
+                    srcPublicCancellation: 122n,
+                    dstWithdrawal: 10n,
+                    dstPublicWithdrawal: 100n,
+                    dstCancellation: 101n
+                }),
+                srcChainId,
+                dstChainId: Sdk.NetworkEnum.COINBASE,
+                srcSafetyDeposit: 5n,
+                dstSafetyDeposit: 7n
+            },
+            {
+                auction: new Sdk.AuctionDetails({initialRateBump: 0, points: [], duration: 120n, startTime: 1n}),
+                whitelist: [{address: new Sdk.Address(RESOLVER), allowFrom: 0n}],
+                resolvingStartTime: 0n
+            },
+            {nonce: 1n, allowPartialFills: false, allowMultipleFills: false}
+        )
+        const srcImmutables = order
+            .toSrcImmutables(srcChainId, new Sdk.Address(RESOLVER), order.makingAmount, hashLock.evm)
+            .withDeployedAt(1000n)
+        const complement = Sdk.DstImmutablesComplement.new({
+            maker: order.receiver,
+            amount: order.takingAmount,
+            token: new Sdk.Address(EVM_TOKEN),
+            safetyDeposit: 7n
+        })
+        const srcEscrowAddress = new Sdk.EscrowFactory(new Sdk.Address(FACTORY))
+            .getSrcEscrowAddress(srcImmutables, new Sdk.Address(SRC_IMPL))
+            .toString()
+
+        const dstEscrow = (update: Partial<Escrow['immutables']> = {}): Escrow => ({
+            immutables: {
+                orderHash: srcImmutables.orderHash,
+                hashlock: hashLock.getAptosHashlock(),
+                maker: receiver,
+                taker: APTOS_RESOLVER,
+                tokenType: COIN,
+                amount: 99n,
+                safetyDeposit: 7n,
+                timelocks: {...fromSdkTimeLocks(srcImmutables.timeLocks), deployedAt: 1010n},
+                ...update
+            },
+            lockedAmount: 99n,
+            safetyDeposit: 7n,
+            isCompleted: false
+        })
+
+        // The coin has the decimals of the taker asset unless a test registers it with others
+        const tokens = (coinDecimals = 6): TokenRegistry =>
+            new TokenRegistry().register(Sdk.NetworkEnum.COINBASE, EVM_TOKEN, 6).register('APTOS', COIN, coinDecimals)
+
+        const verify = (
+            escrow: Escrow,
+            expected: EvmOrderExpectation = {order, srcChainId, hashLock, destination},
+            registry = tokens()
+        ): Promise<EscrowPairMismatch[]> =>
+            new EscrowPairVerifier(
+                evmProvider({[srcEscrowAddress.toLowerCase()]: {token: 100n, native: 5n}}),
+                FACTORY,
+                aptosClient({'0xd57': escrow}),
+                registry
+            ).verifyEscrowPair(srcImmutables, complement, '0xd57', expected)
+
+        it('should pass escrows holding what the signed order promised', async () => {
+            expect(await verify(dstEscrow())).toEqual([])
+        })
+
+        it('should scale the complement amount to the decimals of the coin', async () => {
+            const scaled = {...dstEscrow({amount: 9900n}), lockedAmount: 9900n}
+
+            expect(await verify(scaled, undefined, tokens(8))).toEqual([])
+            expect((await verify(dstEscrow(), undefined, tokens(8))).map((m) => m.field)).toEqual([
+                'dst.amount',
+                'dst.lockedAmount'
+            ])
+            await expect(verify(dstEscrow(), undefined, new TokenRegistry())).rejects.toThrow('Unknown token')
+        })
+
+        it('should take the Aptos hashlock, receiver and coin from the signed order', async () => {
+            const mismatches = await verify(
+                dstEscrow({
+                    hashlock: CrossChainHashLock.new().getAptosHashlock(),
+                    maker: Account.generate().accountAddress.toString(),
+                    tokenType: '0x1::other::Coin'
+                })
+            )
+
+            expect(mismatches.map((m) => m.field)).toEqual(['dst.hashlock', 'dst.maker', 'dst.tokenType'])
+        })
+
+        it('should reject secrets and destinations the order was not signed for', async () => {
+            const otherDestination = {...destination, receiver: ChainAddress.aptosAccount(APTOS_RESOLVER)}
+            const otherHashLock = CrossChainHashLock.new()
+
+            expect(
+                (await verify(dstEscrow(), {order, srcChainId, hashLock, destination: otherDestination})).map(
+                    (m) => m.field
+                )
+            ).toEqual(['order.aptosDestination', 'dst.maker'])
+            expect(
+                (await verify(dstEscrow(), {order, srcChainId, hashLock: otherHashLock, destination})).map(
+                    (m) => m.field
+                )
+            ).toEqual(['order.hashLock', 'src.hashLock', 'dst.hashlock'])
+            expect(
+                (await verify(dstEscrow(), {order, srcChainId: srcChainId + 1, hashLock, destination})).map(
+                    (m) => m.field
+                )
+            ).toEqual(['src.orderHash'])
+        })
+
+        it('should require the destination escrow to be cancellable before the source one', async () => {
+            const late = dstEscrow()
+            late.immutables.timelocks.deployedAt = 1030n
+
+            expect((await verify(late)).map((m) => m.field)).toEqual(['dst.cancellation'])
+        })
+    })
+
+    describe('Aptos order filled into an EVM escrow', () => {
+        const srcChainId = 2
+        const hashLock = CrossChainHashLock.new()
+        const maker = Account.generate().accountAddress.toString()
+        const order = AptosCrossChainOrder.new(
+            APTOS_PACKAGE,
+            {
+                maker,
+                receiver: '0x000000000000000000000000f39fd6e51aad88f6f4ce6ab8827279cfffb92266',
+                makerAsset: COIN,
+                takerAsset: EVM_TOKEN,
+                makingAmount: 100n,
+                takingAmount: 99n
+            },
+            {hashLock: hashLock.aptos, dstChainId: 1n, srcSafetyDeposit: 5n, dstSafetyDeposit: 7n, timeLocks: delays},
+            {
+                auction: {
+                    gasBumpEstimate: 0,
+                    gasPriceEstimate: 0,
+                    startTime: 1,
+                    duration: 120,
+                    initialRateBump: 0,
+                    auctionPoints: []
+                },
+                whitelist: []
+            }
+        )
+        const srcEscrow: Escrow = {
+            immutables: {
+                ...order.toSrcImmutables(srcChainId, APTOS_RESOLVER, 100n),
+                timelocks: {...delays, deployedAt: 1000n}
+            },
+            lockedAmount: 100n,
+            safetyDeposit: 5n,
+            isCompleted: false
+        }
+        const dstImmutables = Sdk.Immutables.new({
+            orderHash: order.getOrderHash(srcChainId),
+            hashLock: hashLock.evm,
+            maker: new Sdk.Address('0xf39fd6e51aad88f6f4ce6ab8827279cfffb92266'),
+            taker: new Sdk.Address(RESOLVER),
+            token: new Sdk.Address(EVM_TOKEN),
+            amount: 99n,
+            safetyDeposit: 7n,
+            timeLocks: Sdk.TimeLocks.new({
+                srcWithdrawal: 10n,
+                srcPublicWithdrawal: 120n,
+                srcCancellation: 121n,
+                srcPublicCancellation: 122n,
+                dstWithdrawal: 10n,
+                dstPublicWithdrawal: 100n,
+                dstCancellation: 101n
+            }).setDeployedAt(1010n)
+        })
+        const dstEscrowAddress = new Sdk.EscrowFactory(new Sdk.Address(FACTORY))
+            .getEscrowAddress(dstImmutables.hash(), new Sdk.Address(DST_IMPL))
+            .toString()
+
+        const verify = (immutables = dstImmutables, expectedHashLock = hashLock): Promise<EscrowPairMismatch[]> =>
+            new EscrowPairVerifier(
+                evmProvider({[dstEscrowAddress.toLowerCase()]: {token: 99n, native: 7n}}),
+                FACTORY,
+                aptosClient({'0x5c': srcEscrow}),
+                new TokenRegistry()
+            ).verifyAptosToEvmPair('0x5c', immutables, dstEscrowAddress, {
+                order,
+                srcChainId,
+                hashLock: expectedHashLock
+            })
+
+        it('should pass escrows holding what the signed order promised', async () => {
+            expect(await verify()).toEqual([])
+        })
+
+        it('should check the escrows against the order and the secrets it locks on', async () => {
+            expect((await verify(dstImmutables, CrossChainHashLock.new())).map((m) => m.field)).toEqual([
+                'order.hashLock',
+                'src.hashlock',
+                'dst.hashlock'
+            ])
+
+            const toOther = Sdk.Immutables.new({...dstImmutables, maker: new Sdk.Address(RESOLVER)})
+            expect((await verify(toOther)).map((m) => m.field)).toEqual(['dst.escrowAddress', 'dst.maker'])
+        })
+    })
+})
@@ -0,0 +1,344 @@
+import {AccountAddress} from '@aptos-labs/ts-sdk'
+import Sdk from '@1inch/cross-chain-sdk'
+import {Contract, JsonRpcProvider} from 'ethers'
+import {AptosCrossChainOrder} from './aptos-cross-chain-order'
+import {AptosEscrowClient} from './aptos-escrow-client'
+import {fromSdkTimeLocks} from './aptos-timelocks'
+import {Escrow, TimelockDelays, Timelocks} from './aptos-types'
+import {AptosDestination, getAptosDestinationSalt} from './chain-address'
+import {CrossChainHashLock} from './cross-chain-hash-lock'
+import {EscrowFactory} from './escrow-factory'
+import {EscrowSide, getTimeline} from './timelock-stages'
+import {TokenRegistry} from './token-registry'
+import ERC20 from '../dist/contracts/IERC20.sol/IERC20.json'
+
+/**
+ * A field of the escrow pair that does not hold what the order promised
+ */
+export type EscrowPairMismatch = {
+    /**
+     * `order.`, `src.` or `dst.` followed by the checked field
+     */
+    field: string
+    expected: string
+    actual: string
+}
+
+/**
+ * EVM order filled into an Aptos destination escrow, as its maker signed it
+ */
+export type EvmOrderExpectation = {
+    order: Sdk.CrossChainOrder
+    srcChainId: number
+    /**
+     * Hashlocks of the order secrets, the EVM one must be the hashlock of the order escrow extension
+     */
+    hashLock: CrossChainHashLock
+    /**
+     * Aptos receiver and coin the order salt commits to
+     */
+    destination: AptosDestination
+    /**
+     * Secret the escrows lock on, 0 for a single fill
+     */
+    secretIndex?: number
+    /**
+     * Defaults to the complement amount scaled to the decimals of the coin, see TokenRegistry.toAptosDstAmount
+     */
+    amount?: bigint
+    /**
+     * Defaults to the complement safety deposit, pass it converted to octas
+     */
+    safetyDeposit?: bigint
+}
+
+/**
+ * Aptos order filled into an EVM destination escrow, as its maker signed it
+ */
+export type AptosOrderExpectation = {
+    order: AptosCrossChainOrder
+    srcChainId: number
+    /**
+     * Hashlocks of the order secrets, the Aptos one must be the hashlock info of the order
+     */
+    hashLock: CrossChainHashLock
+    /**
+     * Secret the escrows lock on, 0 for a single fill
+     */
+    secretIndex?: number
+}
+
+// Aptos escrow expected by one of the pair checks
+type AptosEscrowExpectation = {
+    orderHash: string
+    hashlock: string
+    maker: string
+    tokenType: string
+    amount: bigint
+    safetyDeposit: bigint
+    timelocks: TimelockDelays
+}
+
+/**
+ * Checks an escrow pair against the order before the secret is shared: both escrows must hold the promised funds,
+ * the destination one must pay the maker and be cancellable no later than the source one
+ */
+export class EscrowPairVerifier {
+    private readonly evmFactory: EscrowFactory
+
+    constructor(
+        private readonly evmProvider: JsonRpcProvider,
+        private readonly evmFactoryAddress: string,
+        private readonly aptosClient: AptosEscrowClient,
+        /**
+         * Decimals of the order taker assets and Aptos coins, to scale the complement amount of EVM orders
+         */
+        private readonly tokens: TokenRegistry,
+        /**
+         * RESCUE_DELAY of the EVM factory and dst_rescue_delay of the Aptos factory, only used to build timelines
+         */
+        private readonly rescueDelay = 0n
+    ) {
+        this.evmFactory = new EscrowFactory(evmProvider, evmFactoryAddress)
+    }
+
+    /**
+     * EVM source escrow, Aptos destination escrow. The Aptos hashlock, receiver and coin are taken from the signed
+     * order, once its hashlock and salt are checked against `expected.hashLock` and `expected.destination`
+     *
+     * @param srcImmutables immutables of the SrcEscrowCreated event, with the deployment timestamp
+     * @param complement complement of the same event
+     * @returns every mismatch found, empty when the secret can be shared
+     * @throws if `expected.amount` is not set and the order taker asset or the Aptos coin is not registered
+     */
+    public async verifyEscrowPair(
+        srcImmutables: Sdk.Immutables,
+        complement: Sdk.DstImmutablesComplement,
+        dstEscrowAddress: string,
+        expected: EvmOrderExpectation
+    ): Promise<EscrowPairMismatch[]> {
+        const {order, srcChainId, hashLock, destination, secretIndex = 0} = expected
+        const mismatches: EscrowPairMismatch[] = []
+
+        const checkOrder = checker('order', mismatches)
+        checkOrder(
+            'hashLock',
+            hashLock.evm,
+            order.escrowExtension.hashLockInfo,
+            hashLock.evm.eq(order.escrowExtension.hashLockInfo)
+        )
+        // The top 96 bits of the salt commit to the destination, see getAptosDestinationSalt
+        checkOrder('aptosDestination', getAptosDestinationSalt(destination), order.salt >> 160n)
+
+        const check = checker('src', mismatches)
+        const srcHashLock = hashLock.getEvmHashLock(secretIndex)
+        check('orderHash', order.getOrderHash(srcChainId), srcImmutables.orderHash)
+        check('hashLock', srcHashLock, srcImmutables.hashLock, srcHashLock.eq(srcImmutables.hashLock))
+        check('maker', order.maker, srcImmutables.maker, order.maker.equal(srcImmutables.maker))
+
+        const implementation = await this.evmFactory.getSourceImpl()
+        const srcEscrowAddress = new Sdk.EscrowFactory(new Sdk.Address(this.evmFactoryAddress))
+            .getSrcEscrowAddress(srcImmutables, implementation)
+            .toString()
+        const srcTimelocks = fromSdkTimeLocks(srcImmutables.timeLocks)
+
+        mismatches.push(...(await this.verifyEvmFunds('src', srcEscrowAddress, srcImmutables)))
+
+        const {escrow, mismatches: dstMismatches} = await this.verifyAptosEscrow('dst', dstEscrowAddress, {
+            orderHash: srcImmutables.orderHash,
+            hashlock: hashLock.getAptosHashlock(secretIndex),
+            maker: destination.receiver.toString(),
+            tokenType: destination.token.toString(),
+            amount:
+                expected.amount ??
+                this.tokens.toAptosDstAmount(
+                    order.escrowExtension.dstChainId,
+                    complement,
+                    destination.token.toString()
+                ),
+            safetyDeposit: expected.safetyDeposit ?? complement.safetyDeposit,
+            timelocks: srcTimelocks
+        })
+        mismatches.push(...dstMismatches)
+
+        if (escrow) {
+            mismatches.push(...this.verifyCancellation(srcTimelocks, escrow.immutables.timelocks))
+        }
+
+        return mismatches
+    }
+
+    /**
+     * Aptos source escrow, EVM destination escrow. Both are checked against the signed order, once its hashlock info
+     * is checked against `expected.hashLock`
+     *
+     * @param dstImmutables immutables the destination escrow was deployed with, `deployedAt` set to its block time
+     * @returns every mismatch found, empty when the secret can be shared
+     */
+    public async verifyAptosToEvmPair(
+        srcEscrowAddress: string,
+        dstImmutables: Sdk.Immutables,
+        dstEscrowAddress: string,
+        expected: AptosOrderExpectation
+    ): Promise<EscrowPairMismatch[]> {
+        const {order, srcChainId, hashLock, secretIndex = 0} = expected
+        const {hashLockInfo, srcSafetyDeposit, dstSafetyDeposit, timeLocks} = order.escrowExtension
+        const mismatches: EscrowPairMismatch[] = []
+
+        checker('order', mismatches)('hashLock', hashLock.aptos.toLowerCase(), hashLockInfo.toLowerCase())
+
+        const src = {
+            orderHash: order.getOrderHash(srcChainId),
+            hashlock: hashLock.getAptosHashlock(secretIndex),
+            maker: order.maker,
+            tokenType: order.makerAsset,
+            amount: order.makingAmount,
+            safetyDeposit: srcSafetyDeposit,
+            timelocks: timeLocks
+        }
+        const {escrow, mismatches: srcMismatches} = await this.verifyAptosEscrow('src', srcEscrowAddress, src)
+        mismatches.push(...srcMismatches)
+
+        const dst = {
+            hashLock: hashLock.getEvmHashLock(secretIndex),
+            maker: Sdk.Address.fromBigInt(BigInt(order.receiver)),
+            token: new Sdk.Address(order.takerAsset)
+        }
+
+        const implementation = await this.evmFactory.getDestinationImpl()
+        const expectedAddress = new Sdk.EscrowFactory(new Sdk.Address(this.evmFactoryAddress)).getEscrowAddress(
+            dstImmutables.hash(),
+            implementation
+        )
+        const dstTimelocks = fromSdkTimeLocks(dstImmutables.timeLocks)
+
+        const check = checker('dst', mismatches)
+        check(
+            'escrowAddress',
+            expectedAddress,
+            dstEscrowAddress,
+            expectedAddress.equal(new Sdk.Address(dstEscrowAddress))
+        )
+        check('orderHash', src.orderHash.toLowerCase(), dstImmutables.orderHash.toLowerCase())
+        check('hashlock', dst.hashLock, dstImmutables.hashLock, dst.hashLock.eq(dstImmutables.hashLock))
+        check('maker', dst.maker, dstImmutables.maker, dst.maker.equal(dstImmutables.maker))
+        check('token', dst.token, dstImmutables.token, dst.token.equal(dstImmutables.token))
+        // The auction may have raised the taking amount above the order one
+        check('amount', `>= ${order.takingAmount}`, dstImmutables.amount, dstImmutables.amount >= order.takingAmount)
+        check('safetyDeposit', dstSafetyDeposit, dstImmutables.safetyDeposit)
+        check('timelocks', delaysOf(src.timelocks), delaysOf(dstTimelocks))
+
+        mismatches.push(...(await this.verifyEvmFunds('dst', dstEscrowAddress, dstImmutables)))
+
+        if (escrow) {
+            mismatches.push(...this.verifyCancellation(escrow.immutables.timelocks, dstTimelocks))
+        }
+
+        return mismatches
+    }
+
+    private async verifyAptosEscrow(
+        side: EscrowSide,
+        escrowAddress: string,
+        expected: AptosEscrowExpectation
+    ): Promise<{escrow?: Escrow; mismatches: EscrowPairMismatch[]}> {
+        const mismatches: EscrowPairMismatch[] = []
+        let escrow: Escrow
+
+        try {
+            escrow = await this.aptosClient.getEscrow(escrowAddress)
+        } catch (e) {
+            return {mismatches: [{field: `${side}.escrow`, expected: 'escrow_core::Escrow', actual: String(e)}]}
+        }
+
+        const {immutables} = escrow
+        const {amount, safetyDeposit} = expected
+        const check = checker(side, mismatches)
+
+        check('isCompleted', false, escrow.isCompleted)
+        check('orderHash', expected.orderHash.toLowerCase(), immutables.orderHash.toLowerCase())
+        check('hashlock', expected.hashlock.toLowerCase(), immutables.hashlock.toLowerCase())
+        check('maker', expected.maker, immutables.maker, sameAddress(expected.maker, immutables.maker))
+        check(
+            'tokenType',
+            expected.tokenType,
+            immutables.tokenType,
+            sameCoinType(expected.tokenType, immutables.tokenType)
+        )
+        check('amount', amount, immutables.amount)
+        check('lockedAmount', amount, escrow.lockedAmount, escrow.lockedAmount >= amount)
+        check('safetyDeposit', safetyDeposit, immutables.safetyDeposit)
+        check('lockedSafetyDeposit', safetyDeposit, escrow.safetyDeposit, escrow.safetyDeposit >= safetyDeposit)
+        check('timelocks', delaysOf(expected.timelocks), delaysOf(immutables.timelocks))
+
+        return {escrow, mismatches}
+    }
+
+    private async verifyEvmFunds(
+        side: EscrowSide,
+        escrowAddress: string,
+        immutables: Sdk.Immutables
+    ): Promise<EscrowPairMismatch[]> {
+        const token = new Contract(immutables.token.toString(), ERC20.abi, this.evmProvider)
+        const tokenBalance: bigint = await token.balanceOf(escrowAddress)
+        const nativeBalance = await this.evmProvider.getBalance(escrowAddress)
+
+        const mismatches: EscrowPairMismatch[] = []
+        const check = checker(side, mismatches)
+        check('amount', immutables.amount, tokenBalance, tokenBalance >= immutables.amount)
+        check('safetyDeposit', immutables.safetyDeposit, nativeBalance, nativeBalance >= immutables.safetyDeposit)
+
+        return mismatches
+    }
+
+    private verifyCancellation(srcTimelocks: Timelocks, dstTimelocks: Timelocks): EscrowPairMismatch[] {
+        const srcCancellation = getTimeline(srcTimelocks, 'src', this.rescueDelay).cancellation
+        const dstCancellation = getTimeline(dstTimelocks, 'dst', this.rescueDelay).cancellation
+
+        const mismatches: EscrowPairMismatch[] = []
+        checker('dst', mismatches)(
+            'cancellation',
+            `<= ${srcCancellation}`,
+            dstCancellation,
+            dstCancellation <= srcCancellation
+        )
+
+        return mismatches
+    }
+}
+
+// Pushes a `side.field` mismatch unless `ok`, which defaults to strict equality
+function checker(
+    side: EscrowSide | 'order',
+    mismatches: EscrowPairMismatch[]
+): (field: string, expected: unknown, actual: unknown, ok?: boolean) => void {
+    return (field, expected, actual, ok = expected === actual) => {
+        if (!ok) {
+            mismatches.push({field: `${side}.${field}`, expected: String(expected), actual: String(actual)})
+        }
+    }
+}
+
+function sameAddress(a: string, b: string): boolean {
+    return AccountAddress.from(a).equals(AccountAddress.from(b))
+}
+
+// type_info::type_name drops leading zeros of the address, compare the address part as an account address
+function sameCoinType(a: string, b: string): boolean {
+    const [addressA, ...restA] = a.split('::')
+    const [addressB, ...restB] = b.split('::')
+
+    return restA.join('::') === restB.join('::') && sameAddress(addressA, addressB)
+}
+
+function delaysOf(timelocks: TimelockDelays): string {
+    return [
+        timelocks.srcWithdrawalDelay,
+        timelocks.srcPublicWithdrawalDelay,
+        timelocks.srcCancellationDelay,
+        timelocks.srcPublicCancellationDelay,
+        timelocks.dstWithdrawalDelay,
+        timelocks.dstPublicWithdrawalDelay,
+        timelocks.dstCancellationDelay
+    ].join(',')
+}
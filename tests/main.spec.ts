@@ -3,7 +3,6 @@ import {expect, jest} from '@jest/globals'
 
 import {createServer, CreateServerReturnType} from 'prool'
 import {anvil} from 'prool/instances'
-import sha3 from 'js-sha3'
 
 import Sdk from '@1inch/cross-chain-sdk'
 import {
@@ -15,9 +14,10 @@ import {
     parseEther,
     parseUnits,
     randomBytes,
-    Wallet as SignerWallet
+    Wallet as SignerWallet,
+    zeroPadValue
 } from 'ethers'
-import {uint8ArrayToHex, UINT_40_MAX} from '@1inch/byte-utils'
+import {UINT_40_MAX, uint8ArrayToHex} from '@1inch/byte-utils'
 import assert from 'node:assert'
 import {ChainConfig, config} from './config'
 import {Wallet} from './wallet'
@@ -25,6 +25,16 @@ import {Resolver} from './resolver'
 import {EscrowFactory} from './escrow-factory'
 import * as aptos from './aptos'
 import {getAptosTransactionSummary} from './aptos'
+import {fromSdkTimeLocks} from './aptos-timelocks'
+import {AptosCrossChainOrder} from './aptos-cross-chain-order'
+import {getDstImmutables} from './aptos-escrow-factory'
+import {ChainAddress, getAptosDestinationSalt} from './chain-address'
+import {fromSdkAuctionDetails} from './aptos-dutch-auction'
+import {CrossChainHashLock} from './cross-chain-hash-lock'
+import {AptosMultiFillHashLock} from './aptos-multi-fill-hash-lock'
+import {EscrowPairVerifier} from './escrow-pair-verifier'
+import {formatAmount, TokenInfo, TokenRegistry} from './token-registry'
+import {SafetyDepositPricePolicy, SafetyDeposits} from './safety-deposits'
 
 import factoryContract from '../dist/contracts/TestEscrowFactory.sol/TestEscrowFactory.json'
 import resolverContract from '../dist/contracts/Resolver.sol/Resolver.json'
@@ -40,6 +50,12 @@ interface Transaction {
 
 const transactionLog: Transaction[] = []
 
+// Decimals of the swapped tokens, for amounts crossing chains and balance logs
+const tokens = TokenRegistry.fromConfig(config.chain)
+
+// Price the EVM safety deposits are staked at on Aptos, 1 ETH for 500 APT
+const SAFETY_DEPOSIT_POLICY: SafetyDepositPricePolicy = {octasPerEther: 500n * 10n ** 8n, minOctas: 1000n}
+
 // Beautiful console output utilities
 const colors = {
     reset: '\x1b[0m',
@@ -79,13 +95,13 @@ const log = {
         console.log(`${colors.magenta}🔗 [${chain}] ${type}: ${hash}${colors.reset}`)
         console.log(`   ${colors.white}${description}${colors.reset}`)
     },
-    balance: (label: string, before: bigint, after: bigint, decimals: number = 6) => {
-        const beforeFormatted = (Number(before) / Math.pow(10, decimals)).toFixed(2)
-        const afterFormatted = (Number(after) / Math.pow(10, decimals)).toFixed(2)
-        const change = Number(after) - Number(before)
-        const changeFormatted = (change / Math.pow(10, decimals)).toFixed(2)
-        const changeColor = change >= 0 ? colors.green : colors.red
-        const changeSymbol = change >= 0 ? '+' : ''
+    balance: (label: string, before: bigint, after: bigint, token: TokenInfo) => {
+        const beforeFormatted = formatAmount(before, token.decimals)
+        const afterFormatted = formatAmount(after, token.decimals)
+        const change = after - before
+        const changeFormatted = formatAmount(change, token.decimals)
+        const changeColor = change >= 0n ? colors.green : colors.red
+        const changeSymbol = change >= 0n ? '+' : ''
         console.log(`   ${colors.white}${label}: ${beforeFormatted} → ${afterFormatted} ${changeColor}(${changeSymbol}${changeFormatted})${colors.reset}`)
     },
     summary: () => {
@@ -168,6 +184,7 @@ describe('Resolving example', () => {
     log.header('🚀 FUSION+ CROSS-CHAIN SWAP TESTS 🚀')
     const srcChainId = config.chain.source.chainId
     const dstChainId = config.chain.destination.chainId
+    const aptosToken = tokens.get('APTOS', aptos.SRC_COIN_TYPE)
 
     type Chain = {
         node?: CreateServerReturnType | undefined
@@ -288,25 +305,30 @@ describe('Resolving example', () => {
 
             log.section('Step 1: Generate Cryptographic Secret')
             
-            // Generate cryptographically secure secret for hashlock
-            const secret_array = randomBytes(32)
-            const secret = uint8ArrayToHex(secret_array)
+            // Generate cryptographically secure secret, hashed with keccak256 on Ethereum and sha3-256 on Aptos
+            const hashLock = CrossChainHashLock.new()
+            const secret = hashLock.secrets[0]
 
-            const hashLockForAptos = sha3.sha3_256.array(secret_array)
             log.info(`Secret: ${secret.substring(0, 20)}...`)
-            log.info(`SHA3-256 Hash: ${hashLockForAptos.slice(0, 8).join('')}...`)
+            log.info(`SHA3-256 Hash: ${hashLock.getAptosHashlock().substring(0, 20)}...`)
+
+            // Aptos receiver and coin, named by the order through its salt
+            const aptosDst = {
+                receiver: ChainAddress.aptosAccount(aptos.escrowClient.address),
+                token: ChainAddress.aptosCoinType(aptos.SRC_COIN_TYPE)
+            }
             const order = Sdk.CrossChainOrder.new(
                 new Address(src.escrowFactory),
                 {
-                    salt: Sdk.randBigInt(1000n),
+                    salt: getAptosDestinationSalt(aptosDst),
                     maker: new Address(await srcChainUser.getAddress()),
                     makingAmount: parseUnits('100', 6),
                     takingAmount: parseUnits('99', 6),
                     makerAsset: new Address(config.chain.source.tokens.USDC.address),
-                    takerAsset: new Address(config.chain.destination.tokens.USDC.address) /// TODO: change to Aptos token
+                    takerAsset: new Address(config.chain.destination.tokens.USDC.address) // 20 byte placeholder, the Aptos coin is aptosDst.token
                 },
                 {
-                    hashLock: Sdk.HashLock.forSingleFill(secret),
+                    hashLock: hashLock.evm,
                     timeLocks: Sdk.TimeLocks.new({
                         srcWithdrawal: 10n,
                         srcPublicWithdrawal: 120n,
@@ -374,13 +396,27 @@ describe('Resolving example', () => {
                 .withComplement(srcEscrowEvent[1])
                 .withTaker(new Address(resolverContract.dstAddress))
 
+            // The order taking amount is in the decimals of its 20 byte placeholder, the escrow locks Aptos coin units
+            const dstAmount = tokens.toAptosDstAmount(dstChainId, srcEscrowEvent[1], aptosDst.token.toString())
+            const {dst: dstSafetyDeposit} = SafetyDeposits.fromSdk(order.escrowExtension, 'dst', SAFETY_DEPOSIT_POLICY)
+            await aptos.ensureTokenBalance(dstAmount)
+
             log.section('Step 3: Create Destination Escrow on Aptos')
-            log.info(`Depositing ${(Number(dstImmutables.amount) / 1e6).toFixed(2)} USDC equivalent on Aptos`)
+            log.info(`Depositing ${formatAmount(dstAmount, aptosToken.decimals)} Aptos tokens`)
 
             // console.log('Creating destination escrow on Aptos...')
-            const {escrowAddress: dstEscrowAddress, immutables: withdrawImmutables} = await aptos.create_dst_escrow(
-                dstImmutables,
-                hashLockForAptos
+            const {escrowAddress: dstEscrowAddress} = await aptos.escrowClient.createDstEscrow(
+                {
+                    orderHash: dstImmutables.orderHash,
+                    hashlock: hashLock.getAptosHashlock(),
+                    maker: aptosDst.receiver.toString(),
+                    taker: aptos.escrowClient.address,
+                    tokenType: aptosDst.token.toString(),
+                    amount: dstAmount,
+                    safetyDeposit: dstSafetyDeposit,
+                    timelocks: fromSdkTimeLocks(dstImmutables.timeLocks)
+                },
+                srcEscrowEvent[0].timeLocks.toSrcTimeLocks().privateCancellation
             )
             
             // Log this as a transaction in our system too
@@ -399,12 +435,29 @@ describe('Resolving example', () => {
                 ESCROW_SRC_IMPLEMENTATION
             )
 
+            log.info('Verifying both escrows before revealing the secret...')
+            const mismatches = await new EscrowPairVerifier(
+                src.provider,
+                src.escrowFactory,
+                aptos.escrowClient,
+                tokens
+            ).verifyEscrowPair(srcEscrowEvent[0], srcEscrowEvent[1], dstEscrowAddress, {
+                order,
+                srcChainId,
+                hashLock,
+                destination: aptosDst,
+                safetyDeposit: dstSafetyDeposit
+            })
+            expect(mismatches).toEqual([])
+            log.success('Escrows match the order')
+
             await increaseTime(11) // finality lock passed
             
             log.section('Step 4: Execute Withdrawals')
             log.info('Finality lock period passed - proceeding with withdrawals')
             log.info(`User withdrawing tokens from Aptos escrow: ${dstEscrowAddress}`)
-            await aptos.withdraw_dst_escrow(dstEscrowAddress, secret, withdrawImmutables, hashLockForAptos)
+            expect(hashLock.verify(secret)).toBe(true)
+            await aptos.escrowClient.withdraw(dstEscrowAddress, secret)
             
             // Log the withdrawal transaction
             const aptosWithdrawTransactions = getAptosTransactionSummary()
@@ -431,13 +484,14 @@ describe('Resolving example', () => {
             expect(resultBalances.src.resolver - initialBalances.src.resolver).toBe(order.makingAmount)
             
             log.success('Ethereum USDC balances verified!')
-            log.balance('User USDC', initialBalances.src.user, resultBalances.src.user, 6)
-            log.balance('Resolver USDC', initialBalances.src.resolver, resultBalances.src.resolver, 6)
+            const srcUsdc = tokens.get(srcChainId, config.chain.source.tokens.USDC.address)
+            log.balance('User USDC', initialBalances.src.user, resultBalances.src.user, srcUsdc)
+            log.balance('Resolver USDC', initialBalances.src.resolver, resultBalances.src.resolver, srcUsdc)
 
             // Aptos balance validation - user should have more tokens after withdrawal
             expect(resultBalances.aptos.user >= initialBalances.aptos.user).toBe(true)
             log.success('Aptos token balances verified!')
-            log.balance('User Aptos Tokens', initialBalances.aptos.user, resultBalances.aptos.user, 8)
+            log.balance('User Aptos Tokens', initialBalances.aptos.user, resultBalances.aptos.user, aptosToken)
             
             log.success('✨ Ethereum → Aptos swap completed successfully! ✨')
         })
@@ -450,14 +504,12 @@ describe('Resolving example', () => {
 
             log.section('Step 1: Generate Cryptographic Secret')
             
-            // Generate cryptographically secure secret for hashlock
-            const secret_array = randomBytes(32)
-            const secret = uint8ArrayToHex(secret_array)
-            // Convert hex string to byte array for Aptos
-            const hashLockForAptos = sha3.sha3_256.array(secret_array)
+            // Generate cryptographically secure secret, hashed with sha3-256 on Aptos and keccak256 on Ethereum
+            const hashLock = CrossChainHashLock.new()
+            const secret = hashLock.secrets[0]
 
             log.info(`Secret: ${secret.substring(0, 20)}...`)
-            log.info(`Aptos Hash: ${hashLockForAptos.slice(0, 8).join('')}...`)
+            log.info(`Aptos Hash: ${hashLock.getAptosHashlock().substring(0, 20)}...`)
 
             // Create base order using sdk.CrossChainOrder.new
             const order = Sdk.CrossChainOrder.new(
@@ -471,7 +523,7 @@ describe('Resolving example', () => {
                     takerAsset: new Address(config.chain.destination.tokens.USDC.address)
                 },
                 {
-                    hashLock: Sdk.HashLock.forSingleFill(secret),
+                    hashLock: hashLock.evm,
                     timeLocks: Sdk.TimeLocks.new({
                         srcWithdrawal: 10n,
                         srcPublicWithdrawal: 120n,
@@ -513,45 +565,51 @@ describe('Resolving example', () => {
             log.info(`Making amount: ${(Number(order.makingAmount) / 1e8).toFixed(2)} Aptos tokens`)
             log.info(`Taking amount: ${(Number(order.takingAmount) / 1e6).toFixed(2)} USDC`)
 
-            // Customize order for Aptos requirements - ensure all values are JSON serializable
-            const aptosOrder = {
-                salt: order.salt.toString(), // Convert BigInt to string
-                maker: await srcChainUser.getAddress(),
-                receiver: await srcChainUser.getAddress(),
-                makerAsset: config.chain.aptos.tokens.MY_TOKEN.address, // Change to Aptos token
-                takerAsset: config.chain.destination.tokens.USDC.address, // Ethereum USDC
-                makingAmount: parseUnits('100', 8).toString(), // Convert BigInt to string
-                takingAmount: parseUnits('99', 6).toString(), // Convert BigInt to string
-                makerTraits: 0,
-                orderHash: order.getOrderHash(srcChainId),
-                timeLocks: {
-                    _srcWithdrawal: 10,
-                    _srcPublicWithdrawal: 120,
-                    _srcCancellation: 121,
-                    _srcPublicCancellation: 122,
-                    _dstWithdrawal: 10,
-                    _dstPublicWithdrawal: 100,
-                    _dstCancellation: 101
+            // Aptos maker order with the escrow parameters of the EVM order
+            const srcAmount = 1n // Test with minimal amount
+            const aptosChainId = await aptos.getAptosChainId()
+            // The resolver stakes the source deposit in octas on Aptos, the destination one stays in wei
+            const deposits = SafetyDeposits.fromSdk(order.escrowExtension, 'src', SAFETY_DEPOSIT_POLICY)
+            const aptosOrder = AptosCrossChainOrder.new(
+                aptos.escrowClient.packageAddress,
+                {
+                    maker: aptos.escrowClient.address,
+                    receiver: zeroPadValue(await srcChainUser.getAddress(), 32),
+                    makerAsset: aptos.SRC_COIN_TYPE,
+                    takerAsset: config.chain.destination.tokens.USDC.address, // Ethereum USDC
+                    makingAmount: srcAmount,
+                    takingAmount: srcAmount
                 },
-                safetyDeposit: 1000
-            }
+                {
+                    hashLock: hashLock.aptos,
+                    dstChainId: BigInt(dstChainId), // Ethereum destination chain ID
+                    srcSafetyDeposit: deposits.src,
+                    dstSafetyDeposit: deposits.dst,
+                    timeLocks: fromSdkTimeLocks(order.escrowExtension.timeLocks)
+                },
+                {
+                    auction: fromSdkAuctionDetails(order.escrowExtension.auctionDetails),
+                    whitelist: []
+                },
+                {nonce: order.nonce}
+            )
 
             log.section('Step 3: Sign Order and Create Source Escrow')
-            
+
             // Sign order using Aptos signature scheme
-            const signature = await aptos.signOrderAptos(aptosOrder, 1) // Using chainId 1 for Aptos
-            log.info(`Order signed on Aptos: ${signature.substring(0, 20)}...`)
+            const {orderHash: aptosOrderHash, signature} = await aptos.signOrder(aptosOrder)
+            log.info(`Order signed on Aptos: ${signature.signature.substring(0, 20)}...`)
 
-            log.info(`Creating source escrow for order: ${aptosOrder.orderHash.substring(0, 20)}...`)
+            log.info(`Creating source escrow for order: ${aptosOrderHash.substring(0, 20)}...`)
 
             // Step 1: Create source escrow on Aptos
-            const {escrowAddress: srcEscrowAddress, immutables: srcImmutables} = await aptos.create_src_escrow(
-                aptosOrder,
-                hashLockForAptos,
-                dstChainId, // Ethereum destination chain ID
-                config.chain.destination.tokens.USDC.address // Ethereum USDC address
+            await aptos.ensureTokenBalance(srcAmount)
+
+            const {escrowAddress: srcEscrowAddress} = await aptos.escrowClient.createSrcEscrow(
+                aptosOrder.toOrderData(aptosChainId),
+                aptosOrder.toSrcEscrowArgs(hashLock.getAptosTakerData())
             )
-            
+
             // Log this as a transaction in our system too
             const aptosTransactions = getAptosTransactionSummary()
             const latestAptosTx = aptosTransactions[aptosTransactions.length - 1]
@@ -562,31 +620,21 @@ describe('Resolving example', () => {
             log.success(`Aptos source escrow created at: ${srcEscrowAddress}`)
 
             log.section('Step 4: Create Destination Escrow on Ethereum')
-            log.info(`Creating Ethereum destination escrow for order: ${aptosOrder.orderHash.substring(0, 20)}...`)
+            log.info(`Creating Ethereum destination escrow for order: ${aptosOrderHash.substring(0, 20)}...`)
 
             const resolverContract = new Resolver(src.resolver, dst.resolver)
 
-            // Create destination immutables using SDK - resolver provides USDC to user
-            const dstImmutables = Sdk.Immutables.new({
-                orderHash: aptosOrder.orderHash,
-                hashLock: Sdk.HashLock.forSingleFill(secret), // Use proper SDK hashlock format for single fill
-                maker: new Address(resolverContract.dstAddress), // Resolver is maker on destination
-                taker: new Address(await srcChainUser.getAddress()), // User is taker on destination
-                token: new Address(config.chain.destination.tokens.USDC.address), // USDC on Ethereum
-                amount: order.takingAmount, // Amount user receives
-                safetyDeposit: parseEther('0.001'), // Safety deposit
-                timeLocks: Sdk.TimeLocks.new({
-                    srcWithdrawal: 10n,
-                    srcPublicWithdrawal: 120n,
-                    srcCancellation: 121n,
-                    srcPublicCancellation: 122n,
-                    dstWithdrawal: 10n,
-                    dstPublicWithdrawal: 100n,
-                    dstCancellation: 101n
-                }) // Create same timelocks manually
-            }).withDeployedAt(BigInt(Math.floor(Date.now() / 1000)))
-
-            log.info(`Destination escrow will receive ${(Number(order.takingAmount) / 1e6).toFixed(2)} USDC`)
+            // Destination immutables from the SrcEscrowCreatedEvent of the deployment, paying the order receiver
+            assert(latestAptosTx, 'Source escrow deployment was not tracked')
+            const [srcImmutables, dstComplement] = await aptos.escrowFactory.getSrcDeployEvent(latestAptosTx.hash)
+            const dstImmutables = getDstImmutables(
+                srcImmutables,
+                dstComplement,
+                new Address(resolverContract.dstAddress),
+                hashLock.getEvmHashLock() // keccak256 hashlock of the same secret
+            )
+
+            log.info(`Destination escrow will receive ${(Number(dstImmutables.amount) / 1e6).toFixed(2)} USDC`)
 
             const {txHash: dstDepositHash} = await dstChainResolver.send(resolverContract.deployDst(dstImmutables))
             log.transaction('Ethereum', 'Escrow Creation', dstDepositHash, `Created destination escrow for USDC transfer`)
@@ -642,7 +690,7 @@ describe('Resolving example', () => {
             log.info('Finality lock period passed - proceeding with withdrawals')
             log.info(`Resolver withdrawing Aptos tokens from: ${srcEscrowAddress}`)
             log.info('Validating withdrawal parameters...')
-            await aptos.withdraw_dst_escrow(srcEscrowAddress, secret, srcImmutables, hashLockForAptos)
+            await aptos.escrowClient.withdraw(srcEscrowAddress, secret)
             
             // Log the withdrawal transaction
             const aptosResolverTransactions = getAptosTransactionSummary()
@@ -662,10 +710,85 @@ describe('Resolving example', () => {
             expect(initialBalances.aptos.user == resultBalances.aptos.user).toBe(true)
             
             log.success('Aptos token balances verified!')
-            log.balance('User Aptos Tokens', initialBalances.aptos.user, resultBalances.aptos.user, 8)
+            log.balance('User Aptos Tokens', initialBalances.aptos.user, resultBalances.aptos.user, aptosToken)
             
             log.success('✨ Aptos → Ethereum swap completed successfully! ✨')
         })
+
+        it('should fill an Aptos order in several chunks', async () => {
+            log.header('🧩 APTOS MULTIPLE FILLS TEST')
+
+            log.section('Step 1: Generate Secrets Tree')
+
+            // 4 parts take 5 secrets, the last one is used by the fill completing the order
+            const hashLock = AptosMultiFillHashLock.new(4)
+            log.info(`Merkle root: ${hashLock.root.substring(0, 20)}...`)
+
+            const order = {
+                orderHash: uint8ArrayToHex(randomBytes(32)),
+                maker: aptos.escrowClient.address,
+                receiver: aptos.escrowClient.address,
+                makerAsset: aptos.SRC_COIN_TYPE,
+                takerAsset: 'ETH_USDC',
+                makingAmount: 100n,
+                takingAmount: 100n
+            }
+            const args = {
+                dstChainId: BigInt(dstChainId),
+                dstToken: config.chain.destination.tokens.USDC.address,
+                deposits: 0n,
+                timelocks: {
+                    srcWithdrawalDelay: 0,
+                    srcPublicWithdrawalDelay: 120,
+                    srcCancellationDelay: 121,
+                    srcPublicCancellationDelay: 122,
+                    dstWithdrawalDelay: 0,
+                    dstPublicWithdrawalDelay: 100,
+                    dstCancellationDelay: 101
+                },
+                auctionConfig: {
+                    gasBumpEstimate: 0,
+                    gasPriceEstimate: 0,
+                    startTime: Number(srcTimestamp),
+                    duration: 120,
+                    initialRateBump: 0,
+                    auctionPoints: []
+                }
+            }
+
+            await aptos.ensureTokenBalance(order.makingAmount)
+
+            log.section('Step 2: Fill Order in Chunks')
+
+            let remainingMakingAmount = order.makingAmount
+            const fills: {escrowAddress: string; secretIndex: number; amount: bigint}[] = []
+
+            for (const makingAmount of [25n, 25n, 50n]) {
+                const {event, secretIndex} = await aptos.escrowClient.createSrcEscrowPartial(
+                    order,
+                    args,
+                    hashLock,
+                    makingAmount,
+                    remainingMakingAmount
+                )
+                remainingMakingAmount -= makingAmount
+                fills.push({escrowAddress: event.escrowAddress, secretIndex, amount: event.immutables.amount})
+
+                log.success(`Filled ${makingAmount} with secret ${secretIndex} in escrow ${event.escrowAddress}`)
+            }
+
+            expect(fills.map((f) => f.secretIndex)).toEqual([0, 1, 4])
+            expect(fills.map((f) => f.amount)).toEqual([25n, 25n, 50n])
+
+            log.section('Step 3: Withdraw Every Chunk')
+
+            for (const {escrowAddress, secretIndex} of fills) {
+                await aptos.escrowClient.withdraw(escrowAddress, hashLock.secrets[secretIndex])
+                log.success(`Withdrawn from ${escrowAddress}`)
+            }
+
+            log.success('✨ Aptos order filled in 3 chunks! ✨')
+        })
     })
 })
 
@@ -0,0 +1,65 @@
+import {OrderSubmission, RelayerOrder, RelayerOrderStatus} from './relayer'
+import {ResolverAuth} from './resolver-auth'
+
+/**
+ * Client of a RelayerServer, with the same methods as the Relayer it fronts
+ */
+export class RelayerClient {
+    constructor(private readonly url: string) {}
+
+    public async submitOrder(submission: OrderSubmission): Promise<RelayerOrder> {
+        return this.call('POST', '/orders', submission)
+    }
+
+    public async getOrder(orderHash: string): Promise<RelayerOrder | undefined> {
+        try {
+            return await this.call('GET', `/orders/${orderHash}`)
+        } catch (e) {
+            if (e instanceof Error && e.message.includes('not found')) {
+                return undefined
+            }
+
+            throw e
+        }
+    }
+
+    public async listOrders(status?: RelayerOrderStatus): Promise<RelayerOrder[]> {
+        return this.call('GET', status ? `/orders?status=${status}` : '/orders')
+    }
+
+    public async claimOrder(orderHash: string, auth: ResolverAuth): Promise<RelayerOrder> {
+        return this.call('POST', `/orders/${orderHash}/claim`, {auth})
+    }
+
+    /**
+     * @returns the order, with the mismatches found when the escrows failed verification
+     */
+    public async reportEscrows(orderHash: string, auth: ResolverAuth, report: unknown): Promise<RelayerOrder> {
+        return this.call('POST', `/orders/${orderHash}/escrows`, {auth, report}, [409])
+    }
+
+    public async releaseSecret(orderHash: string, auth: ResolverAuth, secretIndex = 0): Promise<string> {
+        const {secret} = await this.call<{secret: string}>('POST', `/orders/${orderHash}/secret`, {
+            auth,
+            secretIndex
+        })
+
+        return secret
+    }
+
+    // Throws the relayer error on any non 2xx status but `allowedStatuses`
+    private async call<T>(method: string, path: string, body?: unknown, allowedStatuses: number[] = []): Promise<T> {
+        const res = await fetch(`${this.url}${path}`, {
+            method,
+            headers: {'content-type': 'application/json'},
+            body: body === undefined ? undefined : JSON.stringify(body)
+        })
+        const json = (await res.json()) as T & {error?: string}
+
+        if (!res.ok && !allowedStatuses.includes(res.status)) {
+            throw new Error(`Relayer ${method} ${path} failed with ${res.status}: ${json.error ?? res.statusText}`)
+        }
+
+        return json
+    }
+}
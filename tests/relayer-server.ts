@@ -0,0 +1,105 @@
+import {createServer, IncomingMessage, Server, ServerResponse} from 'node:http'
+import {AddressInfo} from 'node:net'
+import {OrderSubmission, Relayer, RelayerOrderStatus} from './relayer'
+import {ResolverAuth} from './resolver-auth'
+
+/**
+ * JSON over HTTP front of a Relayer:
+ *
+ * - `POST /orders` submits an OrderSubmission
+ * - `GET /orders?status=open` lists orders, `GET /orders/:hash` returns one
+ * - `POST /orders/:hash/claim` with `{auth}` claims an order
+ * - `POST /orders/:hash/escrows` with `{auth, report}` reports the deployed escrows
+ * - `POST /orders/:hash/secret` with `{auth, secretIndex?}` returns `{secret}` once the escrows are verified
+ *
+ * `auth` is the ResolverAuth the resolver signed the request with, see resolver-auth.
+ * Listed Aptos orders carry their maker deposits, which only the resolver each one names can submit
+ */
+export class RelayerServer {
+    private readonly server: Server
+
+    constructor(private readonly relayer: Relayer) {
+        this.server = createServer((req, res) => {
+            this.handle(req, res).catch((e) => reply(res, 400, {error: e instanceof Error ? e.message : String(e)}))
+        })
+    }
+
+    /**
+     * @returns the base url of the server
+     */
+    public async listen(port = 0, host = '127.0.0.1'): Promise<string> {
+        await new Promise<void>((resolve) => this.server.listen(port, host, resolve))
+        const address = this.server.address() as AddressInfo
+
+        return `http://${host}:${address.port}`
+    }
+
+    public async close(): Promise<void> {
+        await new Promise<void>((resolve, reject) => this.server.close((e) => (e ? reject(e) : resolve())))
+    }
+
+    private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+        const url = new URL(req.url ?? '/', 'http://relayer')
+        const [collection, orderHash, action] = url.pathname.split('/').filter(Boolean)
+
+        if (collection !== 'orders') {
+            return reply(res, 404, {error: `Unknown path ${url.pathname}`})
+        }
+
+        if (!orderHash) {
+            if (req.method === 'POST') {
+                return reply(res, 201, this.relayer.submitOrder((await readBody(req)) as OrderSubmission))
+            }
+
+            const status = url.searchParams.get('status') as RelayerOrderStatus | null
+
+            return reply(res, 200, this.relayer.listOrders(status ?? undefined))
+        }
+
+        if (!this.relayer.getOrder(orderHash)) {
+            return reply(res, 404, {error: `Order ${orderHash} not found`})
+        }
+
+        if (req.method === 'GET' && !action) {
+            return reply(res, 200, this.relayer.getOrder(orderHash))
+        }
+
+        const body =
+            req.method === 'POST'
+                ? ((await readBody(req)) as {auth?: ResolverAuth; report?: unknown; secretIndex?: number})
+                : undefined
+
+        if (!body?.auth || typeof body.auth.resolver !== 'string') {
+            return reply(res, 400, {error: 'Expected a POST signed by a resolver'})
+        }
+
+        switch (action) {
+            case 'claim':
+                return reply(res, 200, this.relayer.claimOrder(orderHash, body.auth))
+            case 'escrows': {
+                const order = await this.relayer.reportEscrows(orderHash, body.auth, body.report)
+
+                return reply(res, order.mismatches.length ? 409 : 200, order)
+            }
+            case 'secret':
+                return reply(res, 200, {secret: this.relayer.releaseSecret(orderHash, body.auth, body.secretIndex)})
+            default:
+                return reply(res, 404, {error: `Unknown action ${action}`})
+        }
+    }
+}
+
+async function readBody(req: IncomingMessage): Promise<unknown> {
+    const chunks: Buffer[] = []
+
+    for await (const chunk of req) {
+        chunks.push(chunk as Buffer)
+    }
+
+    return JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}')
+}
+
+function reply(res: ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, {'content-type': 'application/json'})
+    res.end(JSON.stringify(body))
+}
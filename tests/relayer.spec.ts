@@ -0,0 +1,411 @@
+import {expect} from '@jest/globals'
+import Sdk from '@1inch/cross-chain-sdk'
+import {UINT_40_MAX} from '@1inch/byte-utils'
+import {Account} from '@aptos-labs/ts-sdk'
+import {Wallet as SignerWallet} from 'ethers'
+import {mkdtempSync, readFileSync} from 'node:fs'
+import {tmpdir} from 'node:os'
+import {join} from 'node:path'
+import {AptosCrossChainOrder} from './aptos-cross-chain-order'
+import {signMakerDeposit} from './aptos-maker-deposit'
+import {AptosResolver} from './aptos-resolver'
+import {signAptosOrder} from './aptos-order-signing'
+import {ChainAddress, getAptosDestinationSalt} from './chain-address'
+import {CrossChainHashLock} from './cross-chain-hash-lock'
+import {
+    AptosOrderSubmission,
+    EscrowCheck,
+    OrderSubmission,
+    Relayer,
+    RelayerOrder,
+    RelayerStore,
+    toAptosCrossChainOrder
+} from './relayer'
+import {RelayerClient} from './relayer-client'
+import {RelayerServer} from './relayer-server'
+import {ResolverAction, ResolverAuth, signResolverRequest} from './resolver-auth'
+
+const srcChainId = Sdk.NetworkEnum.ETHEREUM
+
+const APTOS_CHAIN_ID = 2
+
+const APTOS_PACKAGE = '0xdef391b1c8951bf801f67a005f9eba70a5aae6d02eba6bb4889a88288ea806a2'
+
+const APTOS_RESOLVER = '0x' + '12'.repeat(32)
+
+const SECRETS_KEY = '0x' + '5e'.repeat(32)
+const resolver = '0x00000000000000000000000000000000000000aa'
+
+const resolverKey = SignerWallet.createRandom()
+
+const sign = async (
+    action: ResolverAction,
+    orderHash: string,
+    payload?: unknown,
+    timestamp?: number
+): Promise<ResolverAuth> => signResolverRequest(resolverKey, action, orderHash, payload, timestamp)
+
+async function newSubmission(maker = SignerWallet.createRandom()): Promise<OrderSubmission> {
+    const hashLock = CrossChainHashLock.new()
+    const aptosDst = {maker: '0x1', tokenType: '0x1::aptos_coin::AptosCoin'}
+    const order = Sdk.CrossChainOrder.new(
+        new Sdk.Address('0x0000000000000000000000000000000000000001'),
+        {
+            salt: getAptosDestinationSalt({
+                receiver: ChainAddress.aptosAccount(aptosDst.maker),
+                token: ChainAddress.aptosCoinType(aptosDst.tokenType)
+            }),
+            maker: new Sdk.Address(maker.address),
+            makingAmount: 100n,
+            takingAmount: 99n,
+            makerAsset: new Sdk.Address('0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48'),
+            takerAsset: new Sdk.Address('0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48')
+        },
+        {
+            hashLock: hashLock.evm,
+            timeLocks: Sdk.TimeLocks.new({
+                srcWithdrawal: 10n,
+                srcPublicWithdrawal: 120n,
+                srcCancellation: 121n,
+                srcPublicCancellation: 122n,
+                dstWithdrawal: 10n,
+                dstPublicWithdrawal: 100n,
+                dstCancellation: 101n
+            }),
+            srcChainId,
+            dstChainId: Sdk.NetworkEnum.COINBASE,
+            srcSafetyDeposit: 1n,
+            dstSafetyDeposit: 1n
+        },
+        {
+            auction: new Sdk.AuctionDetails({initialRateBump: 0, points: [], duration: 120n, startTime: 1n}),
+            whitelist: [{address: new Sdk.Address(resolver), allowFrom: 0n}],
+            resolvingStartTime: 0n
+        },
+        {nonce: Sdk.randBigInt(UINT_40_MAX), allowPartialFills: false, allowMultipleFills: false}
+    )
+    const typedData = order.getTypedData(srcChainId)
+
+    return {
+        chain: 'evm',
+        srcChainId,
+        order: order.build(),
+        extension: order.extension.encode(),
+        signature: await maker.signTypedData(
+            typedData.domain,
+            {Order: typedData.types[typedData.primaryType]},
+            typedData.message
+        ),
+        aptosDst,
+        secrets: hashLock.secrets
+    }
+}
+
+function newAptosSubmission(maker = Account.generate()): OrderSubmission {
+    const hashLock = CrossChainHashLock.new()
+    const order = AptosCrossChainOrder.new(
+        APTOS_PACKAGE,
+        {
+            maker: maker.accountAddress.toString(),
+            receiver: '0x000000000000000000000000f39fd6e51aad88f6f4ce6ab8827279cfffb92266',
+            makerAsset: '0x1::aptos_coin::AptosCoin',
+            takerAsset: '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48',
+            makingAmount: 100_000_000n,
+            takingAmount: 99_000_000n
+        },
+        {
+            hashLock: hashLock.aptos,
+            dstChainId: 1n,
+            srcSafetyDeposit: 1000n,
+            dstSafetyDeposit: 2000n,
+            timeLocks: {
+                srcWithdrawalDelay: 10,
+                srcPublicWithdrawalDelay: 120,
+                srcCancellationDelay: 121,
+                srcPublicCancellationDelay: 122,
+                dstWithdrawalDelay: 10,
+                dstPublicWithdrawalDelay: 100,
+                dstCancellationDelay: 101
+            }
+        },
+        {
+            auction: {
+                gasBumpEstimate: 0,
+                gasPriceEstimate: 0,
+                startTime: 1_700_000_000,
+                duration: 120,
+                initialRateBump: 0,
+                auctionPoints: []
+            },
+            whitelist: []
+        }
+    )
+
+    return {
+        chain: 'aptos',
+        srcChainId: APTOS_CHAIN_ID,
+        verifyingPackage: APTOS_PACKAGE,
+        order: order.toJSON(),
+        signature: signAptosOrder(maker, order.build(), order.getDomain(APTOS_CHAIN_ID)),
+        deposits: {
+            [APTOS_RESOLVER]: signMakerDeposit(
+                maker,
+                order,
+                APTOS_RESOLVER,
+                new AptosResolver(APTOS_PACKAGE, APTOS_PACKAGE),
+                {
+                    chainId: APTOS_CHAIN_ID,
+                    sequenceNumber: 0n,
+                    gasUnitPrice: 100n
+                }
+            )
+        },
+        secrets: hashLock.secrets
+    }
+}
+
+// Passes reports saying `{ok: true}`, in place of the EscrowPairVerifier reading both chains
+const check: EscrowCheck = async (_order, report) => ({
+    secretIndex: 0,
+    mismatches: (report as {ok: boolean}).ok ? [] : [{field: 'dst.amount', expected: '99', actual: '1'}]
+})
+
+describe('Relayer', () => {
+    let server: RelayerServer
+    let url: string
+
+    // Relayer response, or {error} on failure
+    const call = async <T = RelayerOrder>(
+        method: string,
+        path: string,
+        body?: unknown
+    ): Promise<{status: number; json: T & {error?: string}}> => {
+        const res = await fetch(`${url}${path}`, {method, body: body === undefined ? undefined : JSON.stringify(body)})
+
+        return {status: res.status, json: (await res.json()) as T & {error?: string}}
+    }
+
+    beforeEach(async () => {
+        server = new RelayerServer(new Relayer({evm: check, aptos: check}))
+        url = await server.listen()
+    })
+
+    afterEach(async () => {
+        await server.close()
+    })
+
+    it('should release the secret only after the escrows pass verification', async () => {
+        const submission = await newSubmission()
+        const {json: order} = await call('POST', '/orders', submission)
+        const path = `/orders/${order.orderHash}`
+
+        const {json: open} = await call<RelayerOrder[]>('GET', '/orders?status=open')
+        expect(open.map((o) => o.orderHash)).toEqual([order.orderHash])
+        expect(JSON.stringify(open)).not.toContain(submission.secrets[0].slice(2))
+
+        const claim = await sign('claim', order.orderHash)
+        const secret = await sign('secret', order.orderHash, 0)
+
+        expect((await call('POST', `${path}/claim`, {resolver})).status).toBe(400)
+        expect((await call('POST', `${path}/claim`, {auth: claim})).json.status).toBe('claimed')
+        expect((await call('POST', `${path}/claim`, {auth: claim})).status).toBe(400)
+        expect((await call('POST', `${path}/secret`, {auth: secret})).status).toBe(400)
+
+        const notOk = {ok: false}
+        const rejected = await call('POST', `${path}/escrows`, {
+            auth: await sign('escrows', order.orderHash, notOk),
+            report: notOk
+        })
+        expect(rejected.status).toBe(409)
+        expect(rejected.json.mismatches).toHaveLength(1)
+        expect((await call('POST', `${path}/secret`, {auth: secret})).status).toBe(400)
+
+        const ok = {ok: true}
+        expect((await call('POST', `${path}/escrows`, {auth: claim, report: ok})).json.error).toContain(
+            'is not signed by its key'
+        )
+        expect(
+            (await call('POST', `${path}/escrows`, {auth: await sign('escrows', order.orderHash, ok), report: ok}))
+                .status
+        ).toBe(200)
+
+        const other = await signResolverRequest(SignerWallet.createRandom(), 'secret', order.orderHash, 0)
+        expect((await call('POST', `${path}/secret`, {auth: other})).json.error).toContain('is not claimed by')
+        expect((await call('POST', `${path}/secret`, {auth: {...other, resolver: resolverKey.address}})).status).toBe(
+            400
+        )
+        expect((await call<{secret: string}>('POST', `${path}/secret`, {auth: secret})).json).toEqual({
+            secret: submission.secrets[0]
+        })
+        expect((await call('GET', path)).json.status).toBe('secretReleased')
+    })
+
+    it('should reject orders not signed by their maker or locking on other secrets', async () => {
+        const submission = await newSubmission()
+
+        const forged = {...submission, signature: (await newSubmission()).signature}
+        expect((await call('POST', '/orders', forged)).json.error).toContain('not by its maker')
+
+        const otherSecrets = {...submission, secrets: CrossChainHashLock.new().secrets}
+        expect((await call('POST', '/orders', otherSecrets)).json.error).toContain('does not match')
+
+        expect((await call('GET', '/orders/0x1234')).status).toBe(404)
+    })
+
+    it('should take Aptos orders signed by their maker under the hash it computes', async () => {
+        const submission = newAptosSubmission()
+        const {order: json} = submission as AptosOrderSubmission
+        const expectedHash = AptosCrossChainOrder.fromJSON(json, APTOS_PACKAGE).getOrderHash(APTOS_CHAIN_ID)
+
+        const {json: order} = await call('POST', '/orders', submission)
+        expect(order.orderHash).toBe(expectedHash)
+        expect((await call('POST', '/orders', submission)).json.error).toContain('already submitted')
+
+        const forged = {...newAptosSubmission(), signature: submission.signature} as OrderSubmission
+        expect((await call('POST', '/orders', forged)).json.error).toContain('does not check against its maker')
+
+        const tampered = {...submission, order: {...json, takingAmount: '1'}} as OrderSubmission
+        expect((await call('POST', '/orders', tampered)).json.error).toContain('does not check against its maker')
+
+        const otherDomain = {...submission, srcChainId: APTOS_CHAIN_ID + 1} as OrderSubmission
+        expect((await call('POST', '/orders', otherDomain)).json.error).toContain('does not check against its maker')
+
+        const otherSecrets = {...newAptosSubmission(), secrets: CrossChainHashLock.new().secrets}
+        expect((await call('POST', '/orders', otherSecrets)).json.error).toContain('does not match')
+
+        const maker = Account.generate()
+        const unfillable = newAptosSubmission(maker) as AptosOrderSubmission & OrderSubmission
+        const u65Order = AptosCrossChainOrder.fromData(
+            {...toAptosCrossChainOrder(unfillable).build(), takingAmount: 1n << 64n},
+            APTOS_PACKAGE
+        )
+        unfillable.order = u65Order.toJSON()
+        unfillable.signature = signAptosOrder(maker, u65Order.build(), u65Order.getDomain(APTOS_CHAIN_ID))
+        expect((await call('POST', '/orders', unfillable)).json.error).toContain('does not fit the u64')
+
+        const undeposited = {...newAptosSubmission(), deposits: {}}
+        expect((await call('POST', '/orders', undeposited)).json.error).toContain('no maker deposit')
+
+        const otherDeposit = newAptosSubmission() as AptosOrderSubmission & OrderSubmission
+        otherDeposit.deposits = (submission as AptosOrderSubmission).deposits
+        expect((await call('POST', '/orders', otherDeposit)).json.error).toContain(
+            'not a source escrow deployment of the order'
+        )
+    })
+
+    it('should serve resolvers through the client', async () => {
+        const client = new RelayerClient(url)
+        const submission = await newSubmission()
+        const order = await client.submitOrder(submission)
+        const hashLock = CrossChainHashLock.forSingleFill(submission.secrets[0])
+
+        expect(order.hashLock).toEqual({evm: hashLock.evm.toString(), aptos: hashLock.aptos, multipleFills: false})
+        expect(await client.getOrder('0x1234')).toBeUndefined()
+
+        const report = async (ok: boolean): Promise<RelayerOrder> =>
+            client.reportEscrows(order.orderHash, await sign('escrows', order.orderHash, {ok}), {ok})
+
+        await client.claimOrder(order.orderHash, await sign('claim', order.orderHash))
+        await expect(client.claimOrder(order.orderHash, await sign('claim', order.orderHash))).rejects.toThrow(
+            'only open orders'
+        )
+        expect((await report(false)).mismatches).toHaveLength(1)
+        expect((await report(true)).status).toBe('escrowsVerified')
+        expect(await client.releaseSecret(order.orderHash, await sign('secret', order.orderHash, 0))).toBe(
+            submission.secrets[0]
+        )
+    })
+
+    it('should restore its state from the file store', async () => {
+        const path = join(mkdtempSync(join(tmpdir(), 'relayer-')), 'state.json')
+        const store = new RelayerStore(path, SECRETS_KEY)
+        const submission = await newSubmission()
+        const {orderHash} = new Relayer({evm: check}, store).submitOrder(submission)
+
+        expect(readFileSync(path, 'utf8')).not.toContain(submission.secrets[0].slice(2))
+        expect(() => new RelayerStore(path, '0x' + '11'.repeat(32)).load()).toThrow('do not decrypt')
+        expect(() => new RelayerStore(path)).toThrow('needs a key')
+        expect(() => new RelayerStore(path, '0x11')).toThrow('must be 32 bytes')
+
+        const restored = new Relayer({evm: check}, store)
+        restored.claimOrder(orderHash, await sign('claim', orderHash))
+        await restored.reportEscrows(orderHash, await sign('escrows', orderHash, {ok: true}), {ok: true})
+
+        expect(new Relayer({evm: check}, store).releaseSecret(orderHash, await sign('secret', orderHash, 0))).toBe(
+            submission.secrets[0]
+        )
+    })
+
+    describe('resolver requests', () => {
+        let now = 1_700_000_000
+        const relayer = new Relayer({evm: check, aptos: check}, undefined, {claimTimeout: 300, now: (): number => now})
+        const signAt = async (action: ResolverAction, orderHash: string, payload?: unknown): Promise<ResolverAuth> =>
+            sign(action, orderHash, payload, now)
+
+        it('should take requests signed by the EVM or Aptos key of the resolver for the order and payload only', async () => {
+            const {orderHash} = relayer.submitOrder(await newSubmission())
+            const aptosResolver = Account.generate()
+
+            expect(() => relayer.releaseSecret(orderHash, {resolver, timestamp: now, signature: '0x1234'})).toThrow(
+                'is not signed by its key'
+            )
+            const otherOrder = await signAt('claim', '0x' + '01'.repeat(32))
+            expect(() => relayer.claimOrder(orderHash, otherOrder)).toThrow('is not signed by its key')
+
+            const aptosClaim = await signResolverRequest(aptosResolver, 'claim', orderHash, undefined, now)
+            expect(relayer.claimOrder(orderHash, aptosClaim).resolver).toBe(aptosResolver.accountAddress.toString())
+
+            const report = {ok: true}
+            const escrows = await signResolverRequest(aptosResolver, 'escrows', orderHash, report, now)
+            await expect(relayer.reportEscrows(orderHash, escrows, {ok: false})).rejects.toThrow(
+                'is not signed by its key'
+            )
+            await expect(
+                relayer.reportEscrows(orderHash, {...escrows, resolver: resolverKey.address}, report)
+            ).rejects.toThrow('is not signed by its key')
+            expect((await relayer.reportEscrows(orderHash, escrows, report)).status).toBe('escrowsVerified')
+        })
+
+        it('should reject requests signed too long ago or in the future', async () => {
+            const {orderHash} = relayer.submitOrder(await newSubmission())
+
+            const stale = await sign('claim', orderHash, undefined, now - 61)
+            const future = await sign('claim', orderHash, undefined, now + 61)
+
+            expect(() => relayer.claimOrder(orderHash, stale)).toThrow(`signed at ${now - 61} is expired`)
+            expect(() => relayer.claimOrder(orderHash, future)).toThrow('is expired')
+            expect(relayer.claimOrder(orderHash, await sign('claim', orderHash, undefined, now - 60)).status).toBe(
+                'claimed'
+            )
+        })
+
+        it('should reopen orders whose escrows did not get verified before the claim timeout', async () => {
+            const first = relayer.submitOrder(await newSubmission())
+            const second = relayer.submitOrder(await newSubmission())
+
+            relayer.claimOrder(first.orderHash, await signAt('claim', first.orderHash))
+            relayer.claimOrder(second.orderHash, await signAt('claim', second.orderHash))
+            await relayer.reportEscrows(second.orderHash, await signAt('escrows', second.orderHash, {ok: true}), {
+                ok: true
+            })
+
+            now += 299
+            expect(relayer.getOrder(first.orderHash)).toMatchObject({status: 'claimed', resolver: resolverKey.address})
+
+            now += 1
+            expect(relayer.listOrders('open').map((o) => o.orderHash)).toContain(first.orderHash)
+            expect(relayer.getOrder(first.orderHash)?.resolver).toBeUndefined()
+            expect(relayer.getOrder(second.orderHash)?.status).toBe('escrowsVerified')
+            await expect(
+                relayer.reportEscrows(first.orderHash, await signAt('escrows', first.orderHash, {ok: true}), {ok: true})
+            ).rejects.toThrow('is not claimed by')
+
+            const other = SignerWallet.createRandom()
+            relayer.claimOrder(
+                first.orderHash,
+                await signResolverRequest(other, 'claim', first.orderHash, undefined, now)
+            )
+            expect(relayer.getOrder(first.orderHash)).toMatchObject({status: 'claimed', resolver: other.address})
+        })
+    })
+})
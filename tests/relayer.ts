@@ -0,0 +1,606 @@
+import Sdk from '@1inch/cross-chain-sdk'
+import {getBytes, hexlify, verifyTypedData} from 'ethers'
+import {createCipheriv, createDecipheriv, randomBytes} from 'node:crypto'
+import {existsSync, readFileSync, renameSync, writeFileSync} from 'node:fs'
+import {AptosCrossChainOrder, AptosCrossChainOrderJSON, validateEscrowOrder} from './aptos-cross-chain-order'
+import {AptosMakerDeposit, verifyMakerDeposit} from './aptos-maker-deposit'
+import {AptosOrderSignature, verifyAptosOrderSignature} from './aptos-order-signing'
+import {AptosDestination, ChainAddress, isAptosDestinationOf} from './chain-address'
+import {CrossChainHashLock} from './cross-chain-hash-lock'
+import {EscrowPairMismatch, EscrowPairVerifier} from './escrow-pair-verifier'
+import {RESOLVER_REQUEST_MAX_AGE, ResolverAction, ResolverAuth, verifyResolverRequest} from './resolver-auth'
+import {TokenRegistry} from './token-registry'
+
+// Order book of the relayer described in EXECUTION_FLOW.md. Everything it takes and returns is plain JSON,
+// amounts are decimal strings, so the same types are used over HTTP, see RelayerServer
+
+export type RelayerOrderStatus = 'open' | 'claimed' | 'escrowsVerified' | 'secretReleased'
+
+/**
+ * Order signed on EVM with EIP-712, filled into an Aptos destination escrow
+ */
+export type EvmOrderSubmission = {
+    chain: 'evm'
+    srcChainId: number
+    order: Sdk.LimitOrderV4Struct
+    /**
+     * Encoded order extension, holding the escrow extension
+     */
+    extension: string
+    signature: string
+    /**
+     * Destination escrow the EVM order can not name with 20 byte addresses, the order salt commits to its maker and
+     * coin type, see getAptosDestinationSalt
+     */
+    aptosDst: {
+        maker: string
+        tokenType: string
+        /**
+         * Defaults to the order taking amount scaled to the decimals of the coin, see TokenRegistry.toAptosDstAmount
+         */
+        amount?: string
+        /**
+         * Defaults to the order dst safety deposit, in octas
+         */
+        safetyDeposit?: string
+    }
+}
+
+/**
+ * Order signed by an Aptos maker, see aptos-order-signing, filled into an EVM destination escrow
+ */
+export type AptosOrderSubmission = {
+    chain: 'aptos'
+    /**
+     * Aptos chain id of the signed domain
+     */
+    srcChainId: number
+    /**
+     * Escrow package of the signed domain
+     */
+    verifyingPackage: string
+    order: AptosCrossChainOrderJSON
+    signature: AptosOrderSignature
+    /**
+     * Source escrow deployments funded by the maker, one per resolver it lets fill, keyed by resolver address, see
+     * aptos-maker-deposit. The resolver filling the order co-signs and submits its own.
+     * Listed publicly with the order: only the resolver a deposit names can submit it, and only into the escrow
+     */
+    deposits: Record<string, AptosMakerDeposit>
+}
+
+export type OrderSubmission = (EvmOrderSubmission | AptosOrderSubmission) & {
+    /**
+     * Secrets of the order hashlock, one for a single fill. Never returned by the relayer until released
+     */
+    secrets: string[]
+}
+
+export type RelayerOrder = {
+    orderHash: string
+    submission: EvmOrderSubmission | AptosOrderSubmission
+    /**
+     * Hashlocks of the order secrets, all resolvers need to deploy the escrows
+     */
+    hashLock: {
+        /**
+         * Sdk.HashLock of the EVM escrows
+         */
+        evm: string
+        /**
+         * hashlock_info of the Aptos escrows, see CrossChainHashLock.aptos
+         */
+        aptos: string
+        /**
+         * Whether the order locks on a Merkle tree of secrets, fillable in parts
+         */
+        multipleFills: boolean
+    }
+    status: RelayerOrderStatus
+    /**
+     * Resolver which claimed the order
+     */
+    resolver?: string
+    /**
+     * Unix seconds of the claim, the order is open again `claimTimeout` later unless its escrows got verified
+     */
+    claimedAt?: number
+    /**
+     * Mismatches found in the last escrows report
+     */
+    mismatches: EscrowPairMismatch[]
+    /**
+     * Indexes of the secrets whose escrows passed verification
+     */
+    verifiedSecrets: number[]
+    releasedSecrets: number[]
+}
+
+/**
+ * Escrows of an EVM order, as reported by the resolver which deployed them
+ */
+export type EvmEscrowReport = {
+    /**
+     * Sdk.Immutables.encode() of the SrcEscrowCreated event
+     */
+    srcImmutables: string
+    complement: ReturnType<Sdk.DstImmutablesComplement['toJSON']>
+    dstEscrowAddress: string
+    /**
+     * Secret the escrows lock on, 0 for a single fill
+     */
+    secretIndex?: number
+}
+
+/**
+ * Escrows of an Aptos order, as reported by the resolver which deployed them
+ */
+export type AptosEscrowReport = {
+    srcEscrowAddress: string
+    /**
+     * Sdk.Immutables.encode() of the EVM destination escrow, deployedAt set to its block time
+     */
+    dstImmutables: string
+    dstEscrowAddress: string
+    /**
+     * Secret the escrows lock on, 0 for a single fill
+     */
+    secretIndex?: number
+}
+
+/**
+ * Checks the escrows a resolver reports for `order` against it
+ *
+ * @returns the secret index the escrows lock on and every mismatch found
+ */
+export type EscrowCheck = (
+    order: RelayerOrder,
+    report: unknown,
+    hashLock: CrossChainHashLock
+) => Promise<{secretIndex: number; mismatches: EscrowPairMismatch[]}>
+
+export type RelayerOptions = {
+    /**
+     * Seconds a resolver has to get the escrows of an order it claimed verified, 10 minutes by default
+     */
+    claimTimeout?: number
+    /**
+     * Unix seconds, the clock of claim timeouts and resolver request ages. Defaults to the local clock
+     */
+    now?: () => number
+}
+
+type RelayerState = {
+    orders: RelayerOrder[]
+    secrets: Record<string, string[]>
+}
+
+// AES-256-GCM sizes, the file keeps iv || tag || ciphertext of the JSON secrets of each order
+const SECRETS_KEY_LENGTH = 32
+
+const IV_LENGTH = 12
+
+const TAG_LENGTH = 16
+
+/**
+ * Keeps the relayer state in memory, and in a JSON file rewritten on every change when `path` is set.
+ * The file holds the secrets of each order encrypted with `secretsKey`, unreadable to whoever copies it without the key
+ */
+export class RelayerStore {
+    private readonly secretsKey?: Buffer
+
+    /**
+     * @param secretsKey 32 bytes hex, required with `path`
+     * @throws if a file store has no key or the key is not 32 bytes
+     */
+    constructor(
+        private readonly path?: string,
+        secretsKey?: string
+    ) {
+        if (path && secretsKey === undefined) {
+            throw new Error('A file store needs a key to encrypt the order secrets')
+        }
+
+        if (secretsKey !== undefined) {
+            this.secretsKey = Buffer.from(getBytes(secretsKey))
+
+            if (this.secretsKey.length !== SECRETS_KEY_LENGTH) {
+                throw new Error(`Secrets key must be ${SECRETS_KEY_LENGTH} bytes, got ${this.secretsKey.length}`)
+            }
+        }
+    }
+
+    /**
+     * @throws if the file secrets do not decrypt with the store key
+     */
+    public load(): RelayerState {
+        if (!this.path || !existsSync(this.path)) {
+            return {orders: [], secrets: {}}
+        }
+
+        const {orders, secrets} = JSON.parse(readFileSync(this.path, 'utf8')) as {
+            orders: RelayerOrder[]
+            secrets: Record<string, string>
+        }
+
+        return {
+            orders,
+            secrets: Object.fromEntries(
+                Object.entries(secrets).map(([orderHash, encrypted]) => [orderHash, this.decrypt(orderHash, encrypted)])
+            )
+        }
+    }
+
+    public save(state: RelayerState): void {
+        if (!this.path) {
+            return
+        }
+
+        const secrets = Object.fromEntries(
+            Object.entries(state.secrets).map(([orderHash, orderSecrets]) => [orderHash, this.encrypt(orderSecrets)])
+        )
+
+        // Write aside and rename so a crash never leaves half a file
+        writeFileSync(`${this.path}.tmp`, JSON.stringify({orders: state.orders, secrets}, null, 2))
+        renameSync(`${this.path}.tmp`, this.path)
+    }
+
+    private encrypt(secrets: string[]): string {
+        const iv = randomBytes(IV_LENGTH)
+        const cipher = createCipheriv('aes-256-gcm', this.secretsKey!, iv)
+        const ciphertext = Buffer.concat([cipher.update(JSON.stringify(secrets), 'utf8'), cipher.final()])
+
+        return hexlify(Buffer.concat([iv, cipher.getAuthTag(), ciphertext]))
+    }
+
+    private decrypt(orderHash: string, encrypted: string): string[] {
+        const bytes = Buffer.from(getBytes(encrypted))
+        const decipher = createDecipheriv('aes-256-gcm', this.secretsKey!, bytes.subarray(0, IV_LENGTH))
+        decipher.setAuthTag(bytes.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH))
+
+        try {
+            const plaintext = Buffer.concat([decipher.update(bytes.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()])
+
+            return JSON.parse(plaintext.toString('utf8'))
+        } catch {
+            throw new Error(`Secrets of order ${orderHash} do not decrypt with the store key`)
+        }
+    }
+}
+
+/**
+ * Order book and secret keeper. Resolvers sign their requests, see resolver-auth, and get the secrets of the orders
+ * they claimed only
+ */
+export class Relayer {
+    private readonly state: RelayerState
+
+    private readonly claimTimeout: number
+
+    private readonly now: () => number
+
+    constructor(
+        private readonly checks: Partial<Record<OrderSubmission['chain'], EscrowCheck>>,
+        private readonly store = new RelayerStore(),
+        options: RelayerOptions = {}
+    ) {
+        this.state = store.load()
+        this.claimTimeout = options.claimTimeout ?? 600
+        this.now = options.now ?? ((): number => Math.floor(Date.now() / 1000))
+    }
+
+    /**
+     * Adds a maker order to the book, orders must be signed by their maker and lock on `secrets`
+     */
+    public submitOrder(submission: OrderSubmission): RelayerOrder {
+        const {secrets, ...order} = submission
+        const hashLock = toHashLock(secrets)
+        const orderHash = order.chain === 'evm' ? verifyEvmOrder(order, hashLock) : verifyAptosOrder(order, hashLock)
+
+        if (this.getOrder(orderHash)) {
+            throw new Error(`Order ${orderHash} already submitted`)
+        }
+
+        const relayerOrder: RelayerOrder = {
+            orderHash,
+            submission: order,
+            hashLock: {evm: hashLock.evm.toString(), aptos: hashLock.aptos, multipleFills: hashLock.isMultipleFills},
+            status: 'open',
+            mismatches: [],
+            verifiedSecrets: [],
+            releasedSecrets: []
+        }
+
+        this.state.orders.push(relayerOrder)
+        this.state.secrets[orderHash] = secrets
+        this.store.save(this.state)
+
+        return relayerOrder
+    }
+
+    public getOrder(orderHash: string): RelayerOrder | undefined {
+        this.reopenExpiredClaims()
+
+        return this.state.orders.find((o) => o.orderHash.toLowerCase() === orderHash.toLowerCase())
+    }
+
+    public listOrders(status?: RelayerOrderStatus): RelayerOrder[] {
+        this.reopenExpiredClaims()
+
+        return this.state.orders.filter((o) => !status || o.status === status)
+    }
+
+    /**
+     * Reserves an open order for the resolver signing `auth`, the only one it will release secrets to,
+     * for `claimTimeout` seconds unless it gets its escrows verified
+     */
+    public claimOrder(orderHash: string, auth: ResolverAuth): RelayerOrder {
+        const resolver = this.authenticate(auth, 'claim', orderHash)
+        const order = this.mustGetOrder(orderHash)
+
+        if (order.status !== 'open') {
+            throw new Error(`Order ${orderHash} is ${order.status}, only open orders can be claimed`)
+        }
+
+        order.status = 'claimed'
+        order.resolver = resolver
+        order.claimedAt = this.now()
+        this.store.save(this.state)
+
+        return order
+    }
+
+    /**
+     * Verifies the escrows the resolver signing `auth` deployed for the order, the secret they lock on can be
+     * released once they pass
+     */
+    public async reportEscrows(orderHash: string, auth: ResolverAuth, report: unknown): Promise<RelayerOrder> {
+        const order = this.mustGetClaimed(orderHash, this.authenticate(auth, 'escrows', orderHash, report))
+        const check = this.checks[order.submission.chain]
+
+        if (!check) {
+            throw new Error(`No escrow check for ${order.submission.chain} orders`)
+        }
+
+        const {secretIndex, mismatches} = await check(order, report, toHashLock(this.state.secrets[order.orderHash]))
+
+        order.mismatches = mismatches
+
+        if (!mismatches.length && !order.verifiedSecrets.includes(secretIndex)) {
+            order.verifiedSecrets.push(secretIndex)
+            order.status = order.status === 'claimed' ? 'escrowsVerified' : order.status
+        }
+
+        this.store.save(this.state)
+
+        return order
+    }
+
+    /**
+     * @throws unless the escrows locking on the secret passed verification
+     */
+    public releaseSecret(orderHash: string, auth: ResolverAuth, secretIndex = 0): string {
+        const order = this.mustGetClaimed(orderHash, this.authenticate(auth, 'secret', orderHash, secretIndex))
+
+        if (!order.verifiedSecrets.includes(secretIndex)) {
+            throw new Error(`Escrows of secret ${secretIndex} of order ${orderHash} are not verified`)
+        }
+
+        if (!order.releasedSecrets.includes(secretIndex)) {
+            order.releasedSecrets.push(secretIndex)
+        }
+
+        order.status = 'secretReleased'
+        this.store.save(this.state)
+
+        return this.state.secrets[order.orderHash][secretIndex]
+    }
+
+    private mustGetOrder(orderHash: string): RelayerOrder {
+        const order = this.getOrder(orderHash)
+
+        if (!order) {
+            throw new Error(`Order ${orderHash} not found`)
+        }
+
+        return order
+    }
+
+    private mustGetClaimed(orderHash: string, resolver: string): RelayerOrder {
+        const order = this.mustGetOrder(orderHash)
+
+        if (order.status === 'open' || order.resolver?.toLowerCase() !== resolver.toLowerCase()) {
+            throw new Error(`Order ${orderHash} is not claimed by ${resolver}`)
+        }
+
+        return order
+    }
+
+    // Returns the resolver of a request signed by its key within RESOLVER_REQUEST_MAX_AGE of now
+    private authenticate(auth: ResolverAuth, action: ResolverAction, orderHash: string, payload?: unknown): string {
+        if (Math.abs(this.now() - auth.timestamp) > RESOLVER_REQUEST_MAX_AGE) {
+            throw new Error(`Request of ${auth.resolver} signed at ${auth.timestamp} is expired`)
+        }
+
+        if (!verifyResolverRequest(auth, action, orderHash, payload)) {
+            throw new Error(`Request of ${auth.resolver} is not signed by its key`)
+        }
+
+        return auth.resolver
+    }
+
+    // Claims whose escrows did not get verified in time, the order can be filled by another resolver
+    private reopenExpiredClaims(): void {
+        const expired = this.state.orders.filter(
+            (o) => o.status === 'claimed' && o.claimedAt !== undefined && this.now() >= o.claimedAt + this.claimTimeout
+        )
+
+        for (const order of expired) {
+            order.status = 'open'
+            order.resolver = undefined
+            order.claimedAt = undefined
+            order.mismatches = []
+        }
+
+        if (expired.length) {
+            this.store.save(this.state)
+        }
+    }
+}
+
+/**
+ * Escrow check of EVM orders filled into an Aptos destination escrow, reports are EvmEscrowReport. `tokens` scales
+ * the order taking amount to the coin of the destination escrow when the submission does not set it
+ */
+export function evmToAptosCheck(verifier: EscrowPairVerifier, tokens: TokenRegistry): EscrowCheck {
+    return async (order, report, hashLock) => {
+        const {srcImmutables, complement, dstEscrowAddress, secretIndex = 0} = report as EvmEscrowReport
+        const submission = order.submission as EvmOrderSubmission
+        const {tokenType, amount, safetyDeposit} = submission.aptosDst
+        const crossChainOrder = toCrossChainOrder(submission)
+        const dstComplement = toDstImmutablesComplement(complement)
+
+        const mismatches = await verifier.verifyEscrowPair(
+            Sdk.Immutables.decode(srcImmutables),
+            dstComplement,
+            dstEscrowAddress,
+            {
+                order: crossChainOrder,
+                srcChainId: submission.srcChainId,
+                hashLock,
+                destination: toAptosDestination(submission),
+                secretIndex,
+                amount:
+                    amount === undefined
+                        ? tokens.toAptosDstAmount(crossChainOrder.escrowExtension.dstChainId, dstComplement, tokenType)
+                        : BigInt(amount),
+                safetyDeposit: safetyDeposit === undefined ? undefined : BigInt(safetyDeposit)
+            }
+        )
+
+        return {secretIndex, mismatches}
+    }
+}
+
+/**
+ * Escrow check of Aptos orders filled into an EVM destination escrow, reports are AptosEscrowReport
+ */
+export function aptosToEvmCheck(verifier: EscrowPairVerifier): EscrowCheck {
+    return async (order, report, hashLock) => {
+        const {srcEscrowAddress, dstImmutables, dstEscrowAddress, secretIndex = 0} = report as AptosEscrowReport
+        const submission = order.submission as AptosOrderSubmission
+
+        const mismatches = await verifier.verifyAptosToEvmPair(
+            srcEscrowAddress,
+            Sdk.Immutables.decode(dstImmutables),
+            dstEscrowAddress,
+            {order: toAptosCrossChainOrder(submission), srcChainId: submission.srcChainId, hashLock, secretIndex}
+        )
+
+        return {secretIndex, mismatches}
+    }
+}
+
+/**
+ * Signed order of `submission`, not verified
+ */
+export function toCrossChainOrder(submission: EvmOrderSubmission): Sdk.CrossChainOrder {
+    return Sdk.CrossChainOrder.fromDataAndExtension(submission.order, Sdk.Extension.decode(submission.extension))
+}
+
+/**
+ * Signed order of `submission`, not verified
+ */
+export function toAptosCrossChainOrder(submission: AptosOrderSubmission): AptosCrossChainOrder {
+    return AptosCrossChainOrder.fromJSON(submission.order, submission.verifyingPackage)
+}
+
+/**
+ * Complement of a SrcEscrowCreated event, from its toJSON()
+ */
+export function toDstImmutablesComplement(
+    complement: ReturnType<Sdk.DstImmutablesComplement['toJSON']>
+): Sdk.DstImmutablesComplement {
+    return Sdk.DstImmutablesComplement.new({
+        maker: new Sdk.Address(complement.maker),
+        amount: BigInt(complement.amount),
+        token: new Sdk.Address(complement.token),
+        safetyDeposit: BigInt(complement.safetyDeposit)
+    })
+}
+
+function toAptosDestination({aptosDst}: EvmOrderSubmission): AptosDestination {
+    return {receiver: ChainAddress.aptosAccount(aptosDst.maker), token: ChainAddress.aptosCoinType(aptosDst.tokenType)}
+}
+
+function toHashLock(secrets: string[]): CrossChainHashLock {
+    return secrets.length === 1
+        ? CrossChainHashLock.forSingleFill(secrets[0])
+        : CrossChainHashLock.forMultipleFills(secrets)
+}
+
+// Checks the maker signature, that the escrow extension locks on the submitted secrets and that the order salt
+// commits to the Aptos destination, returns the order hash
+function verifyEvmOrder(submission: EvmOrderSubmission, hashLock: CrossChainHashLock): string {
+    const order = toCrossChainOrder(submission)
+    const typedData = order.getTypedData(submission.srcChainId)
+    const signer = verifyTypedData(
+        typedData.domain,
+        {Order: typedData.types[typedData.primaryType]},
+        typedData.message,
+        submission.signature
+    )
+
+    if (!new Sdk.Address(signer).equal(order.maker)) {
+        throw new Error(`Order signed by ${signer}, not by its maker ${order.maker}`)
+    }
+
+    if (!order.escrowExtension.hashLockInfo.eq(hashLock.evm)) {
+        throw new Error('Order hashlock does not match the submitted secrets')
+    }
+
+    if (!isAptosDestinationOf(order, toAptosDestination(submission))) {
+        throw new Error('Order salt does not commit to the submitted Aptos destination')
+    }
+
+    return order.getOrderHash(submission.srcChainId)
+}
+
+// Checks the maker signature, that the order hashlock locks on the submitted secrets and that the resolver module
+// can deploy its source escrow, returns the order hash
+function verifyAptosOrder(submission: AptosOrderSubmission, hashLock: CrossChainHashLock): string {
+    const order = toAptosCrossChainOrder(submission)
+    const domain = order.getDomain(submission.srcChainId)
+
+    if (!verifyAptosOrderSignature(order.build(), domain, submission.signature)) {
+        throw new Error(`Order signature does not check against its maker ${order.maker}`)
+    }
+
+    validateEscrowOrder(order.build())
+
+    if (order.escrowExtension.hashLockInfo.toLowerCase() !== hashLock.aptos.toLowerCase()) {
+        throw new Error('Order hashlock does not match the submitted secrets')
+    }
+
+    if (order.multipleFillsAllowed) {
+        throw new Error('Aptos orders allowing multiple fills can not be funded by maker deposits')
+    }
+
+    const resolvers = Object.keys(submission.deposits)
+
+    if (!resolvers.length) {
+        throw new Error('Order has no maker deposit, no resolver could fund its source escrow')
+    }
+
+    for (const resolver of resolvers) {
+        if (!order.canExecuteAt(resolver, order.deadline)) {
+            throw new Error(`Deposit to ${resolver}, a resolver the order does not whitelist`)
+        }
+
+        if (!verifyMakerDeposit(submission.deposits[resolver], order, resolver, submission.srcChainId)) {
+            throw new Error(`Deposit to ${resolver} is not a source escrow deployment of the order signed by the maker`)
+        }
+    }
+
+    return order.getOrderHash(submission.srcChainId)
+}
@@ -0,0 +1,104 @@
+import {Account} from '@aptos-labs/ts-sdk'
+import {isAddress, keccak256, Signer, toUtf8Bytes, verifyMessage} from 'ethers'
+import {AptosOrderSignature, signAptosMessage, verifyAptosSignature} from './aptos-order-signing'
+
+// Requests of a resolver to the relayer, signed so the relayer only acts on them for the resolver they name.
+// The resolver signs the text of getResolverRequestMessage with its EVM key, as personal_sign (EIP-191), or with the
+// key of its Aptos account. The text commits to the order, the request payload and the time it was signed at,
+// the relayer takes it for RESOLVER_REQUEST_MAX_AGE seconds either side of its clock
+
+export const RESOLVER_REQUEST_MAX_AGE = 60
+
+export type ResolverAction = 'claim' | 'escrows' | 'secret'
+
+/**
+ * EVM key of an EVM resolver address, or Aptos account of an Aptos resolver
+ */
+export type ResolverSigner = Signer | Account
+
+export type ResolverAuth = {
+    /**
+     * EVM address or Aptos account address of the resolver
+     */
+    resolver: string
+    /**
+     * Unix seconds the request was signed at
+     */
+    timestamp: number
+    /**
+     * EIP-191 signature of an EVM resolver, or signature of an Aptos resolver with the public key checking it
+     */
+    signature: string | AptosOrderSignature
+}
+
+/**
+ * Text a resolver signs for `action` on `orderHash`. `payload` is the escrows report of `escrows` and the secret
+ * index of `secret`, committed to by the keccak256 of its JSON
+ */
+export function getResolverRequestMessage(
+    action: ResolverAction,
+    orderHash: string,
+    payload: unknown,
+    resolver: string,
+    timestamp: number
+): string {
+    return [
+        'Fusion+ Aptos relayer request',
+        `action: ${action}`,
+        `order: ${orderHash.toLowerCase()}`,
+        `payload: ${keccak256(toUtf8Bytes(JSON.stringify(payload ?? null)))}`,
+        `resolver: ${resolver.toLowerCase()}`,
+        `timestamp: ${timestamp}`
+    ].join('\n')
+}
+
+export async function getResolverAddress(signer: ResolverSigner): Promise<string> {
+    return isAptosAccount(signer) ? signer.accountAddress.toString() : signer.getAddress()
+}
+
+export async function signResolverRequest(
+    signer: ResolverSigner,
+    action: ResolverAction,
+    orderHash: string,
+    payload?: unknown,
+    timestamp = Math.floor(Date.now() / 1000)
+): Promise<ResolverAuth> {
+    const resolver = await getResolverAddress(signer)
+    const message = getResolverRequestMessage(action, orderHash, payload, resolver, timestamp)
+
+    return {
+        resolver,
+        timestamp,
+        signature: isAptosAccount(signer)
+            ? signAptosMessage(signer, toUtf8Bytes(message))
+            : await signer.signMessage(message)
+    }
+}
+
+/**
+ * Whether `auth` is a signature of the request by the key of `auth.resolver`, the request age is up to the caller
+ */
+export function verifyResolverRequest(
+    auth: ResolverAuth,
+    action: ResolverAction,
+    orderHash: string,
+    payload?: unknown
+): boolean {
+    const {resolver, timestamp, signature} = auth
+    const message = getResolverRequestMessage(action, orderHash, payload, resolver, timestamp)
+
+    try {
+        if (typeof signature === 'string') {
+            return isAddress(resolver) && verifyMessage(message, signature).toLowerCase() === resolver.toLowerCase()
+        }
+
+        return verifyAptosSignature(toUtf8Bytes(message), resolver, signature)
+    } catch {
+        // Malformed signature, key or address
+        return false
+    }
+}
+
+function isAptosAccount(signer: ResolverSigner): signer is Account {
+    return 'accountAddress' in signer
+}
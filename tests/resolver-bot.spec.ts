@@ -0,0 +1,293 @@
+import {expect} from '@jest/globals'
+import {Account} from '@aptos-labs/ts-sdk'
+import Sdk from '@1inch/cross-chain-sdk'
+import {AbiCoder, id, JsonRpcProvider, TransactionRequest, Wallet as SignerWallet} from 'ethers'
+import {AptosCrossChainOrder} from './aptos-cross-chain-order'
+import {AptosEscrowClient} from './aptos-escrow-client'
+import {signMakerDeposit} from './aptos-maker-deposit'
+import {AptosResolver} from './aptos-resolver'
+import {signAptosOrder} from './aptos-order-signing'
+import {Escrow, TimelockDelays} from './aptos-types'
+import {CrossChainHashLock} from './cross-chain-hash-lock'
+import {AptosOrderSubmission, EscrowCheck, OrderSubmission, Relayer} from './relayer'
+import {Resolver} from './resolver'
+import {ResolverAuth, signResolverRequest} from './resolver-auth'
+import {EvmResolverConfig, OrderSource, ResolverBot} from './resolver-bot'
+import {SwapSession, SwapSessionStore} from './swap-session'
+import {TokenRegistry} from './token-registry'
+import {Wallet} from './wallet'
+
+const APTOS_CHAIN_ID = 2
+const EVM_CHAIN_ID = 1
+const APTOS_PACKAGE = '0xdef391b1c8951bf801f67a005f9eba70a5aae6d02eba6bb4889a88288ea806a2'
+const APTOS_RESOLVER = '0x' + '12'.repeat(32)
+const EVM_RESOLVER = '0x00000000000000000000000000000000000000aa'
+const FACTORY = '0x0000000000000000000000000000000000000f00'
+const DST_IMPL = '0x0000000000000000000000000000000000000a02'
+const EVM_TOKEN = '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48'
+const SRC_ESCROW = '0x' + '5c'.repeat(32)
+const BOT_KEY = SignerWallet.createRandom()
+
+const delays: TimelockDelays = {
+    srcWithdrawalDelay: 10,
+    srcPublicWithdrawalDelay: 120,
+    srcCancellationDelay: 121,
+    srcPublicCancellationDelay: 122,
+    dstWithdrawalDelay: 10,
+    dstPublicWithdrawalDelay: 100,
+    dstCancellationDelay: 101
+}
+
+const coder = AbiCoder.defaultAbiCoder()
+
+// Passes every report unless `reject` is set, in place of the EscrowPairVerifier reading both chains
+function escrowCheck(reject = false): EscrowCheck {
+    return async () => ({
+        secretIndex: 0,
+        mismatches: reject ? [{field: 'dst.amount', expected: '99', actual: '1'}] : []
+    })
+}
+
+function newAptosSubmission(): OrderSubmission {
+    const maker = Account.generate()
+    const hashLock = CrossChainHashLock.new()
+    const order = AptosCrossChainOrder.new(
+        APTOS_PACKAGE,
+        {
+            maker: maker.accountAddress.toString(),
+            receiver: '0x000000000000000000000000f39fd6e51aad88f6f4ce6ab8827279cfffb92266',
+            makerAsset: '0x1::aptos_coin::AptosCoin',
+            takerAsset: EVM_TOKEN,
+            makingAmount: 100_000_000n,
+            takingAmount: 99_000_000n
+        },
+        {
+            hashLock: hashLock.aptos,
+            dstChainId: BigInt(EVM_CHAIN_ID),
+            srcSafetyDeposit: 1000n,
+            dstSafetyDeposit: 2000n,
+            timeLocks: delays
+        },
+        {
+            auction: {
+                gasBumpEstimate: 0,
+                gasPriceEstimate: 0,
+                startTime: 1_700_000_000,
+                duration: 120,
+                initialRateBump: 0,
+                auctionPoints: []
+            },
+            whitelist: []
+        }
+    )
+
+    return {
+        chain: 'aptos',
+        srcChainId: APTOS_CHAIN_ID,
+        verifyingPackage: APTOS_PACKAGE,
+        order: order.toJSON(),
+        signature: signAptosOrder(maker, order.build(), order.getDomain(APTOS_CHAIN_ID)),
+        deposits: {
+            [APTOS_RESOLVER]: signMakerDeposit(
+                maker,
+                order,
+                APTOS_RESOLVER,
+                new AptosResolver(APTOS_PACKAGE, APTOS_PACKAGE),
+                {
+                    chainId: APTOS_CHAIN_ID,
+                    sequenceNumber: 0n,
+                    gasUnitPrice: 100n
+                }
+            )
+        },
+        secrets: hashLock.secrets
+    }
+}
+
+/**
+ * Bot filling Aptos orders of an in-process relayer, with both chains stubbed. Each chain clock moves 5 seconds on
+ * every read, so the bot has to wait on it for the withdrawal periods
+ */
+function setup(check = escrowCheck()): {
+    bot: ResolverBot
+    relayer: Relayer
+    sessions: SwapSessionStore
+    calls: string[]
+} {
+    const relayer = new Relayer({aptos: check})
+    const sessions = new SwapSessionStore()
+    // Chain calls of the bot, in order
+    const calls: string[] = []
+    let evmTime = 1000n
+    let aptosTime = 1000n
+    let dstEscrowBalance = 0n
+
+    const srcEscrow = (): Escrow => {
+        const order = relayer.listOrders()[0]
+        const aptosOrder = AptosCrossChainOrder.fromJSON(
+            (order.submission as AptosOrderSubmission).order,
+            APTOS_PACKAGE
+        )
+
+        return {
+            immutables: {
+                ...aptosOrder.toSrcImmutables(APTOS_CHAIN_ID, APTOS_RESOLVER, aptosOrder.makingAmount),
+                timelocks: {...delays, deployedAt: 1000n}
+            },
+            lockedAmount: aptosOrder.makingAmount,
+            safetyDeposit: 1000n,
+            isCompleted: calls.includes('aptos.withdraw')
+        }
+    }
+
+    const aptos = {
+        address: APTOS_RESOLVER,
+        events: {getOne: () => ({escrowAddress: SRC_ESCROW, immutables: srcEscrow().immutables, isSource: true})},
+        findEscrowCreated: async () =>
+            calls.includes('aptos.deploySrc')
+                ? {escrowAddress: SRC_ESCROW, immutables: srcEscrow().immutables, isSource: true}
+                : undefined,
+        submitMakerDeposit: async () => {
+            calls.push('aptos.deploySrc')
+        },
+        getEscrowImmutables: async () => srcEscrow().immutables,
+        getEscrow: async () => srcEscrow(),
+        getLedgerTime: async () => (aptosTime += 5n),
+        withdraw: async () => {
+            calls.push('aptos.withdraw')
+            expect(aptosTime).toBeGreaterThan(1000n + BigInt(delays.srcWithdrawalDelay))
+        }
+    } as unknown as AptosEscrowClient
+
+    const provider = {
+        getFeeData: async () => ({gasPrice: 0n}),
+        getBlockNumber: async () => 10,
+        getBlock: async () => ({timestamp: Number((evmTime += 5n))}),
+        getLogs: async () => [],
+        call: async ({data}: TransactionRequest) =>
+            String(data).startsWith(id('balanceOf(address)').slice(0, 10))
+                ? coder.encode(['uint256'], [dstEscrowBalance])
+                : coder.encode(['address'], [DST_IMPL])
+    } as unknown as JsonRpcProvider
+    const resolver = {
+        dstAddress: EVM_RESOLVER,
+        deployDst: (immutables: Sdk.Immutables) => {
+            // The tokens the escrow gets from the deployment
+            dstEscrowBalance = immutables.amount
+
+            return {to: EVM_RESOLVER, data: 'deployDst'}
+        },
+        withdraw: (side: string) => ({to: EVM_RESOLVER, data: `withdraw.${side}`})
+    } as unknown as Resolver
+    const wallet = {
+        provider,
+        send: async (tx: TransactionRequest) => {
+            calls.push(`evm.${tx.data}`)
+
+            if (tx.data === 'deployDst') {
+                return {txHash: '0x01', blockHash: '0x02', blockTimestamp: 1010n}
+            }
+
+            // Dst withdrawal starts at the block time of deployDst plus dstWithdrawalDelay
+            expect(evmTime).toBeGreaterThan(1010n + BigInt(delays.dstWithdrawalDelay))
+            dstEscrowBalance = 0n
+
+            return {txHash: '0x03', blockHash: '0x04', blockTimestamp: evmTime}
+        }
+    } as unknown as Wallet
+    const evm: EvmResolverConfig = {chainId: EVM_CHAIN_ID, wallet, resolver, escrowFactory: FACTORY}
+
+    // Records whether the session was saved when the order got claimed
+    const source: OrderSource = {
+        listOrders: relayer.listOrders.bind(relayer),
+        getOrder: relayer.getOrder.bind(relayer),
+        reportEscrows: relayer.reportEscrows.bind(relayer),
+        releaseSecret: relayer.releaseSecret.bind(relayer),
+        claimOrder: (orderHash: string, auth: ResolverAuth) => {
+            calls.push(sessions.get(orderHash) ? 'relayer.claim' : 'relayer.claimWithoutSession')
+
+            return relayer.claimOrder(orderHash, auth)
+        }
+    }
+
+    const bot = new ResolverBot(
+        source,
+        evm,
+        aptos,
+        {requestSigner: BOT_KEY, tokens: new TokenRegistry(), policy: (): boolean => true, pollInterval: 1},
+        sessions
+    )
+
+    return {bot, relayer, sessions, calls}
+}
+
+describe('ResolverBot', () => {
+    it('should fill an Aptos order from the maker deposit once the relayer verified the escrows', async () => {
+        const {bot, relayer, sessions, calls} = setup()
+        const submission = newAptosSubmission()
+        const {orderHash} = relayer.submitOrder(submission)
+
+        const [result] = await bot.poll()
+
+        expect(result).toMatchObject({orderHash, srcEscrowAddress: SRC_ESCROW, secret: submission.secrets[0]})
+        expect(calls).toEqual([
+            'relayer.claim',
+            'aptos.deploySrc',
+            'evm.deployDst',
+            'evm.withdraw.dst',
+            'aptos.withdraw'
+        ])
+        expect(relayer.getOrder(orderHash)).toMatchObject({status: 'secretReleased', resolver: BOT_KEY.address})
+        expect(sessions.get(orderHash)?.state).toBe('SrcWithdrawn')
+        expect(await bot.poll()).toEqual([])
+    })
+
+    it('should skip Aptos orders without a maker deposit to the bot', async () => {
+        const {bot, relayer} = setup()
+        const order = relayer.submitOrder(newAptosSubmission())
+
+        expect(await bot.quote(order)).toBeDefined()
+        expect(await bot.quote({...order, submission: {...order.submission, deposits: {}}} as typeof order)).toBe(
+            undefined
+        )
+    })
+
+    it('should keep the secret until the relayer accepts the escrows', async () => {
+        const {bot, relayer, sessions, calls} = setup(escrowCheck(true))
+        const {orderHash} = relayer.submitOrder(newAptosSubmission())
+
+        expect(await bot.poll()).toEqual([])
+        expect(sessions.get(orderHash)?.state).toBe('DstDeployed')
+        expect(relayer.getOrder(orderHash)?.status).toBe('claimed')
+        expect(calls).not.toContain('evm.withdraw.dst')
+    })
+
+    it('should resume a swap claimed before a restart, without claiming or depositing again', async () => {
+        const {bot, relayer, sessions, calls} = setup()
+        const submission = newAptosSubmission()
+        const order = relayer.submitOrder(submission)
+
+        // Saved and claimed, then the bot stopped before recording the source escrow it deployed
+        SwapSession.start(sessions, order, {makingAmount: 100_000_000n, takingAmount: 99_000_000n}, 10)
+        relayer.claimOrder(order.orderHash, await signResolverRequest(BOT_KEY, 'claim', order.orderHash))
+        calls.push('aptos.deploySrc')
+
+        const [result] = await bot.resume()
+
+        expect(result.secret).toBe(submission.secrets[0])
+        expect(calls).toEqual(['aptos.deploySrc', 'evm.deployDst', 'evm.withdraw.dst', 'aptos.withdraw'])
+    })
+
+    it('should cancel its session when another resolver claimed the order', async () => {
+        const {bot, relayer, sessions, calls} = setup()
+        const order = relayer.submitOrder(newAptosSubmission())
+        relayer.claimOrder(
+            order.orderHash,
+            await signResolverRequest(SignerWallet.createRandom(), 'claim', order.orderHash)
+        )
+
+        await expect(bot.fill(order, (await bot.quote(order))!)).rejects.toThrow('only open orders')
+        expect(sessions.get(order.orderHash)?.state).toBe('Cancelled')
+        expect(calls).toEqual(['relayer.claim'])
+    })
+})
@@ -0,0 +1,594 @@
+import Sdk from '@1inch/cross-chain-sdk'
+import {Contract} from 'ethers'
+import {AptosEscrowClient} from './aptos-escrow-client'
+import {calculateRateBump, calculateTakingAmount, fromSdkAuctionDetails} from './aptos-dutch-auction'
+import {findMakerDeposit} from './aptos-maker-deposit'
+import {fromSdkTimeLocks, toSdkTimeLocks} from './aptos-timelocks'
+import {CrossChainHashLock} from './cross-chain-hash-lock'
+import {EscrowFactory} from './escrow-factory'
+import {
+    AptosEscrowReport,
+    AptosOrderSubmission,
+    EvmEscrowReport,
+    EvmOrderSubmission,
+    RelayerOrder,
+    RelayerOrderStatus,
+    toAptosCrossChainOrder,
+    toCrossChainOrder,
+    toDstImmutablesComplement
+} from './relayer'
+import {Resolver} from './resolver'
+import {getResolverAddress, ResolverAuth, ResolverSigner, signResolverRequest} from './resolver-auth'
+import {SwapSession, SwapSessionStore} from './swap-session'
+import {EscrowSide, getTimeline} from './timelock-stages'
+import {TokenRegistry} from './token-registry'
+import {Wallet} from './wallet'
+import ERC20 from '../dist/contracts/IERC20.sol/IERC20.json'
+
+// Denominator of the maker asset price taken by profitPolicy
+const PRICE_BASE = 10n ** 18n
+
+type Awaitable<T> = T | Promise<T>
+
+/**
+ * Order book the bot takes orders from, a RelayerClient or an in-process Relayer
+ */
+export type OrderSource = {
+    listOrders(status?: RelayerOrderStatus): Awaitable<RelayerOrder[]>
+    getOrder(orderHash: string): Awaitable<RelayerOrder | undefined>
+    claimOrder(orderHash: string, auth: ResolverAuth): Awaitable<RelayerOrder>
+    reportEscrows(orderHash: string, auth: ResolverAuth, report: unknown): Awaitable<RelayerOrder>
+    releaseSecret(orderHash: string, auth: ResolverAuth, secretIndex?: number): Awaitable<string>
+}
+
+/**
+ * Price of a full fill at the current auction rate
+ */
+export type FillQuote = {
+    makingAmount: bigint
+    /**
+     * Amount the maker gets on the destination chain
+     */
+    takingAmount: bigint
+    rateBump: bigint
+    /**
+     * EVM gas price, in wei
+     */
+    gasPrice: bigint
+}
+
+/**
+ * Decides whether the bot fills an order at `quote`, asked again on every poll while the order is open
+ */
+export type FillPolicy = (order: RelayerOrder, quote: FillQuote) => Awaitable<boolean>
+
+/**
+ * EVM chain the bot fills on: the source chain of EVM orders and the destination chain of Aptos orders
+ */
+export type EvmResolverConfig = {
+    chainId: number
+    /**
+     * Owner of the Resolver contract, pays the gas and the safety deposits
+     */
+    wallet: Wallet
+    resolver: Resolver
+    escrowFactory: string
+}
+
+export type ResolverBotConfig = {
+    /**
+     * Key the bot signs its relayer requests with, the relayer only releases the secrets of the orders it claims to
+     * the resolver of this key
+     */
+    requestSigner: ResolverSigner
+    /**
+     * Decimals of the order taker assets and Aptos coins, to scale the taking amount of EVM orders to the coin of
+     * their destination escrow
+     */
+    tokens: TokenRegistry
+    policy: FillPolicy
+    /**
+     * Milliseconds between two polls of the order source and two checks of the withdrawal time
+     */
+    pollInterval?: number
+    log?: (message: string) => void
+}
+
+export type FillResult = {
+    orderHash: string
+    srcEscrowAddress: string
+    dstEscrowAddress: string
+    secret: string
+}
+
+/**
+ * Long-running resolver: polls the open orders of a relayer, fills those its policy accepts at the current auction
+ * price and withdraws on both chains once the relayer shares the secret.
+ *
+ * EVM orders are filled from the Resolver contract into an Aptos destination escrow, Aptos orders from a source
+ * escrow funded by the maker, with the deposit it signed to the Aptos resolver account, into an EVM destination escrow. Orders are
+ * filled whole and one at a time, orders allowing multiple fills are left to other resolvers.
+ *
+ * Every step is recorded in a SwapSession, the first one before the order is claimed. Unfinished sessions are resumed
+ * on every poll, looking on chain for the escrows a crashed bot deployed without recording them
+ */
+export class ResolverBot {
+    private readonly evmFactory: EscrowFactory
+
+    private timer?: NodeJS.Timeout
+
+    private polling?: Promise<unknown>
+
+    private running = false
+
+    constructor(
+        private readonly source: OrderSource,
+        private readonly evm: EvmResolverConfig,
+        private readonly aptos: AptosEscrowClient,
+        private readonly config: ResolverBotConfig,
+        private readonly sessions = new SwapSessionStore()
+    ) {
+        this.evmFactory = new EscrowFactory(evm.wallet.provider, evm.escrowFactory)
+    }
+
+    private get pollInterval(): number {
+        return this.config.pollInterval ?? 5000
+    }
+
+    public start(): void {
+        if (this.running) {
+            return
+        }
+
+        this.running = true
+
+        const tick = (): void => {
+            this.polling = this.resume()
+                .then(() => this.poll())
+                .catch((e) => this.log(`Poll failed: ${errorMessage(e)}`))
+                .finally(() => {
+                    if (this.running) {
+                        this.timer = setTimeout(tick, this.pollInterval)
+                    }
+                })
+        }
+
+        tick()
+    }
+
+    /**
+     * Stops polling, resolves once the fill in progress, if any, is done
+     */
+    public async stop(): Promise<void> {
+        this.running = false
+        clearTimeout(this.timer)
+        await this.polling
+    }
+
+    /**
+     * Drives every unfinished swap session to its end, e.g. after a restart
+     *
+     * @returns the fills completed
+     */
+    public async resume(): Promise<FillResult[]> {
+        const results: FillResult[] = []
+
+        for (const session of SwapSession.unfinished(this.sessions)) {
+            this.log(`Resuming ${session.orderHash} from ${session.state}`)
+
+            try {
+                results.push(await this.advance(session))
+            } catch (e) {
+                this.log(`Swap of ${session.orderHash} stopped in ${session.state}: ${errorMessage(e)}`)
+            }
+        }
+
+        return results
+    }
+
+    /**
+     * Goes once over the open orders and fills, one after another, those the policy accepts
+     *
+     * @returns the fills made
+     */
+    public async poll(): Promise<FillResult[]> {
+        const results: FillResult[] = []
+
+        for (const order of await this.source.listOrders('open')) {
+            // Started before, resumed with the unfinished sessions
+            if (this.sessions.get(order.orderHash)) {
+                continue
+            }
+
+            const quote = await this.quote(order)
+
+            if (!quote || !(await this.config.policy(order, quote))) {
+                continue
+            }
+
+            try {
+                results.push(await this.fill(order, quote))
+            } catch (e) {
+                this.log(`Fill of ${order.orderHash} failed: ${errorMessage(e)}`)
+            }
+        }
+
+        return results
+    }
+
+    /**
+     * Prices a full fill of `order` at the current auction rate
+     *
+     * @returns undefined for orders the bot can not fill: other EVM chains, multiple fills or Aptos orders without a
+     * maker deposit to the bot
+     */
+    public async quote(order: RelayerOrder): Promise<FillQuote | undefined> {
+        const {submission} = order
+
+        if (order.hashLock.multipleFills) {
+            return undefined
+        }
+
+        const gasPrice = (await this.evm.wallet.provider.getFeeData()).gasPrice ?? 0n
+
+        if (submission.chain === 'evm') {
+            if (submission.srcChainId !== this.evm.chainId) {
+                return undefined
+            }
+
+            const crossChainOrder = toCrossChainOrder(submission)
+            const rateBump = calculateRateBump(
+                fromSdkAuctionDetails(crossChainOrder.escrowExtension.auctionDetails),
+                gasPrice
+            )
+            const {makingAmount, takingAmount} = crossChainOrder
+
+            return {
+                makingAmount,
+                takingAmount: calculateTakingAmount(makingAmount, takingAmount, makingAmount, rateBump),
+                rateBump,
+                gasPrice
+            }
+        }
+
+        const aptosOrder = toAptosCrossChainOrder(submission)
+
+        if (
+            aptosOrder.dstChainId !== BigInt(this.evm.chainId) ||
+            !findMakerDeposit(submission.deposits, this.aptos.address)
+        ) {
+            return undefined
+        }
+
+        const {makingAmount, takingAmount} = aptosOrder
+        const rateBump = calculateRateBump(aptosOrder.auctionConfig, gasPrice)
+
+        return {
+            makingAmount,
+            takingAmount: calculateTakingAmount(makingAmount, takingAmount, makingAmount, rateBump),
+            rateBump,
+            gasPrice
+        }
+    }
+
+    /**
+     * Claims `order`, deploys both escrows, reports them to the relayer and withdraws with the secret it releases.
+     * Waits for the withdrawal period of both escrows, which may take as long as their finality locks
+     */
+    public async fill(order: RelayerOrder, quote: FillQuote): Promise<FillResult> {
+        const evmFromBlock = await this.evm.wallet.provider.getBlockNumber()
+
+        return this.advance(SwapSession.start(this.sessions, order, quote, evmFromBlock))
+    }
+
+    private async advance(session: SwapSession): Promise<FillResult> {
+        const fromEvm = session.info.order.submission.chain === 'evm'
+
+        while (!session.isFinished) {
+            switch (session.state) {
+                case 'OrderSigned':
+                    await this.claim(session)
+                    await (fromEvm ? this.deployEvmSrc(session) : this.deployAptosSrc(session))
+                    break
+                case 'SrcDeployed':
+                    await (fromEvm ? this.deployAptosDst(session) : this.deployEvmDst(session))
+                    break
+                case 'DstDeployed':
+                    await this.revealSecret(session)
+                    break
+                case 'SecretRevealed':
+                    await (fromEvm ? this.withdrawAptos(session, 'dst') : this.withdrawEvm(session, 'dst'))
+                    break
+                case 'DstWithdrawn':
+                    await (fromEvm ? this.withdrawEvm(session, 'src') : this.withdrawAptos(session, 'src'))
+                    break
+            }
+        }
+
+        const {orderHash, srcEscrowAddress, dstEscrowAddress, secret} = session.info
+
+        if (session.state !== 'SrcWithdrawn' || !srcEscrowAddress || !dstEscrowAddress || !secret) {
+            throw new Error(`Swap of ${orderHash} ended ${session.state}`)
+        }
+
+        this.log(`Filled ${orderHash}`)
+
+        return {orderHash, srcEscrowAddress, dstEscrowAddress, secret}
+    }
+
+    // The session is saved first, a bot restarted before the claim returned finds the order claimed by itself
+    private async claim(session: SwapSession): Promise<void> {
+        const {requestSigner} = this.config
+        const {orderHash, takingAmount} = session.info
+        const resolver = await getResolverAddress(requestSigner)
+        const current = await this.source.getOrder(orderHash)
+
+        if (current?.status !== 'open' && current?.resolver?.toLowerCase() === resolver.toLowerCase()) {
+            return
+        }
+
+        try {
+            await this.source.claimOrder(orderHash, await signResolverRequest(requestSigner, 'claim', orderHash))
+        } catch (e) {
+            session.transition('Cancelled')
+            throw e
+        }
+
+        this.log(`Claimed ${orderHash}, taking amount ${takingAmount}`)
+    }
+
+    // EVM order: source escrow from the Resolver contract
+    private async deployEvmSrc(session: SwapSession): Promise<void> {
+        const {chainId, wallet, resolver, escrowFactory} = this.evm
+        const {order, makingAmount, takingAmount, evmFromBlock} = session.info
+        const submission = order.submission as EvmOrderSubmission
+
+        let event = await this.evmFactory.findSrcDeployEvent(order.orderHash, evmFromBlock)
+
+        if (!event) {
+            const crossChainOrder = toCrossChainOrder(submission)
+            const {blockHash} = await wallet.send(
+                resolver.deploySrc(
+                    chainId,
+                    crossChainOrder,
+                    submission.signature,
+                    Sdk.TakerTraits.default()
+                        .setExtension(crossChainOrder.extension)
+                        .setAmountMode(Sdk.AmountMode.maker)
+                        .setAmountThreshold(BigInt(takingAmount)),
+                    BigInt(makingAmount)
+                )
+            )
+            event = await this.evmFactory.getSrcDeployEvent(blockHash)
+        }
+
+        const [srcImmutables, complement] = event
+        const srcEscrowAddress = new Sdk.EscrowFactory(new Sdk.Address(escrowFactory)).getSrcEscrowAddress(
+            srcImmutables,
+            await this.evmFactory.getSourceImpl()
+        )
+        this.log(`EVM source escrow ${srcEscrowAddress} deployed`)
+
+        session.transition('SrcDeployed', {
+            srcEscrowAddress: srcEscrowAddress.toString(),
+            evmImmutables: srcImmutables.encode(),
+            evmComplement: complement.toJSON()
+        })
+    }
+
+    // EVM order: Aptos destination escrow paying the maker
+    private async deployAptosDst(session: SwapSession): Promise<void> {
+        const {order, evmImmutables, evmComplement} = session.info
+        const submission = order.submission as EvmOrderSubmission
+        const {aptosDst} = submission
+        const srcImmutables = Sdk.Immutables.decode(evmImmutables!)
+        const amount =
+            aptosDst.amount === undefined
+                ? this.config.tokens.toAptosDstAmount(
+                      toCrossChainOrder(submission).escrowExtension.dstChainId,
+                      toDstImmutablesComplement(evmComplement!),
+                      aptosDst.tokenType
+                  )
+                : BigInt(aptosDst.amount)
+
+        const event =
+            (await this.aptos.findEscrowCreated(order.orderHash, false)) ??
+            (await this.aptos.createDstEscrow(
+                {
+                    orderHash: srcImmutables.orderHash,
+                    hashlock: order.hashLock.aptos,
+                    maker: aptosDst.maker,
+                    taker: this.aptos.address,
+                    tokenType: aptosDst.tokenType,
+                    amount,
+                    safetyDeposit: BigInt(aptosDst.safetyDeposit ?? evmComplement!.safetyDeposit),
+                    timelocks: fromSdkTimeLocks(srcImmutables.timeLocks)
+                },
+                getTimeline(srcImmutables.timeLocks, 'src', 0n).cancellation
+            ))
+        this.log(`Aptos destination escrow ${event.escrowAddress} deployed`)
+
+        session.transition('DstDeployed', {dstEscrowAddress: event.escrowAddress})
+    }
+
+    // Aptos order: source escrow funded by the maker, in the deposit transaction it signed to the resolver account
+    private async deployAptosSrc(session: SwapSession): Promise<void> {
+        const {order} = session.info
+        const submission = order.submission as AptosOrderSubmission
+        const aptosOrder = toAptosCrossChainOrder(submission)
+
+        let event = await this.aptos.findEscrowCreated(order.orderHash, true)
+
+        if (!event) {
+            const deposit = findMakerDeposit(submission.deposits, this.aptos.address)
+
+            if (!deposit) {
+                throw new Error(`Maker of ${order.orderHash} signed no deposit to ${this.aptos.address}`)
+            }
+
+            const tx = await this.aptos.submitMakerDeposit(deposit)
+            event = this.aptos.events.getOne(tx, 'escrow_core::EscrowCreatedEvent')
+            this.log(`Maker deposit of ${aptosOrder.makingAmount} locked`)
+        }
+
+        this.log(`Aptos source escrow ${event.escrowAddress} deployed`)
+
+        session.transition('SrcDeployed', {srcEscrowAddress: event.escrowAddress})
+    }
+
+    // Aptos order: EVM destination escrow from the Resolver contract, paying the order receiver
+    private async deployEvmDst(session: SwapSession): Promise<void> {
+        const {wallet, resolver, escrowFactory} = this.evm
+        const {order, srcEscrowAddress, takingAmount, evmFromBlock} = session.info
+        const aptosOrder = toAptosCrossChainOrder(order.submission as AptosOrderSubmission)
+        const src = await this.aptos.getEscrowImmutables(srcEscrowAddress!)
+
+        // Deployed against the source timelocks, so the destination cancellation is checked against the source one
+        const immutables = Sdk.Immutables.new({
+            orderHash: order.orderHash,
+            hashLock: Sdk.HashLock.fromString(order.hashLock.evm),
+            maker: Sdk.Address.fromBigInt(BigInt(aptosOrder.receiver)),
+            taker: new Sdk.Address(resolver.dstAddress),
+            token: new Sdk.Address(aptosOrder.takerAsset),
+            amount: max(BigInt(takingAmount), aptosOrder.takingAmount),
+            safetyDeposit: aptosOrder.escrowExtension.dstSafetyDeposit,
+            timeLocks: toSdkTimeLocks(src.timelocks)
+        })
+
+        const deployed = await this.evmFactory.findDstDeployEvent(immutables.hashLock, immutables.taker, evmFromBlock)
+        const {blockTimestamp} = deployed ?? (await wallet.send(resolver.deployDst(immutables)))
+        const dstImmutables = immutables.withDeployedAt(blockTimestamp)
+        const dstEscrowAddress = new Sdk.EscrowFactory(new Sdk.Address(escrowFactory)).getEscrowAddress(
+            dstImmutables.hash(),
+            await this.evmFactory.getDestinationImpl()
+        )
+        this.log(`EVM destination escrow ${dstEscrowAddress} deployed`)
+
+        session.transition('DstDeployed', {
+            dstEscrowAddress: dstEscrowAddress.toString(),
+            evmImmutables: dstImmutables.encode()
+        })
+    }
+
+    // Reports the escrows and takes the secret, checked against the order hashlocks before it is used
+    private async revealSecret(session: SwapSession): Promise<void> {
+        const {requestSigner} = this.config
+        const {order, srcEscrowAddress, dstEscrowAddress, evmImmutables, evmComplement} = session.info
+        const report: EvmEscrowReport | AptosEscrowReport =
+            order.submission.chain === 'evm'
+                ? {srcImmutables: evmImmutables!, complement: evmComplement!, dstEscrowAddress: dstEscrowAddress!}
+                : {
+                      srcEscrowAddress: srcEscrowAddress!,
+                      dstImmutables: evmImmutables!,
+                      dstEscrowAddress: dstEscrowAddress!
+                  }
+
+        const {mismatches} = await this.source.reportEscrows(
+            order.orderHash,
+            await signResolverRequest(requestSigner, 'escrows', order.orderHash, report),
+            report
+        )
+
+        if (mismatches.length) {
+            throw new Error(`Relayer rejected the escrows: ${JSON.stringify(mismatches)}`)
+        }
+
+        const secret = await this.source.releaseSecret(
+            order.orderHash,
+            await signResolverRequest(requestSigner, 'secret', order.orderHash, 0),
+            0
+        )
+        const hashLock = CrossChainHashLock.forSingleFill(secret)
+
+        if (hashLock.evm.toString() !== order.hashLock.evm || hashLock.aptos !== order.hashLock.aptos) {
+            throw new Error(`Relayer released a secret not matching the hashlocks of ${order.orderHash}`)
+        }
+
+        session.transition('SecretRevealed', {secret})
+    }
+
+    // Withdraws to the maker from a destination escrow, to the resolver from a source one
+    private async withdrawAptos(session: SwapSession, side: EscrowSide): Promise<void> {
+        const {secret} = session.info
+        const escrowAddress = (side === 'src' ? session.info.srcEscrowAddress : session.info.dstEscrowAddress)!
+        const escrow = await this.aptos.getEscrow(escrowAddress)
+
+        if (!escrow.isCompleted) {
+            const {immutables} = escrow
+            await this.waitUntil(getTimeline(immutables.timelocks, side, 0n).withdrawal, () =>
+                this.aptos.getLedgerTime()
+            )
+            await this.aptos.withdraw(escrowAddress, secret!, immutables, side === 'dst' ? immutables.maker : undefined)
+        }
+
+        session.transition(side === 'dst' ? 'DstWithdrawn' : 'SrcWithdrawn')
+    }
+
+    private async withdrawEvm(session: SwapSession, side: EscrowSide): Promise<void> {
+        const {wallet, resolver} = this.evm
+        const {secret} = session.info
+        const escrowAddress = new Sdk.Address(
+            (side === 'src' ? session.info.srcEscrowAddress : session.info.dstEscrowAddress)!
+        )
+        const immutables = Sdk.Immutables.decode(session.info.evmImmutables!)
+        const token = new Contract(immutables.token.toString(), ERC20.abi, wallet.provider)
+
+        // Withdrawn already when the escrow no longer holds the tokens
+        if ((await token.balanceOf(escrowAddress.toString())) >= immutables.amount) {
+            await this.waitUntil(getTimeline(immutables.timeLocks, side, 0n).withdrawal, () => this.getEvmTime())
+            await wallet.send(resolver.withdraw(side, escrowAddress, secret!, immutables))
+        }
+
+        session.transition(side === 'dst' ? 'DstWithdrawn' : 'SrcWithdrawn')
+    }
+
+    // Escrows check the time of the block including the call, so the wait is on the chain clock, not the local one
+    private async waitUntil(timestamp: bigint, chainTime: () => Promise<bigint>): Promise<void> {
+        while ((await chainTime()) <= timestamp) {
+            await new Promise((resolve) => setTimeout(resolve, this.pollInterval))
+        }
+    }
+
+    private async getEvmTime(): Promise<bigint> {
+        const block = await this.evm.wallet.provider.getBlock('latest')
+
+        return BigInt(block!.timestamp)
+    }
+
+    private log(message: string): void {
+        this.config.log?.(message)
+    }
+}
+
+/**
+ * Fills orders whose making amount, valued in taker asset units, covers the taking amount, the fill costs and
+ * `minProfit`
+ *
+ * @param price taker asset units paid for 1e18 maker asset units, undefined for pairs the bot does not trade
+ * @param cost gas and fees of the fill, in taker asset units
+ */
+export function profitPolicy(
+    price: (order: RelayerOrder) => bigint | undefined,
+    cost: (order: RelayerOrder, quote: FillQuote) => bigint,
+    minProfit = 0n
+): FillPolicy {
+    return (order, quote) => {
+        const makerAssetPrice = price(order)
+
+        if (makerAssetPrice === undefined) {
+            return false
+        }
+
+        const value = (quote.makingAmount * makerAssetPrice) / PRICE_BASE
+
+        return value >= quote.takingAmount + cost(order, quote) + minProfit
+    }
+}
+
+function max(a: bigint, b: bigint): bigint {
+    return a > b ? a : b
+}
+
+function errorMessage(e: unknown): string {
+    return e instanceof Error ? e.message : String(e)
+}
@@ -1,5 +1,6 @@
 import {Interface, Signature, TransactionRequest} from 'ethers'
 import Sdk from '@1inch/cross-chain-sdk'
+import {decodeImmutables} from './escrow-factory'
 import Contract from '../dist/contracts/Resolver.sol/Resolver.json'
 
 export class Resolver {
@@ -53,6 +54,16 @@ export class Resolver {
         }
     }
 
+    /**
+     * Immutables of a deployDst transaction, with the `deployedAt` it was sent with, which the factory replaces
+     * with the block time
+     */
+    public parseDeployDst(data: string): Sdk.Immutables {
+        const [immutables] = this.iface.decodeFunctionData('deployDst', data)
+
+        return decodeImmutables(immutables)
+    }
+
     public withdraw(
         side: 'src' | 'dst',
         escrow: Sdk.Address,
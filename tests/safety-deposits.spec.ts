@@ -0,0 +1,38 @@
+import {expect} from '@jest/globals'
+import {parseEther} from 'ethers'
+import {SafetyDeposits, weiToOctas} from './safety-deposits'
+
+const UINT_64_MAX = (1n << 64n) - 1n
+
+describe('SafetyDeposits', () => {
+    const policy = {octasPerEther: 500n * 10n ** 8n, minOctas: 1000n}
+
+    it('should pack and unpack as escrow_factory does', () => {
+        const deposits = SafetyDeposits.new(UINT_64_MAX, 1n)
+
+        expect(deposits.pack()).toBe((UINT_64_MAX << 64n) + 1n)
+        expect(SafetyDeposits.unpack(deposits.pack())).toEqual(deposits)
+        expect(SafetyDeposits.unpack(0n)).toEqual(SafetyDeposits.new(0n, 0n))
+
+        expect(() => SafetyDeposits.new(UINT_64_MAX + 1n, 0n)).toThrow('Source safety deposit')
+        expect(() => SafetyDeposits.new(0n, -1n)).toThrow('Destination safety deposit')
+        expect(() => SafetyDeposits.unpack(1n << 128n)).toThrow('do not fit u128')
+    })
+
+    it('should price the Aptos deposit in octas', () => {
+        const sdk = {srcSafetyDeposit: parseEther('0.001'), dstSafetyDeposit: parseEther('0.002')}
+
+        expect(weiToOctas(parseEther('0.001'), policy)).toBe(50_000_000n)
+        expect(weiToOctas(1n, {octasPerEther: 500n * 10n ** 8n})).toBe(1n)
+        expect(weiToOctas(1n, policy)).toBe(1000n)
+        expect(() => weiToOctas(1n, {octasPerEther: 0n})).toThrow('Invalid ETH/APT price')
+
+        expect(SafetyDeposits.fromSdk(sdk, 'src', policy)).toEqual(SafetyDeposits.new(50_000_000n, parseEther('0.002')))
+        expect(SafetyDeposits.fromSdk(sdk, 'dst', policy)).toEqual(
+            SafetyDeposits.new(parseEther('0.001'), 100_000_000n)
+        )
+        expect(() => SafetyDeposits.fromSdk({...sdk, dstSafetyDeposit: parseEther('100')}, 'src', policy)).toThrow(
+            'does not fit u64'
+        )
+    })
+})
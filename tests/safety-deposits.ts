@@ -0,0 +1,95 @@
+import {EscrowSide} from './timelock-stages'
+
+const UINT_64_MAX = (1n << 64n) - 1n
+
+const UINT_128_MAX = (1n << 128n) - 1n
+
+const WEI_PER_ETHER = 10n ** 18n
+
+/**
+ * Prices the EVM safety deposits of an order in APT, for the escrow of the swap living on Aptos
+ */
+export type SafetyDepositPricePolicy = {
+    /**
+     * Octas worth 1 ether, the ETH/APT price scaled by 10^8
+     */
+    octasPerEther: bigint
+    /**
+     * Smallest deposit in octas, so the escrow still pays for the public withdrawal or cancellation of a tiny order
+     */
+    minOctas?: bigint
+}
+
+/**
+ * Safety deposits of an Aptos order, packed as escrow_factory::SrcEscrowArgs.deposits:
+ * `src_safety_deposit << 64 | dst_safety_deposit`, each a u64 in the units of the chain of its escrow
+ */
+export class SafetyDeposits {
+    private constructor(
+        public readonly src: bigint,
+        public readonly dst: bigint
+    ) {}
+
+    /**
+     * @throws if a deposit does not fit u64
+     */
+    static new(src: bigint, dst: bigint): SafetyDeposits {
+        assertU64(src, 'Source safety deposit')
+        assertU64(dst, 'Destination safety deposit')
+
+        return new SafetyDeposits(src, dst)
+    }
+
+    /**
+     * @throws if `deposits` does not fit u128
+     */
+    static unpack(deposits: bigint): SafetyDeposits {
+        if (deposits < 0n || deposits > UINT_128_MAX) {
+            throw new Error(`Packed safety deposits ${deposits} do not fit u128`)
+        }
+
+        return new SafetyDeposits(deposits >> 64n, deposits & UINT_64_MAX)
+    }
+
+    /**
+     * Deposits of an order between EVM and Aptos from the wei amounts of the Sdk escrow params, the deposit of the
+     * `aptosSide` escrow priced in octas with `policy` and the other one kept in wei
+     *
+     * @throws if a deposit does not fit u64
+     */
+    static fromSdk(
+        {srcSafetyDeposit, dstSafetyDeposit}: {srcSafetyDeposit: bigint; dstSafetyDeposit: bigint},
+        aptosSide: EscrowSide,
+        policy: SafetyDepositPricePolicy
+    ): SafetyDeposits {
+        return aptosSide === 'src'
+            ? SafetyDeposits.new(weiToOctas(srcSafetyDeposit, policy), dstSafetyDeposit)
+            : SafetyDeposits.new(srcSafetyDeposit, weiToOctas(dstSafetyDeposit, policy))
+    }
+
+    public pack(): bigint {
+        return (this.src << 64n) | this.dst
+    }
+}
+
+/**
+ * Octas worth `wei` under `policy`, rounded up so a resolver never stakes less than on EVM
+ *
+ * @throws if the price is not positive
+ */
+export function weiToOctas(wei: bigint, policy: SafetyDepositPricePolicy): bigint {
+    if (policy.octasPerEther <= 0n) {
+        throw new Error(`Invalid ETH/APT price ${policy.octasPerEther}`)
+    }
+
+    const octas = (wei * policy.octasPerEther + WEI_PER_ETHER - 1n) / WEI_PER_ETHER
+    const minOctas = policy.minOctas ?? 0n
+
+    return octas > minOctas ? octas : minOctas
+}
+
+function assertU64(value: bigint, name: string): void {
+    if (value < 0n || value > UINT_64_MAX) {
+        throw new Error(`${name} ${value} does not fit u64`)
+    }
+}
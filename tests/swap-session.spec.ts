@@ -0,0 +1,108 @@
+import {expect} from '@jest/globals'
+import {mkdtempSync} from 'node:fs'
+import {tmpdir} from 'node:os'
+import {join} from 'node:path'
+import {AptosCrossChainOrder} from './aptos-cross-chain-order'
+import {RelayerOrder} from './relayer'
+import {SwapSession, SwapSessionStore} from './swap-session'
+
+function newOrder(orderHash: string): RelayerOrder {
+    return {
+        orderHash,
+        submission: {
+            chain: 'aptos',
+            srcChainId: 2,
+            verifyingPackage: '0x1',
+            order: AptosCrossChainOrder.new(
+                '0x1',
+                {
+                    maker: '0x1',
+                    receiver: '0x2',
+                    makerAsset: '0x1::aptos_coin::AptosCoin',
+                    takerAsset: '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48',
+                    makingAmount: 100n,
+                    takingAmount: 99n
+                },
+                {
+                    hashLock: '0x02',
+                    dstChainId: 1n,
+                    srcSafetyDeposit: 0n,
+                    dstSafetyDeposit: 0n,
+                    timeLocks: {
+                        srcWithdrawalDelay: 10,
+                        srcPublicWithdrawalDelay: 120,
+                        srcCancellationDelay: 121,
+                        srcPublicCancellationDelay: 122,
+                        dstWithdrawalDelay: 10,
+                        dstPublicWithdrawalDelay: 100,
+                        dstCancellationDelay: 101
+                    }
+                },
+                {
+                    auction: {
+                        gasBumpEstimate: 0,
+                        gasPriceEstimate: 0,
+                        startTime: 0,
+                        duration: 120,
+                        initialRateBump: 0,
+                        auctionPoints: []
+                    },
+                    whitelist: []
+                }
+            ).toJSON(),
+            signature: {scheme: 'ed25519', publicKey: '0x', signature: '0x'},
+            deposits: {}
+        },
+        hashLock: {evm: '0x01', aptos: '0x02', multipleFills: false},
+        status: 'claimed',
+        mismatches: [],
+        verifiedSecrets: [],
+        releasedSecrets: []
+    }
+}
+
+describe('SwapSession', () => {
+    const amounts = {makingAmount: 100n, takingAmount: 99n}
+
+    it('should persist every transition and resume unfinished swaps', () => {
+        const path = join(mkdtempSync(join(tmpdir(), 'swap-session-')), 'sessions.json')
+        const store = new SwapSessionStore(path)
+
+        const session = SwapSession.start(store, newOrder('0xaa'), amounts, 7)
+        session.transition('SrcDeployed', {srcEscrowAddress: '0x10'})
+        SwapSession.start(store, newOrder('0xbb'), amounts, 7).transition('Cancelled')
+
+        const [resumed, ...others] = SwapSession.unfinished(new SwapSessionStore(path))
+        expect(others).toHaveLength(0)
+        expect(resumed.orderHash).toBe('0xaa')
+        expect(resumed.state).toBe('SrcDeployed')
+        expect(resumed.info).toMatchObject({srcEscrowAddress: '0x10', makingAmount: '100', evmFromBlock: 7})
+        expect(resumed.info.history.map((h) => h.state)).toEqual(['OrderSigned', 'SrcDeployed'])
+
+        resumed.transition('DstDeployed', {dstEscrowAddress: '0x20'})
+        resumed.transition('SecretRevealed', {secret: '0x30'})
+        resumed.transition('DstWithdrawn')
+        resumed.transition('SrcWithdrawn')
+
+        expect(resumed.isFinished).toBe(true)
+        expect(SwapSession.unfinished(new SwapSessionStore(path))).toHaveLength(0)
+        expect(new SwapSessionStore(path).get('0xAA')?.state).toBe('SrcWithdrawn')
+    })
+
+    it('should reject transitions the state machine does not allow', () => {
+        const store = new SwapSessionStore()
+        const session = SwapSession.start(store, newOrder('0xaa'), amounts, 0)
+
+        expect(() => session.transition('SecretRevealed')).toThrow('can not move from OrderSigned to SecretRevealed')
+        expect(() => SwapSession.start(store, newOrder('0xaa'), amounts, 0)).toThrow('already started')
+
+        session.transition('SrcDeployed')
+        session.transition('DstDeployed')
+        session.transition('SecretRevealed')
+        session.transition('DstWithdrawn')
+
+        // The maker got paid, the source escrow can only be withdrawn
+        expect(() => session.transition('Cancelled')).toThrow('can not move from DstWithdrawn to Cancelled')
+        expect(session.state).toBe('DstWithdrawn')
+    })
+})
@@ -0,0 +1,188 @@
+import Sdk from '@1inch/cross-chain-sdk'
+import {existsSync, readFileSync, renameSync, writeFileSync} from 'node:fs'
+import {RelayerOrder} from './relayer'
+
+// Swap sessions of a resolver, persisted on every transition so a restarted resolver finishes the swaps it started.
+// Like the relayer state they are plain JSON, amounts are decimal strings
+
+export type SwapState =
+    'OrderSigned' | 'SrcDeployed' | 'DstDeployed' | 'SecretRevealed' | 'DstWithdrawn' | 'SrcWithdrawn' | 'Cancelled'
+
+/**
+ * States each state may move to. A swap ends withdrawn on both chains or cancelled, which is no longer possible once
+ * the destination escrow paid the maker
+ */
+export const SWAP_TRANSITIONS: Record<SwapState, SwapState[]> = {
+    OrderSigned: ['SrcDeployed', 'Cancelled'],
+    SrcDeployed: ['DstDeployed', 'Cancelled'],
+    DstDeployed: ['SecretRevealed', 'Cancelled'],
+    SecretRevealed: ['DstWithdrawn', 'Cancelled'],
+    DstWithdrawn: ['SrcWithdrawn'],
+    SrcWithdrawn: [],
+    Cancelled: []
+}
+
+export type SwapSessionData = {
+    orderHash: string
+    /**
+     * Order as claimed from the relayer, with its submission and hashlocks
+     */
+    order: RelayerOrder
+    state: SwapState
+    /**
+     * Full fill amounts the resolver accepted
+     */
+    makingAmount: string
+    takingAmount: string
+    /**
+     * EVM block before the first transaction of the swap, escrows deployed without being recorded are searched from it
+     */
+    evmFromBlock: number
+    srcEscrowAddress?: string
+    dstEscrowAddress?: string
+    /**
+     * Sdk.Immutables.encode() of the EVM escrow, with its deployment time. Aptos escrows are read back from chain
+     */
+    evmImmutables?: string
+    /**
+     * Complement of the SrcEscrowCreated event of an EVM order
+     */
+    evmComplement?: ReturnType<Sdk.DstImmutablesComplement['toJSON']>
+    secret?: string
+    /**
+     * States entered, with their unix time in milliseconds
+     */
+    history: {state: SwapState; at: number}[]
+}
+
+/**
+ * Keeps the swap sessions in memory, and in a JSON file rewritten on every change when `path` is set
+ */
+export class SwapSessionStore {
+    private readonly sessions: SwapSessionData[]
+
+    constructor(private readonly path?: string) {
+        this.sessions = path && existsSync(path) ? JSON.parse(readFileSync(path, 'utf8')) : []
+    }
+
+    public get(orderHash: string): SwapSessionData | undefined {
+        return this.sessions.find((s) => s.orderHash.toLowerCase() === orderHash.toLowerCase())
+    }
+
+    public list(): SwapSessionData[] {
+        return [...this.sessions]
+    }
+
+    public put(session: SwapSessionData): void {
+        const idx = this.sessions.findIndex((s) => s.orderHash.toLowerCase() === session.orderHash.toLowerCase())
+
+        if (idx === -1) {
+            this.sessions.push(session)
+        } else {
+            this.sessions[idx] = session
+        }
+
+        if (!this.path) {
+            return
+        }
+
+        // Write aside and rename so a crash never leaves half a file
+        writeFileSync(`${this.path}.tmp`, JSON.stringify(this.sessions, null, 2))
+        renameSync(`${this.path}.tmp`, this.path)
+    }
+}
+
+/**
+ * One swap of a resolver, from the claimed order to the withdrawals on both chains, moved along SWAP_TRANSITIONS.
+ * Every transition is saved before it returns, so what it records is on chain
+ */
+export class SwapSession {
+    private constructor(
+        private readonly store: SwapSessionStore,
+        private data: SwapSessionData
+    ) {}
+
+    get orderHash(): string {
+        return this.data.orderHash
+    }
+
+    get state(): SwapState {
+        return this.current.state
+    }
+
+    get isFinished(): boolean {
+        return SWAP_TRANSITIONS[this.state].length === 0
+    }
+
+    /**
+     * Snapshot of the session, as persisted
+     */
+    get info(): Readonly<SwapSessionData> {
+        return this.current
+    }
+
+    // Another holder of the store, e.g. the Watchtower, may have moved the session since it was loaded
+    private get current(): SwapSessionData {
+        return this.store.get(this.data.orderHash) ?? this.data
+    }
+
+    /**
+     * Records a new session in the OrderSigned state
+     *
+     * @throws if the store already has a session for the order
+     */
+    static start(
+        store: SwapSessionStore,
+        order: RelayerOrder,
+        amounts: {makingAmount: bigint; takingAmount: bigint},
+        evmFromBlock: number
+    ): SwapSession {
+        if (store.get(order.orderHash)) {
+            throw new Error(`Swap of order ${order.orderHash} already started`)
+        }
+
+        const session = new SwapSession(store, {
+            orderHash: order.orderHash,
+            order,
+            state: 'OrderSigned',
+            makingAmount: amounts.makingAmount.toString(),
+            takingAmount: amounts.takingAmount.toString(),
+            evmFromBlock,
+            history: [{state: 'OrderSigned', at: Date.now()}]
+        })
+        store.put(session.data)
+
+        return session
+    }
+
+    /**
+     * Sessions of the store neither withdrawn nor cancelled
+     */
+    static unfinished(store: SwapSessionStore): SwapSession[] {
+        return store
+            .list()
+            .map((data) => new SwapSession(store, data))
+            .filter((s) => !s.isFinished)
+    }
+
+    /**
+     * Moves to `state`, merging `update` into the session, and saves it
+     *
+     * @throws if SWAP_TRANSITIONS does not allow the move
+     */
+    public transition(state: SwapState, update: Partial<Omit<SwapSessionData, 'state' | 'history'>> = {}): void {
+        this.data = this.current
+
+        if (!SWAP_TRANSITIONS[this.data.state].includes(state)) {
+            throw new Error(`Swap of order ${this.orderHash} can not move from ${this.data.state} to ${state}`)
+        }
+
+        this.data = {
+            ...this.data,
+            ...update,
+            state,
+            history: [...this.data.history, {state, at: Date.now()}]
+        }
+        this.store.put(this.data)
+    }
+}
@@ -0,0 +1,106 @@
+import {expect} from '@jest/globals'
+import Sdk from '@1inch/cross-chain-sdk'
+import {EscrowImmutables} from './aptos-types'
+import {EscrowAction, EscrowSide, getAllowedActions, getStageTime, getTimeline} from './timelock-stages'
+
+const TAKER = '0x' + '12'.repeat(32)
+const OTHER = '0x' + '34'.repeat(32)
+const RESCUE_DELAY = 1000n
+
+const immutables: EscrowImmutables = {
+    orderHash: '0x' + '01'.repeat(32),
+    hashlock: '0x' + '02'.repeat(32),
+    maker: OTHER,
+    taker: TAKER,
+    tokenType: '0x1::aptos_coin::AptosCoin',
+    amount: 100n,
+    safetyDeposit: 5n,
+    timelocks: {
+        deployedAt: 1000n,
+        srcWithdrawalDelay: 10,
+        srcPublicWithdrawalDelay: 120,
+        srcCancellationDelay: 121,
+        srcPublicCancellationDelay: 122,
+        dstWithdrawalDelay: 10,
+        dstPublicWithdrawalDelay: 100,
+        dstCancellationDelay: 101
+    }
+}
+
+// [side, now, actions of the taker, actions of anyone else], one second on each side of every stage boundary
+const schedule: [EscrowSide, bigint, EscrowAction[], EscrowAction[]][] = [
+    ['src', 1009n, [], []],
+    ['src', 1010n, ['withdraw'], []],
+    ['src', 1119n, ['withdraw'], []],
+    ['src', 1120n, ['withdraw'], ['publicWithdraw']],
+    ['src', 1121n, ['cancel'], []],
+    ['src', 1122n, ['cancel'], ['publicCancel']],
+    ['src', 1999n, ['cancel'], ['publicCancel']],
+    ['src', 2000n, ['cancel', 'rescue'], ['publicCancel']],
+    ['dst', 1009n, [], []],
+    ['dst', 1010n, ['withdraw'], []],
+    ['dst', 1099n, ['withdraw'], []],
+    ['dst', 1100n, ['withdraw'], ['publicWithdraw']],
+    ['dst', 1101n, ['cancel'], []],
+    ['dst', 1999n, ['cancel'], []],
+    ['dst', 2000n, ['cancel', 'rescue'], []]
+]
+
+describe('Timelock stages', () => {
+    it.each(schedule)('should allow on %s at %s the taker %j and others %j', (side, now, taker, others) => {
+        expect(getAllowedActions(immutables, side, TAKER, RESCUE_DELAY, now)).toEqual(taker)
+        expect(getAllowedActions(immutables, side, OTHER, RESCUE_DELAY, now)).toEqual(others)
+    })
+
+    it('should read the taker and timelocks of EVM immutables', () => {
+        const evmTaker = '0x00000000000000000000000000000000000000aa'
+        const evm = Sdk.Immutables.new({
+            orderHash: immutables.orderHash,
+            hashLock: Sdk.HashLock.fromString(immutables.hashlock),
+            maker: new Sdk.Address('0x00000000000000000000000000000000000000bb'),
+            taker: new Sdk.Address(evmTaker),
+            token: new Sdk.Address('0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48'),
+            amount: 100n,
+            safetyDeposit: 5n,
+            timeLocks: Sdk.TimeLocks.new({
+                srcWithdrawal: 10n,
+                srcPublicWithdrawal: 120n,
+                srcCancellation: 121n,
+                srcPublicCancellation: 122n,
+                dstWithdrawal: 10n,
+                dstPublicWithdrawal: 100n,
+                dstCancellation: 101n
+            }).setDeployedAt(1000n)
+        })
+
+        // Addresses compare by value, whatever their case or padding
+        expect(getAllowedActions(evm, 'src', evmTaker.toUpperCase().replace('0X', '0x'), 0n, 1121n)).toEqual([
+            'cancel',
+            'rescue'
+        ])
+        expect(getAllowedActions(evm, 'src', '0x' + '00'.repeat(12) + evmTaker.slice(2), 0n, 1010n)).toEqual([
+            'withdraw',
+            'rescue'
+        ])
+        expect(getAllowedActions(evm, 'src', OTHER, 0n, 1122n)).toEqual(['publicCancel'])
+    })
+
+    it('should give the absolute time of every stage', () => {
+        expect(getTimeline(immutables.timelocks, 'src', RESCUE_DELAY)).toEqual({
+            deployedAt: 1000n,
+            withdrawal: 1010n,
+            publicWithdrawal: 1120n,
+            cancellation: 1121n,
+            publicCancellation: 1122n,
+            rescue: 2000n
+        })
+        expect(getTimeline(immutables.timelocks, 'dst', RESCUE_DELAY)).toEqual({
+            deployedAt: 1000n,
+            withdrawal: 1010n,
+            publicWithdrawal: 1100n,
+            cancellation: 1101n,
+            rescue: 2000n
+        })
+        expect(() => getStageTime(immutables.timelocks, 7)).toThrow('Invalid timelock stage 7')
+    })
+})
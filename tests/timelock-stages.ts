@@ -0,0 +1,183 @@
+import Sdk from '@1inch/cross-chain-sdk'
+import {fromSdkTimeLocks} from './aptos-timelocks'
+import {EscrowImmutables, Timelocks} from './aptos-types'
+
+// Port of the stage helpers of timelock.move. Where the Move functions read timestamp::now_seconds these
+// take a `now` defaulting to the local clock, pass the chain timestamp instead when the two drift apart
+
+export const STAGE_SRC_WITHDRAWAL = 0
+
+export const STAGE_SRC_PUBLIC_WITHDRAWAL = 1
+
+export const STAGE_SRC_CANCELLATION = 2
+
+export const STAGE_SRC_PUBLIC_CANCELLATION = 3
+
+export const STAGE_DST_WITHDRAWAL = 4
+
+export const STAGE_DST_PUBLIC_WITHDRAWAL = 5
+
+export const STAGE_DST_CANCELLATION = 6
+
+export type EscrowSide = 'src' | 'dst'
+
+export type EscrowAction = 'withdraw' | 'publicWithdraw' | 'cancel' | 'publicCancel' | 'rescue'
+
+/**
+ * Absolute timestamps, in seconds, at which each action of an escrow opens
+ */
+export type EscrowTimeline = {
+    deployedAt: bigint
+    withdrawal: bigint
+    publicWithdrawal: bigint
+    cancellation: bigint
+    /**
+     * Source escrows only
+     */
+    publicCancellation?: bigint
+    rescue: bigint
+}
+
+type ActionWindow = {
+    action: EscrowAction
+    /**
+     * Taker only action, the others are open to any access token holder
+     */
+    private: boolean
+    start: number
+    end?: number
+}
+
+// Windows enforced by EscrowSrc/EscrowDst, rescue is handled separately as it is not a stage
+const windows: Record<EscrowSide, ActionWindow[]> = {
+    src: [
+        {action: 'withdraw', private: true, start: STAGE_SRC_WITHDRAWAL, end: STAGE_SRC_CANCELLATION},
+        {action: 'publicWithdraw', private: false, start: STAGE_SRC_PUBLIC_WITHDRAWAL, end: STAGE_SRC_CANCELLATION},
+        {action: 'cancel', private: true, start: STAGE_SRC_CANCELLATION},
+        {action: 'publicCancel', private: false, start: STAGE_SRC_PUBLIC_CANCELLATION}
+    ],
+    dst: [
+        {action: 'withdraw', private: true, start: STAGE_DST_WITHDRAWAL, end: STAGE_DST_CANCELLATION},
+        {action: 'publicWithdraw', private: false, start: STAGE_DST_PUBLIC_WITHDRAWAL, end: STAGE_DST_CANCELLATION},
+        {action: 'cancel', private: true, start: STAGE_DST_CANCELLATION}
+    ]
+}
+
+/**
+ * timelock::get_stage_time
+ */
+export function getStageTime(timelocks: Timelocks, stage: number): bigint {
+    const delays = [
+        timelocks.srcWithdrawalDelay,
+        timelocks.srcPublicWithdrawalDelay,
+        timelocks.srcCancellationDelay,
+        timelocks.srcPublicCancellationDelay,
+        timelocks.dstWithdrawalDelay,
+        timelocks.dstPublicWithdrawalDelay,
+        timelocks.dstCancellationDelay
+    ]
+
+    if (!Number.isInteger(stage) || stage < 0 || stage >= delays.length) {
+        throw new Error(`Invalid timelock stage ${stage}`)
+    }
+
+    return timelocks.deployedAt + BigInt(delays[stage])
+}
+
+export function isAfterStage(timelocks: Timelocks, stage: number, now = nowSeconds()): boolean {
+    return now >= getStageTime(timelocks, stage)
+}
+
+export function isBeforeStage(timelocks: Timelocks, stage: number, now = nowSeconds()): boolean {
+    return now < getStageTime(timelocks, stage)
+}
+
+/**
+ * timelock::is_in_window: at or after `startStage` and strictly before `endStage`
+ */
+export function isInWindow(timelocks: Timelocks, startStage: number, endStage: number, now = nowSeconds()): boolean {
+    return isAfterStage(timelocks, startStage, now) && isBeforeStage(timelocks, endStage, now)
+}
+
+/**
+ * timelock::get_rescue_start_time
+ */
+export function getRescueStartTime(timelocks: Timelocks, rescueDelay: bigint): bigint {
+    return timelocks.deployedAt + rescueDelay
+}
+
+export function isRescueTime(timelocks: Timelocks, rescueDelay: bigint, now = nowSeconds()): boolean {
+    return now >= getRescueStartTime(timelocks, rescueDelay)
+}
+
+/**
+ * @param rescueDelay src_rescue_delay/dst_rescue_delay of the Aptos factory or the EVM factory RESCUE_DELAY
+ */
+export function getTimeline(
+    timelocks: Timelocks | Sdk.TimeLocks,
+    side: EscrowSide,
+    rescueDelay: bigint
+): EscrowTimeline {
+    const t = toTimelocks(timelocks)
+
+    if (side === 'src') {
+        return {
+            deployedAt: t.deployedAt,
+            withdrawal: getStageTime(t, STAGE_SRC_WITHDRAWAL),
+            publicWithdrawal: getStageTime(t, STAGE_SRC_PUBLIC_WITHDRAWAL),
+            cancellation: getStageTime(t, STAGE_SRC_CANCELLATION),
+            publicCancellation: getStageTime(t, STAGE_SRC_PUBLIC_CANCELLATION),
+            rescue: getRescueStartTime(t, rescueDelay)
+        }
+    }
+
+    return {
+        deployedAt: t.deployedAt,
+        withdrawal: getStageTime(t, STAGE_DST_WITHDRAWAL),
+        publicWithdrawal: getStageTime(t, STAGE_DST_PUBLIC_WITHDRAWAL),
+        cancellation: getStageTime(t, STAGE_DST_CANCELLATION),
+        rescue: getRescueStartTime(t, rescueDelay)
+    }
+}
+
+/**
+ * Actions `caller` may take on the escrow at `now`. The taker gets the private withdraw/cancel and rescue,
+ * any other caller the public withdraw/cancel, which need an access token on EVM.
+ *
+ * escrow_core only checks the caller on Aptos, an action outside its window will not abort there
+ * but is still outside the protocol schedule
+ */
+export function getAllowedActions(
+    immutables: EscrowImmutables | Sdk.Immutables,
+    side: EscrowSide,
+    caller: string,
+    rescueDelay: bigint,
+    now = nowSeconds()
+): EscrowAction[] {
+    const [timelocks, taker] =
+        immutables instanceof Sdk.Immutables
+            ? [fromSdkTimeLocks(immutables.timeLocks), immutables.taker.toString()]
+            : [immutables.timelocks, immutables.taker]
+    const isTaker = BigInt(caller) === BigInt(taker)
+
+    const actions = windows[side]
+        .filter((w) => w.private === isTaker)
+        .filter((w) =>
+            w.end === undefined ? isAfterStage(timelocks, w.start, now) : isInWindow(timelocks, w.start, w.end, now)
+        )
+        .map((w) => w.action)
+
+    if (isTaker && isRescueTime(timelocks, rescueDelay, now)) {
+        actions.push('rescue')
+    }
+
+    return actions
+}
+
+function toTimelocks(timelocks: Timelocks | Sdk.TimeLocks): Timelocks {
+    return timelocks instanceof Sdk.TimeLocks ? fromSdkTimeLocks(timelocks) : timelocks
+}
+
+function nowSeconds(): bigint {
+    return BigInt(Math.floor(Date.now() / 1000))
+}
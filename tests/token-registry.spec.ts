@@ -0,0 +1,42 @@
+import {expect} from '@jest/globals'
+import Sdk from '@1inch/cross-chain-sdk'
+import {formatAmount, scaleAmount, TokenRegistry} from './token-registry'
+
+const USDC = '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48'
+const COIN = '0xdef391b1c8951bf801f67a005f9eba70a5aae6d02eba6bb4889a88288ea806a2::my_token::SimpleToken'
+
+describe('TokenRegistry', () => {
+    const tokens = TokenRegistry.fromConfig({
+        ethereum: {chainId: 1, tokens: {USDC: {address: USDC, decimals: 6}}},
+        aptos: {chainId: 'APTOS', tokens: {MY_TOKEN: {address: COIN, decimals: 8}}}
+    })
+
+    it('should scale amounts without losing precision', () => {
+        expect(scaleAmount(99_000_000n, 6, 8)).toBe(9_900_000_000n)
+        expect(scaleAmount(9_900_000_000n, 8, 6)).toBe(99_000_000n)
+        expect(() => scaleAmount(1n, 8, 6)).toThrow('loses precision')
+
+        expect(formatAmount(9_912_345_678n, 8)).toBe('99.12')
+        expect(formatAmount(-1_500_000n, 6)).toBe('-1.50')
+        expect(formatAmount(5n, 0)).toBe('5.00')
+    })
+
+    it('should convert the destination amount of an EVM order into coin units', () => {
+        const complement = Sdk.DstImmutablesComplement.new({
+            maker: new Sdk.Address(USDC),
+            amount: 99_000_000n,
+            token: new Sdk.Address(USDC),
+            safetyDeposit: 0n
+        })
+
+        expect(tokens.get(1, USDC).decimals).toBe(6)
+        expect(tokens.toAptosDstAmount(1, complement, COIN)).toBe(9_900_000_000n)
+
+        expect(() => tokens.toAptosDstAmount(10, complement, COIN)).toThrow('Unknown token')
+        expect(() => tokens.convert(1n << 64n, tokens.get(1, USDC), tokens.get('APTOS', COIN))).toThrow(
+            'does not fit u64'
+        )
+        expect(() => tokens.register('APTOS', COIN, 6)).toThrow('already registered with 8 decimals')
+        expect(() => tokens.register('APTOS', COIN, 256)).toThrow('Invalid decimals')
+    })
+})
@@ -0,0 +1,162 @@
+import Sdk from '@1inch/cross-chain-sdk'
+import {ChainAddress} from './chain-address'
+
+const UINT_64_MAX = (1n << 64n) - 1n
+
+// Both ERC20 and Aptos coins keep decimals in a u8
+const MAX_DECIMALS = 255
+
+/**
+ * Chain of a token: an EVM chain id, or `APTOS` as in config.chain.aptos.chainId
+ */
+export type TokenChain = number | 'APTOS'
+
+export type TokenInfo = {
+    chain: TokenChain
+    /**
+     * 20 byte address on EVM, coin type on Aptos
+     */
+    address: ChainAddress
+    decimals: number
+}
+
+/**
+ * Chains of config.ts, each token with its decimals
+ */
+export type TokenChainsConfig = Record<
+    string,
+    {chainId: TokenChain; tokens: Record<string, {address: string; decimals: number}>}
+>
+
+/**
+ * Decimals of the tokens a swap moves, per chain and asset. Move coins hold u64 amounts and ERC20 tokens u256, and
+ * an asset rarely has the same decimals on both chains, so an EVM amount is scaled before an Aptos escrow locks it
+ */
+export class TokenRegistry {
+    private readonly tokens = new Map<string, TokenInfo>()
+
+    static fromConfig(chains: TokenChainsConfig): TokenRegistry {
+        const registry = new TokenRegistry()
+
+        Object.values(chains).forEach(({chainId, tokens}) => {
+            Object.values(tokens).forEach(({address, decimals}) => registry.register(chainId, address, decimals))
+        })
+
+        return registry
+    }
+
+    /**
+     * @throws if `decimals` is not a u8 or the token is registered with other decimals
+     */
+    public register(chain: TokenChain, address: string, decimals: number): this {
+        if (!Number.isInteger(decimals) || decimals < 0 || decimals > MAX_DECIMALS) {
+            throw new Error(`Invalid decimals ${decimals} of ${address}`)
+        }
+
+        const token = {chain, address: ChainAddress.parse(address), decimals}
+        const key = getKey(chain, token.address)
+        const registered = this.tokens.get(key)
+
+        if (registered && registered.decimals !== decimals) {
+            throw new Error(`${address} on ${chain} already registered with ${registered.decimals} decimals`)
+        }
+
+        this.tokens.set(key, token)
+
+        return this
+    }
+
+    public find(chain: TokenChain, address: string): TokenInfo | undefined {
+        return this.tokens.get(getKey(chain, ChainAddress.parse(address)))
+    }
+
+    /**
+     * @throws if the token is not registered
+     */
+    public get(chain: TokenChain, address: string): TokenInfo {
+        const token = this.find(chain, address)
+
+        if (!token) {
+            throw new Error(`Unknown token ${address} on ${chain}`)
+        }
+
+        return token
+    }
+
+    /**
+     * `amount` of `from` in the units of `to`
+     *
+     * @throws if the amount loses precision, or does not fit u64 when `to` is an Aptos coin
+     */
+    public convert(amount: bigint, from: TokenInfo, to: TokenInfo): bigint {
+        const converted = scaleAmount(amount, from.decimals, to.decimals)
+
+        return to.chain === 'APTOS' ? toU64Amount(converted) : converted
+    }
+
+    /**
+     * Amount the Aptos destination escrow of an EVM order must lock: the complement amount, in the units of the
+     * order taker asset on `dstChainId`, scaled to the decimals of `coinType`
+     *
+     * @throws if a token is not registered, or the amount loses precision or does not fit u64
+     */
+    public toAptosDstAmount(dstChainId: TokenChain, complement: Sdk.DstImmutablesComplement, coinType: string): bigint {
+        return this.convert(
+            complement.amount,
+            this.get(dstChainId, complement.token.toString()),
+            this.get('APTOS', coinType)
+        )
+    }
+}
+
+/**
+ * Scales `amount` from `fromDecimals` to `toDecimals`
+ *
+ * @throws if dropping decimals would round the amount
+ */
+export function scaleAmount(amount: bigint, fromDecimals: number, toDecimals: number): bigint {
+    if (toDecimals >= fromDecimals) {
+        return amount * 10n ** BigInt(toDecimals - fromDecimals)
+    }
+
+    const divisor = 10n ** BigInt(fromDecimals - toDecimals)
+
+    if (amount % divisor !== 0n) {
+        throw new Error(`Amount ${amount} loses precision from ${fromDecimals} to ${toDecimals} decimals`)
+    }
+
+    return amount / divisor
+}
+
+/**
+ * @throws if `amount` is negative or above u64 max, what a Move coin amount holds
+ */
+export function toU64Amount(amount: bigint): bigint {
+    if (amount < 0n || amount > UINT_64_MAX) {
+        throw new Error(`Amount ${amount} does not fit u64`)
+    }
+
+    return amount
+}
+
+/**
+ * Decimal string of `amount`, truncated to `fractionDigits`
+ */
+export function formatAmount(amount: bigint, decimals: number, fractionDigits = 2): string {
+    const sign = amount < 0n ? '-' : ''
+    const abs = amount < 0n ? -amount : amount
+    const unit = 10n ** BigInt(decimals)
+    const whole = `${sign}${abs / unit}`
+
+    if (fractionDigits === 0) {
+        return whole
+    }
+
+    const fraction = (abs % unit).toString().padStart(decimals, '0').slice(0, fractionDigits)
+
+    return `${whole}.${fraction.padEnd(fractionDigits, '0')}`
+}
+
+function getKey(chain: TokenChain, address: ChainAddress): string {
+    return `${chain}:${address}`
+}
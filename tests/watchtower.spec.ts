@@ -0,0 +1,222 @@
+import {expect} from '@jest/globals'
+import Sdk from '@1inch/cross-chain-sdk'
+import {Filter, id, JsonRpcProvider, TransactionRequest} from 'ethers'
+import {AptosEscrowClient} from './aptos-escrow-client'
+import {EscrowImmutables} from './aptos-types'
+import {RelayerOrder} from './relayer'
+import {Resolver} from './resolver'
+import {EvmResolverConfig} from './resolver-bot'
+import {SwapSession, SwapSessionStore} from './swap-session'
+import {Wallet} from './wallet'
+import {CancelPolicy, Watchtower, WatchedEscrow} from './watchtower'
+
+const SRC_RESOLVER = '0x00000000000000000000000000000000000000a1'
+const DST_RESOLVER = '0x00000000000000000000000000000000000000a2'
+const OTHER_RESOLVER = '0x00000000000000000000000000000000000000bb'
+const APTOS_RESOLVER = '0x' + '12'.repeat(32)
+const FACTORY = '0x0000000000000000000000000000000000000f00'
+const EVM_TOKEN = '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48'
+const DEPLOYED_AT = 1000n
+const APTOS_LEDGER_TIME = 1_700_000_000n
+
+const timeLocks = Sdk.TimeLocks.new({
+    srcWithdrawal: 10n,
+    srcPublicWithdrawal: 120n,
+    srcCancellation: 121n,
+    srcPublicCancellation: 122n,
+    dstWithdrawal: 10n,
+    dstPublicWithdrawal: 100n,
+    dstCancellation: 101n
+}).setDeployedAt(DEPLOYED_AT)
+
+function evmEscrow(side: 'src' | 'dst', address: string, taker: string, safetyDeposit = 10n): WatchedEscrow {
+    return {
+        chain: 'evm',
+        side,
+        address,
+        immutables: Sdk.Immutables.new({
+            orderHash: '0x' + address.slice(-2).repeat(32),
+            hashLock: Sdk.HashLock.forSingleFill('0x' + '01'.repeat(32)),
+            maker: new Sdk.Address(OTHER_RESOLVER),
+            taker: new Sdk.Address(taker),
+            token: new Sdk.Address(EVM_TOKEN),
+            amount: 100n,
+            safetyDeposit,
+            timeLocks
+        })
+    }
+}
+
+// Aptos schedules run on the ledger clock, so the escrow is deployed `age` seconds before APTOS_LEDGER_TIME
+function aptosEscrow(address: string, taker: string, age: number): WatchedEscrow {
+    const immutables: EscrowImmutables = {
+        orderHash: '0x' + 'ac'.repeat(32),
+        hashlock: '0x' + '02'.repeat(32),
+        maker: '0x' + '34'.repeat(32),
+        taker,
+        tokenType: '0x1::aptos_coin::AptosCoin',
+        amount: 100n,
+        safetyDeposit: 10n,
+        timelocks: {
+            deployedAt: APTOS_LEDGER_TIME - BigInt(age),
+            srcWithdrawalDelay: 10,
+            srcPublicWithdrawalDelay: 120,
+            srcCancellationDelay: 121,
+            srcPublicCancellationDelay: 122,
+            dstWithdrawalDelay: 10,
+            dstPublicWithdrawalDelay: 100,
+            dstCancellationDelay: 101
+        }
+    }
+
+    return {chain: 'aptos', side: 'src', address, immutables}
+}
+
+/**
+ * Watchtower over stubbed chains at EVM block time `evmTime`. Escrows in `closed` have emitted Withdrawal on EVM or
+ * are completed on Aptos
+ */
+function setup(
+    policy: CancelPolicy,
+    evmTime: bigint,
+    closed: string[] = [],
+    sessions?: SwapSessionStore
+): {watchtower: Watchtower; sent: string[]} {
+    // Cancellations sent as `side.cancel@escrow`, `publicCancel@escrow` or `aptos.cancel@escrow`
+    const sent: string[] = []
+
+    const provider = {
+        getBlock: async () => ({timestamp: Number(evmTime)}),
+        getLogs: async ({address, topics}: Filter) =>
+            closed.includes(String(address)) && topics?.[0]?.includes(id('Withdrawal(bytes32)'))
+                ? [{address, topics: [id('Withdrawal(bytes32)')], data: '0x'}]
+                : []
+    } as unknown as JsonRpcProvider
+    const resolver = {
+        srcAddress: SRC_RESOLVER,
+        dstAddress: DST_RESOLVER,
+        cancel: (side: string, escrow: Sdk.Address) => ({to: SRC_RESOLVER, data: `${side}.cancel@${escrow}`})
+    } as unknown as Resolver
+    const wallet = {
+        provider,
+        send: async (tx: TransactionRequest) => {
+            // Public cancellations are EscrowSrc calls, encoded
+            sent.push(String(tx.data).startsWith('0x') ? `publicCancel@${tx.to}` : String(tx.data))
+
+            return {txHash: '0x' + sent.length}
+        }
+    } as unknown as Wallet
+    const evm: EvmResolverConfig = {chainId: 1, wallet, resolver, escrowFactory: FACTORY}
+
+    const aptos = {
+        address: APTOS_RESOLVER,
+        getLedgerTime: async () => APTOS_LEDGER_TIME,
+        getEscrow: async (address: string) => ({isCompleted: closed.includes(address)}),
+        cancel: async (address: string) => {
+            sent.push(`aptos.cancel@${address}`)
+
+            return {hash: '0x' + sent.length}
+        }
+    } as unknown as AptosEscrowClient
+
+    return {watchtower: new Watchtower(evm, aptos, policy, {fromBlock: 0, sessions}), sent}
+}
+
+describe('Watchtower', () => {
+    const src = evmEscrow('src', '0x00000000000000000000000000000000000000c1', SRC_RESOLVER)
+    const dst = evmEscrow('dst', '0x00000000000000000000000000000000000000c2', DST_RESOLVER)
+    const otherSrc = evmEscrow('src', '0x00000000000000000000000000000000000000c3', OTHER_RESOLVER)
+    const cheapSrc = evmEscrow('src', '0x00000000000000000000000000000000000000c4', OTHER_RESOLVER, 1n)
+
+    it('should cancel the escrows it is the taker of once their cancellation starts', async () => {
+        const policy = {asTaker: true, asPublicCanceller: false}
+        const early = setup(policy, DEPLOYED_AT + 100n)
+        early.watchtower.watch(src)
+        early.watchtower.watch(dst)
+        early.watchtower.watch(aptosEscrow('0x5c', APTOS_RESOLVER, 60))
+
+        expect(await early.watchtower.check()).toEqual([])
+        expect(early.watchtower.watched).toHaveLength(3)
+
+        const {watchtower, sent} = setup(policy, DEPLOYED_AT + 121n)
+        watchtower.watch(src)
+        watchtower.watch(dst)
+        watchtower.watch(otherSrc)
+        watchtower.watch(aptosEscrow('0x5c', APTOS_RESOLVER, 121))
+
+        const cancellations = await watchtower.check()
+
+        expect(cancellations.map((c) => c.action)).toEqual(['cancel', 'cancel', 'cancel'])
+        expect(sent).toEqual([`src.cancel@${src.address}`, `dst.cancel@${dst.address}`, 'aptos.cancel@0x5c'])
+        expect(watchtower.watched).toEqual([otherSrc])
+    })
+
+    it('should leave its own escrows to the taker when the policy does not cancel as taker', async () => {
+        const {watchtower, sent} = setup({asTaker: false, asPublicCanceller: true}, DEPLOYED_AT + 200n)
+        watchtower.watch(src)
+        watchtower.watch(dst)
+        watchtower.watch(aptosEscrow('0x5c', APTOS_RESOLVER, 200))
+
+        expect(await watchtower.check()).toEqual([])
+        expect(sent).toEqual([])
+    })
+
+    it('should publicly cancel EVM source escrows of other takers worth their safety deposit', async () => {
+        const policy = {asTaker: true, asPublicCanceller: true, minPublicSafetyDeposit: 10n}
+        const early = setup(policy, DEPLOYED_AT + 121n)
+        early.watchtower.watch(otherSrc)
+
+        expect(await early.watchtower.check()).toEqual([])
+
+        const {watchtower, sent} = setup(policy, DEPLOYED_AT + 122n)
+        watchtower.watch(otherSrc)
+        watchtower.watch(cheapSrc)
+        // escrow_core only lets the taker cancel
+        watchtower.watch(aptosEscrow('0x5d', '0x' + '56'.repeat(32), 200))
+
+        const cancellations = await watchtower.check()
+
+        expect(cancellations.map((c) => [c.escrow.address, c.action])).toEqual([[otherSrc.address, 'publicCancel']])
+        expect(sent).toEqual([`publicCancel@${otherSrc.address}`])
+
+        const disabled = setup({asTaker: true, asPublicCanceller: false}, DEPLOYED_AT + 122n)
+        disabled.watchtower.watch(otherSrc)
+
+        expect(await disabled.watchtower.check()).toEqual([])
+    })
+
+    it('should skip and stop watching escrows already withdrawn or cancelled', async () => {
+        const {watchtower, sent} = setup({asTaker: true, asPublicCanceller: false}, DEPLOYED_AT + 121n, [
+            src.address,
+            '0x5c'
+        ])
+        watchtower.watch(src)
+        watchtower.watch(dst)
+        watchtower.watch(aptosEscrow('0x5c', APTOS_RESOLVER, 121))
+
+        const cancellations = await watchtower.check()
+
+        expect(cancellations.map((c) => c.escrow.address)).toEqual([dst.address])
+        expect(sent).toEqual([`dst.cancel@${dst.address}`])
+        expect(watchtower.watched).toEqual([])
+
+        watchtower.watch(src)
+        expect(watchtower.watched).toEqual([])
+    })
+
+    it('should move the swap sessions of cancelled escrows to Cancelled', async () => {
+        const sessions = new SwapSessionStore()
+        const amounts = {makingAmount: 100n, takingAmount: 99n}
+        const order = (orderHash: string): RelayerOrder => ({orderHash}) as RelayerOrder
+        SwapSession.start(sessions, order(dst.immutables.orderHash), amounts, 0).transition('SrcDeployed')
+        SwapSession.start(sessions, order(otherSrc.immutables.orderHash), amounts, 0)
+
+        const {watchtower} = setup({asTaker: true, asPublicCanceller: false}, DEPLOYED_AT + 121n, [], sessions)
+        watchtower.watch(dst)
+        watchtower.watch(otherSrc)
+        await watchtower.check()
+
+        expect(sessions.get(dst.immutables.orderHash)?.state).toBe('Cancelled')
+        expect(sessions.get(otherSrc.immutables.orderHash)?.state).toBe('OrderSigned')
+    })
+})
@@ -0,0 +1,308 @@
+import Sdk from '@1inch/cross-chain-sdk'
+import {Interface} from 'ethers'
+import {AptosEscrowClient} from './aptos-escrow-client'
+import {EscrowImmutables} from './aptos-types'
+import {EscrowFactory} from './escrow-factory'
+import {EvmResolverConfig} from './resolver-bot'
+import {SWAP_TRANSITIONS, SwapSession, SwapSessionStore} from './swap-session'
+import {EscrowSide, getAllowedActions} from './timelock-stages'
+import EscrowSrc from '../dist/contracts/EscrowSrc.sol/EscrowSrc.json'
+
+export type WatchedEscrow =
+    | {chain: 'evm'; side: EscrowSide; address: string; immutables: Sdk.Immutables}
+    | {chain: 'aptos'; side: EscrowSide; address: string; immutables: EscrowImmutables}
+
+/**
+ * Which escrows the watchtower cancels, each as soon as its cancellation stage starts
+ */
+export type CancelPolicy = {
+    /**
+     * Cancel the escrows the Resolver contract or the Aptos resolver account is the taker of, getting back the
+     * tokens of destination escrows and the safety deposits
+     */
+    asTaker: boolean
+    /**
+     * Cancel the EVM source escrows of other takers once their public cancellation starts, for their safety deposit.
+     * escrow_core only lets the taker cancel, so Aptos escrows are never cancelled publicly
+     */
+    asPublicCanceller: boolean
+    /**
+     * Smallest safety deposit worth the gas of a public cancellation, in wei
+     */
+    minPublicSafetyDeposit?: bigint
+}
+
+export type WatchtowerConfig = {
+    /**
+     * EVM block the factory events are read from
+     */
+    fromBlock: number
+    /**
+     * Milliseconds between two syncs
+     */
+    pollInterval?: number
+    /**
+     * Sessions of the ResolverBot, moved to Cancelled when the watchtower cancels one of their escrows
+     */
+    sessions?: SwapSessionStore
+    log?: (message: string) => void
+}
+
+export type Cancellation = {
+    escrow: WatchedEscrow
+    action: 'cancel' | 'publicCancel'
+    txHash: string
+}
+
+/**
+ * Tracks open escrows on both chains and cancels them as soon as the policy and their timelocks allow it:
+ *
+ * - EVM source escrows from the SrcEscrowCreated events of the factory
+ * - EVM destination escrows of the Resolver contract from the DstEscrowCreated events, with the immutables of
+ *   the deployDst call
+ * - Aptos escrows from the transactions of the resolver account, the only ones it may cancel
+ *
+ * EVM stages are checked against the latest block time. escrow_core does not check the time on cancel, Aptos
+ * escrows are kept to the schedule with the latest ledger time
+ */
+export class Watchtower {
+    private readonly evmFactory: EscrowFactory
+
+    private readonly escrowSrc = new Interface(EscrowSrc.abi)
+
+    private readonly escrows = new Map<string, WatchedEscrow>()
+
+    /**
+     * Escrows withdrawn or cancelled, never watched again
+     */
+    private readonly closed = new Set<string>()
+
+    private nextBlock: number
+
+    private timer?: NodeJS.Timeout
+
+    private polling?: Promise<unknown>
+
+    private running = false
+
+    constructor(
+        private readonly evm: EvmResolverConfig,
+        private readonly aptos: AptosEscrowClient,
+        private readonly policy: CancelPolicy,
+        private readonly config: WatchtowerConfig
+    ) {
+        this.evmFactory = new EscrowFactory(evm.wallet.provider, evm.escrowFactory)
+        this.nextBlock = config.fromBlock
+    }
+
+    get watched(): WatchedEscrow[] {
+        return [...this.escrows.values()]
+    }
+
+    public start(): void {
+        if (this.running) {
+            return
+        }
+
+        this.running = true
+
+        const tick = (): void => {
+            this.polling = this.sync()
+                .then(() => this.check())
+                .catch((e) => this.log(`Watch failed: ${errorMessage(e)}`))
+                .finally(() => {
+                    if (this.running) {
+                        this.timer = setTimeout(tick, this.config.pollInterval ?? 5000)
+                    }
+                })
+        }
+
+        tick()
+    }
+
+    public async stop(): Promise<void> {
+        this.running = false
+        clearTimeout(this.timer)
+        await this.polling
+    }
+
+    /**
+     * Adds an escrow the events do not reveal, e.g. an EVM destination escrow deployed by another contract
+     */
+    public watch(escrow: WatchedEscrow): void {
+        const key = keyOf(escrow)
+
+        if (!this.closed.has(key)) {
+            this.escrows.set(key, escrow)
+        }
+    }
+
+    /**
+     * Watches the escrows deployed since the last sync
+     */
+    public async sync(): Promise<void> {
+        const {wallet, resolver, escrowFactory} = this.evm
+        const toBlock = await wallet.provider.getBlockNumber()
+
+        if (toBlock >= this.nextBlock) {
+            const srcImplementation = await this.evmFactory.getSourceImpl()
+            const factory = new Sdk.EscrowFactory(new Sdk.Address(escrowFactory))
+            const srcTaker = new Sdk.Address(resolver.srcAddress)
+            const dstTaker = new Sdk.Address(resolver.dstAddress)
+
+            for (const [immutables] of await this.evmFactory.getSrcDeployEvents(this.nextBlock, toBlock)) {
+                if (this.policy.asPublicCanceller || immutables.taker.equal(srcTaker)) {
+                    const address = factory.getSrcEscrowAddress(immutables, srcImplementation).toString()
+                    this.watch({chain: 'evm', side: 'src', address, immutables})
+                }
+            }
+
+            for (const event of await this.evmFactory.getDstDeployEvents(this.nextBlock, toBlock)) {
+                if (!event.taker.equal(dstTaker)) {
+                    continue
+                }
+
+                const tx = await wallet.provider.getTransaction(event.txHash)
+                const block = await wallet.provider.getBlock(event.blockNumber)
+                const immutables = resolver.parseDeployDst(tx!.data).withDeployedAt(BigInt(block!.timestamp))
+
+                this.watch({chain: 'evm', side: 'dst', address: event.escrowAddress.toString(), immutables})
+            }
+
+            this.nextBlock = toBlock + 1
+        }
+
+        for (const event of await this.aptos.getEscrowsCreated()) {
+            const side = event.isSource ? 'src' : 'dst'
+            this.watch({chain: 'aptos', side, address: event.escrowAddress, immutables: event.immutables})
+        }
+    }
+
+    /**
+     * Cancels the watched escrows the policy allows to cancel now, skipping those already withdrawn or cancelled
+     *
+     * @returns the cancellations sent
+     */
+    public async check(): Promise<Cancellation[]> {
+        const latest = await this.evm.wallet.provider.getBlock('latest')
+        const now = {evm: BigInt(latest!.timestamp), aptos: await this.aptos.getLedgerTime()}
+        const cancellations: Cancellation[] = []
+
+        for (const escrow of this.watched) {
+            const action = this.getCancelAction(escrow, now[escrow.chain])
+
+            if (!action) {
+                continue
+            }
+
+            try {
+                if (!(await this.isClosed(escrow))) {
+                    const txHash = await this.cancel(escrow, action)
+                    cancellations.push({escrow, action, txHash})
+                    this.log(`${action} of ${escrow.chain} ${escrow.side} escrow ${escrow.address} sent in ${txHash}`)
+                    this.cancelSession(escrow.immutables.orderHash)
+                }
+
+                this.escrows.delete(keyOf(escrow))
+                this.closed.add(keyOf(escrow))
+            } catch (e) {
+                this.log(
+                    `Cancelling ${escrow.chain} ${escrow.side} escrow ${escrow.address} failed: ${errorMessage(e)}`
+                )
+            }
+        }
+
+        return cancellations
+    }
+
+    private getCancelAction(escrow: WatchedEscrow, now: bigint): Cancellation['action'] | undefined {
+        const {resolver} = this.evm
+        const caller =
+            escrow.chain === 'aptos'
+                ? this.aptos.address
+                : escrow.side === 'src'
+                  ? resolver.srcAddress
+                  : resolver.dstAddress
+        const actions = getAllowedActions(escrow.immutables, escrow.side, caller, 0n, now)
+
+        if (actions.includes('cancel')) {
+            return this.policy.asTaker ? 'cancel' : undefined
+        }
+
+        const {asPublicCanceller, minPublicSafetyDeposit = 0n} = this.policy
+        const isWorth = escrow.immutables.safetyDeposit >= minPublicSafetyDeposit
+
+        if (actions.includes('publicCancel') && escrow.chain === 'evm' && asPublicCanceller && isWorth) {
+            return 'publicCancel'
+        }
+
+        return undefined
+    }
+
+    // EVM escrows emit Withdrawal or EscrowCancelled when they close, Aptos escrows are marked completed
+    private async isClosed(escrow: WatchedEscrow): Promise<boolean> {
+        if (escrow.chain === 'aptos') {
+            return (await this.aptos.getEscrow(escrow.address)).isCompleted
+        }
+
+        const logs = await this.evm.wallet.provider.getLogs({
+            address: escrow.address,
+            fromBlock: this.config.fromBlock,
+            topics: [
+                [
+                    this.escrowSrc.getEvent('Withdrawal')!.topicHash,
+                    this.escrowSrc.getEvent('EscrowCancelled')!.topicHash
+                ]
+            ]
+        })
+
+        return logs.length > 0
+    }
+
+    private async cancel(escrow: WatchedEscrow, action: Cancellation['action']): Promise<string> {
+        const {wallet, resolver} = this.evm
+
+        if (escrow.chain === 'aptos') {
+            return (await this.aptos.cancel(escrow.address, escrow.immutables)).hash
+        }
+
+        // Public cancellation is called by the wallet itself, which gets the safety deposit
+        const tx =
+            action === 'cancel'
+                ? resolver.cancel(escrow.side, new Sdk.Address(escrow.address), escrow.immutables)
+                : {
+                      to: escrow.address,
+                      data: this.escrowSrc.encodeFunctionData('publicCancel', [escrow.immutables.build()])
+                  }
+
+        return (await wallet.send(tx)).txHash
+    }
+
+    private cancelSession(orderHash: string): void {
+        const {sessions} = this.config
+
+        if (!sessions) {
+            return
+        }
+
+        const session = SwapSession.unfinished(sessions).find(
+            (s) => s.orderHash.toLowerCase() === orderHash.toLowerCase()
+        )
+
+        if (session && SWAP_TRANSITIONS[session.state].includes('Cancelled')) {
+            session.transition('Cancelled')
+        }
+    }
+
+    private log(message: string): void {
+        this.config.log?.(message)
+    }
+}
+
+function keyOf(escrow: WatchedEscrow): string {
+    return `${escrow.chain}:${escrow.address.toLowerCase()}`
+}
+
+function errorMessage(e: unknown): string {
+    return e instanceof Error ? e.message : String(e)
+}